@@ -1,7 +1,8 @@
 import { Switch, Route } from "wouter";
 import { QueryClientProvider } from "@tanstack/react-query";
-import { queryClient } from "./lib/queryClient";
-import { useState, useEffect } from "react";
+import { queryClient, authFetch, AUTH_TOKEN_KEY, UNAUTHORIZED_EVENT } from "./lib/queryClient";
+import { useState, useEffect, useCallback } from "react";
+import { toast } from "sonner";
 import { Layout } from "./components/Layout";
 import Login from "./pages/Login";
 import Dashboard from "./pages/Dashboard";
@@ -15,31 +16,105 @@ import Config from "./pages/Config";
 import Builder from "./pages/Builder";
 import NotFound from "./pages/not-found";
 
+// Warn this long before the session token expires
+const EXPIRY_WARNING_MS = 5 * 60 * 1000;
+// setTimeout overflows past ~24.8 days
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 function App() {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
 
-  useEffect(() => {
-    const token = localStorage.getItem("vipudev_auth");
-    if (token) {
-      fetch("/api/auth/verify", {
-        headers: { Authorization: `Bearer ${token}` },
-      })
-        .then((res) => {
-          setIsAuthenticated(res.ok);
-          if (!res.ok) localStorage.removeItem("vipudev_auth");
-        })
-        .catch(() => {
-          setIsAuthenticated(false);
-          localStorage.removeItem("vipudev_auth");
-        });
-    } else {
+  const verifySession = useCallback(() => {
+    if (!localStorage.getItem(AUTH_TOKEN_KEY)) {
       setIsAuthenticated(false);
+      return;
     }
+    authFetch("/api/auth/verify")
+      .then(async (res) => {
+        if (!res.ok) {
+          localStorage.removeItem(AUTH_TOKEN_KEY);
+          setIsAuthenticated(false);
+          return;
+        }
+        const data = await res.json();
+        setExpiresAt(data.expiresAt ? new Date(data.expiresAt).getTime() : null);
+        setIsAuthenticated(true);
+      })
+      .catch(() => {
+        setIsAuthenticated(false);
+        localStorage.removeItem(AUTH_TOKEN_KEY);
+      });
   }, []);
 
-  const handleLogout = () => {
-    localStorage.removeItem("vipudev_auth");
+  useEffect(() => {
+    verifySession();
+  }, [verifySession]);
+
+  const clearSession = useCallback(() => {
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    queryClient.clear();
+    setExpiresAt(null);
     setIsAuthenticated(false);
+  }, []);
+
+  // Any authFetch that gets a 401 sends us back to Login
+  useEffect(() => {
+    window.addEventListener(UNAUTHORIZED_EVENT, clearSession);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, clearSession);
+  }, [clearSession]);
+
+  const rotateSession = useCallback(async () => {
+    try {
+      const res = await authFetch("/api/auth/rotate", { method: "POST" });
+      if (!res.ok) throw new Error("Failed to extend session");
+      const data = await res.json();
+      localStorage.setItem(AUTH_TOKEN_KEY, data.token);
+      setExpiresAt(new Date(data.expiresAt).getTime());
+      toast.success("Session extended!");
+    } catch {
+      toast.error("Could not extend your session. Please sign in again.");
+    }
+  }, []);
+
+  // Warn shortly before the session expires, then sign out when it does
+  useEffect(() => {
+    if (!expiresAt) return;
+    const remaining = expiresAt - Date.now();
+    const timers: ReturnType<typeof setTimeout>[] = [];
+
+    if (remaining > EXPIRY_WARNING_MS && remaining - EXPIRY_WARNING_MS < MAX_TIMEOUT_MS) {
+      timers.push(setTimeout(() => {
+        toast.warning("Your session expires in 5 minutes", {
+          duration: EXPIRY_WARNING_MS,
+          action: { label: "Stay signed in", onClick: () => rotateSession() },
+        });
+      }, remaining - EXPIRY_WARNING_MS));
+    }
+    if (remaining < MAX_TIMEOUT_MS) {
+      timers.push(setTimeout(() => {
+        clearSession();
+        toast.info("Your session has expired. Please sign in again.");
+      }, Math.max(remaining, 0)));
+    }
+
+    return () => timers.forEach(clearTimeout);
+  }, [expiresAt, rotateSession, clearSession]);
+
+  const handleLogout = () => {
+    authFetch("/api/auth/logout", { method: "POST" }).catch(() => {});
+    clearSession();
+  };
+
+  const handleLogoutAll = async () => {
+    try {
+      const res = await authFetch("/api/auth/logout-all", { method: "POST" });
+      if (!res.ok) throw new Error("Failed to log out all devices");
+      toast.success("Logged out from all devices");
+    } catch {
+      toast.error("Failed to log out all devices");
+    }
+    clearSession();
   };
 
   if (isAuthenticated === null) {
@@ -53,14 +128,14 @@ function App() {
   if (!isAuthenticated) {
     return (
       <QueryClientProvider client={queryClient}>
-        <Login onLogin={() => setIsAuthenticated(true)} />
+        <Login onLogin={verifySession} />
       </QueryClientProvider>
     );
   }
 
   return (
     <QueryClientProvider client={queryClient}>
-      <Layout onLogout={handleLogout}>
+      <Layout onLogout={handleLogout} onLogoutAll={handleLogoutAll}>
         <Switch>
           <Route path="/" component={Dashboard} />
           <Route path="/builder" component={Builder} />
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, UserPlus, Users } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import type { PublicUser } from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+
+// Admin only: signup is closed by default, so teammates get their accounts here
+export function AccountsPanel() {
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["users"],
+    queryFn: async () => {
+      const res = await authFetch("/api/users");
+      if (!res.ok) throw new Error("Failed to fetch accounts");
+      return res.json() as Promise<{ users: PublicUser[] }>;
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await authFetch("/api/users", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: username.trim(), password }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to create account");
+      return body as { user: PublicUser };
+    },
+    onSuccess: ({ user }) => {
+      queryClient.invalidateQueries({ queryKey: ["users"] });
+      setUsername("");
+      setPassword("");
+      toast.success(`Account "${user.username}" created - share the password with them privately`);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return (
+    <div className="space-y-4">
+      <label className="text-sm font-medium text-gray-300 flex items-center gap-2">
+        <Users className="w-4 h-4" /> Accounts
+      </label>
+      <p className="text-xs text-gray-500">
+        Self-service signup is off unless <code className="text-lime-400">ALLOW_SIGNUP=true</code> is set. Create
+        accounts for your teammates here.
+      </p>
+
+      <div className="rounded-xl p-4 bg-black/20 border border-white/10 space-y-3">
+        <div className="flex gap-2">
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            autoComplete="off"
+            className="flex-1 bg-black/20 border border-white/10 rounded-lg p-2.5 text-white focus:outline-none focus:border-indigo-500/50 transition-colors text-sm"
+            data-testid="input-new-account-username"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password (8+ characters)"
+            autoComplete="new-password"
+            className="flex-1 bg-black/20 border border-white/10 rounded-lg p-2.5 text-white focus:outline-none focus:border-indigo-500/50 transition-colors text-sm"
+            data-testid="input-new-account-password"
+          />
+        </div>
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={!username.trim() || password.length < 8 || createMutation.isPending}
+          className="text-sm px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+          data-testid="button-create-account"
+        >
+          {createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+          Create Account
+        </button>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-indigo-500" />
+      ) : (
+        <div className="space-y-2">
+          {data?.users.map((user) => (
+            <div
+              key={user.id}
+              className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-white/5"
+              data-testid={`row-account-${user.id}`}
+            >
+              <span className="text-sm text-gray-200">
+                {user.username}
+                {user.role === "admin" && <span className="ml-2 text-xs text-lime-400">admin</span>}
+              </span>
+              <span className="text-xs text-gray-500">
+                joined {formatDistanceToNow(new Date(user.createdAt), { addSuffix: true })}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
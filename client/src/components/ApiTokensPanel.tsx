@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, Copy, KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { API_TOKEN_SCOPES, type ApiTokenScope, type PublicApiToken } from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+
+export function ApiTokensPanel() {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<Set<ApiTokenScope>>(new Set<ApiTokenScope>(["projects:read"]));
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["api-tokens"],
+    queryFn: async () => {
+      const res = await authFetch("/api/tokens");
+      if (!res.ok) throw new Error("Failed to fetch API tokens");
+      return res.json() as Promise<{ tokens: PublicApiToken[] }>;
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await authFetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), scopes: Array.from(scopes) }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || "Failed to create token");
+      return body as { token: string; apiToken: PublicApiToken };
+    },
+    onSuccess: (body) => {
+      queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+      setNewToken(body.token);
+      setName("");
+      toast.success("API token created - copy it now, it won't be shown again!");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await authFetch(`/api/tokens/${id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to revoke token");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["api-tokens"] });
+      toast.success("API token revoked");
+    },
+    onError: () => toast.error("Failed to revoke token"),
+  });
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((prev) => {
+      const next = new Set(prev);
+      if (next.has(scope)) {
+        next.delete(scope);
+      } else {
+        next.add(scope);
+      }
+      return next;
+    });
+  };
+
+  const copyToken = () => {
+    if (!newToken) return;
+    navigator.clipboard.writeText(newToken);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="text-sm font-medium text-gray-300 flex items-center gap-2">
+        <KeyRound className="w-4 h-4" /> API Tokens
+      </label>
+      <p className="text-xs text-gray-500">
+        Use a token as <code className="text-lime-400">Authorization: Bearer &lt;token&gt;</code> to call
+        VipuDevAI from scripts and CI.
+      </p>
+
+      {newToken && (
+        <div className="rounded-xl p-3 bg-lime-500/10 border border-lime-500/20 space-y-2">
+          <p className="text-xs text-lime-400">Copy your new token now. You won't be able to see it again.</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-xs text-white font-mono break-all" data-testid="text-new-api-token">
+              {newToken}
+            </code>
+            <button
+              onClick={copyToken}
+              className="text-xs px-2 py-1 rounded bg-lime-500/20 text-lime-400 hover:bg-lime-500/30 transition-colors flex items-center gap-1"
+            >
+              {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+              Copy
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="rounded-xl p-4 bg-black/20 border border-white/10 space-y-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Token name (e.g. GitHub Actions)"
+          className="w-full bg-black/20 border border-white/10 rounded-lg p-2.5 text-white focus:outline-none focus:border-indigo-500/50 transition-colors text-sm"
+          data-testid="input-api-token-name"
+        />
+        <div className="flex flex-wrap gap-2">
+          {API_TOKEN_SCOPES.map((scope) => (
+            <button
+              key={scope}
+              type="button"
+              onClick={() => toggleScope(scope)}
+              className={`text-xs px-2.5 py-1 rounded-full border font-mono transition-colors ${
+                scopes.has(scope)
+                  ? "bg-indigo-500/20 border-indigo-500/50 text-indigo-300"
+                  : "bg-black/20 border-white/10 text-gray-500 hover:text-gray-300"
+              }`}
+              data-testid={`toggle-scope-${scope}`}
+            >
+              {scope}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => createMutation.mutate()}
+          disabled={!name.trim() || scopes.size === 0 || createMutation.isPending}
+          className="text-sm px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-medium transition-colors flex items-center gap-2 disabled:opacity-50"
+          data-testid="button-create-api-token"
+        >
+          {createMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          Generate Token
+        </button>
+      </div>
+
+      {isLoading ? (
+        <Loader2 className="w-5 h-5 animate-spin text-indigo-500" />
+      ) : (
+        <div className="space-y-2">
+          {data?.tokens.map((token) => (
+            <div
+              key={token.id}
+              className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-white/5"
+              data-testid={`row-api-token-${token.id}`}
+            >
+              <div className="min-w-0">
+                <div className="text-sm text-gray-200">
+                  {token.name} <span className="text-xs text-gray-500 font-mono">{token.tokenPrefix}…</span>
+                </div>
+                <div className="text-xs text-gray-500 truncate">
+                  {token.scopes.join(", ")} ·{" "}
+                  {token.lastUsedAt
+                    ? `last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                    : "never used"}
+                </div>
+              </div>
+              <button
+                onClick={() => {
+                  if (confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+                    revokeMutation.mutate(token.id);
+                  }
+                }}
+                className="text-gray-500 hover:text-red-400 transition-colors p-1"
+                data-testid={`button-revoke-api-token-${token.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          {data?.tokens.length === 0 && <p className="text-xs text-gray-500">No API tokens yet.</p>}
+        </div>
+      )}
+    </div>
+  );
+}
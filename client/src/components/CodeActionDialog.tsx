@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Check, Loader2, RotateCcw, Sparkles, X } from "lucide-react";
+import type { CodeAction, CodeActionRequest, CodeActionResult } from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+import { CodeDiff } from "@/components/CodeDiff";
+
+// Menu labels, in the order they appear in the editor's context menu
+export const CODE_ACTION_LABELS: Record<CodeAction, string> = {
+  explain: "Explain selection",
+  fix: "Fix this",
+  tests: "Add tests",
+  refactor: "Refactor",
+  jsdoc: "Add JSDoc",
+};
+
+interface CodeActionDialogProps {
+  request: CodeActionRequest;
+  // Current content of a project file, for diffing generated tests against
+  existingContent: (path: string) => string | undefined;
+  canApply: boolean;
+  // Resolves false when the change couldn't be applied; the dialog stays open
+  onApply: (result: CodeActionResult) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export function CodeActionDialog({ request, existingContent, canApply, onApply, onClose }: CodeActionDialogProps) {
+  const [applying, setApplying] = useState(false);
+
+  const { data: result, error, isFetching, refetch } = useQuery({
+    queryKey: ["code-action", request],
+    gcTime: 0,
+    staleTime: Infinity,
+    retry: false,
+    refetchOnWindowFocus: false,
+    queryFn: async () => {
+      const res = await authFetch("/api/assistant/code-action", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.details?.[0]?.message || body.error || "Code action failed");
+      return body as CodeActionResult;
+    },
+  });
+
+  const isNewFile = result?.action === "tests" && existingContent(result.path) === undefined;
+  const before = result?.action === "tests" ? existingContent(result.path) ?? "" : request.code;
+
+  const apply = async () => {
+    if (!result) return;
+    setApplying(true);
+    const applied = await onApply(result);
+    setApplying(false);
+    if (applied) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-[#0a1a0f] border border-lime-500/30 rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col animate-in zoom-in-95 duration-200"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold vipu-gradient flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-lime-400" />
+            {CODE_ACTION_LABELS[request.action]}
+            <span className="text-xs font-mono font-normal text-gray-500">{request.path}</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" data-testid="button-close-code-action">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 min-h-0">
+          {isFetching ? (
+            <div className="flex flex-col items-center gap-2 py-10 text-sm text-gray-400">
+              <Loader2 className="w-6 h-6 animate-spin text-lime-400" />
+              Vipu is working on it...
+            </div>
+          ) : error ? (
+            <p className="text-sm text-red-400 text-center py-6">{(error as Error).message}</p>
+          ) : result ? (
+            <>
+              {result.explanation && (
+                <p className="text-sm text-gray-200 leading-relaxed whitespace-pre-wrap" data-testid="text-code-action-explanation">
+                  {result.explanation}
+                </p>
+              )}
+              {result.code !== null && (
+                <div>
+                  {result.action === "tests" && (
+                    <span className="text-xs text-gray-400">{isNewFile ? "New file" : "Replaces the existing file"}</span>
+                  )}
+                  <CodeDiff oldCode={before} newCode={result.code} language={request.language} fileName={result.path} />
+                </div>
+              )}
+            </>
+          ) : null}
+        </div>
+
+        <div className="flex gap-3 mt-4">
+          {error || !result || result.code === null ? (
+            <>
+              <button
+                onClick={() => refetch()}
+                disabled={isFetching}
+                className="flex-1 py-2 px-4 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/5 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                data-testid="button-retry-code-action"
+              >
+                <RotateCcw className="w-4 h-4" /> Ask again
+              </button>
+              <button
+                onClick={onClose}
+                className="flex-1 py-2 px-4 rounded-lg bg-gradient-to-r from-green-600 to-lime-500 text-white font-medium hover:from-green-500 hover:to-lime-400 transition-colors"
+              >
+                Close
+              </button>
+            </>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                className="flex-1 py-2 px-4 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/5 transition-colors flex items-center justify-center gap-2"
+                data-testid="button-reject-code-action"
+              >
+                <X className="w-4 h-4" /> Reject
+              </button>
+              <button
+                onClick={apply}
+                disabled={!canApply || applying || isFetching}
+                title={canApply ? undefined : "You have view-only access to this project"}
+                className="flex-1 py-2 px-4 rounded-lg bg-gradient-to-r from-green-600 to-lime-500 text-white font-medium hover:from-green-500 hover:to-lime-400 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                data-testid="button-accept-code-action"
+              >
+                {applying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                Accept
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { FileCode, Loader2, Search, X } from "lucide-react";
+import type { CodeSearchMatch, CodeSearchResult } from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+
+interface CodeSearchPaletteProps {
+  onClose: () => void;
+}
+
+interface CodeSearchResponse {
+  results: CodeSearchResult[];
+  matchCount: number;
+  truncated: boolean;
+}
+
+type Hit = { result: CodeSearchResult; match: CodeSearchMatch };
+
+// Link that opens a file in the editor with the cursor on the hit
+function editorLink(projectId: string, path: string, line: number, column = 1): string {
+  const params = new URLSearchParams({ project: projectId, file: path, line: String(line), column: String(column) });
+  return `/editor?${params}`;
+}
+
+export function CodeSearchPalette({ onClose }: CodeSearchPaletteProps) {
+  const [, navigate] = useLocation();
+  const [input, setInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [regex, setRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(input), 300);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ["code-search", search, regex, caseSensitive],
+    enabled: search.trim().length > 0,
+    placeholderData: (previous) => previous,
+    gcTime: 0,
+    retry: false,
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: search, regex: String(regex), caseSensitive: String(caseSensitive) });
+      const res = await authFetch(`/api/search/code?${params}`);
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || "Search failed");
+      return body as CodeSearchResponse;
+    },
+  });
+
+  const results = search.trim() ? data?.results ?? [] : [];
+  const hits: Hit[] = results.flatMap((result) => result.matches.map((match) => ({ result, match })));
+
+  useEffect(() => setSelected(0), [data]);
+
+  const open = ({ result, match }: Hit) => {
+    navigate(editorLink(result.projectId, result.path, match.line, match.column));
+    onClose();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") onClose();
+    else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setSelected((i) => Math.min(i + 1, hits.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setSelected((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter" && hits[selected]) {
+      open(hits[selected]);
+    }
+  };
+
+  let hitIndex = 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-start justify-center z-50 p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="bg-[#0a1a0f] border border-lime-500/30 rounded-2xl w-full max-w-3xl max-h-[75vh] flex flex-col animate-in zoom-in-95 duration-200 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        onKeyDown={onKeyDown}
+      >
+        <div className="flex items-center gap-2 p-3 border-b border-white/10">
+          <Search className="w-4 h-4 text-gray-500 flex-shrink-0" />
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Search code in all projects..."
+            className="flex-1 bg-transparent text-white placeholder:text-gray-600 focus:outline-none text-sm"
+            autoFocus
+            data-testid="input-code-search"
+          />
+          {isFetching && <Loader2 className="w-4 h-4 animate-spin text-lime-400" />}
+          <button
+            onClick={() => setCaseSensitive(!caseSensitive)}
+            className={`text-xs font-mono px-2 py-1 rounded border transition-colors ${
+              caseSensitive ? "bg-lime-400/10 text-lime-400 border-lime-400/30" : "text-gray-500 border-white/10 hover:text-white"
+            }`}
+            title="Match case"
+            data-testid="toggle-search-case"
+          >
+            Aa
+          </button>
+          <button
+            onClick={() => setRegex(!regex)}
+            className={`text-xs font-mono px-2 py-1 rounded border transition-colors ${
+              regex ? "bg-lime-400/10 text-lime-400 border-lime-400/30" : "text-gray-500 border-white/10 hover:text-white"
+            }`}
+            title="Regular expression"
+            data-testid="toggle-search-regex"
+          >
+            .*
+          </button>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" data-testid="button-close-code-search">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto min-h-0">
+          {error ? (
+            <p className="text-sm text-red-400 text-center py-6">{(error as Error).message}</p>
+          ) : !search.trim() ? (
+            <p className="text-sm text-gray-500 text-center py-6">Type to search every project you can open.</p>
+          ) : data && hits.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">No matches.</p>
+          ) : (
+            results.map((result) => (
+              <div key={`${result.projectId}/${result.path}`} className="py-1">
+                <div className="flex items-center gap-2 px-4 py-1.5 text-xs text-gray-400 sticky top-0 bg-[#0a1a0f]">
+                  <FileCode className="w-3.5 h-3.5 text-lime-400" />
+                  <span className="font-mono text-gray-200 truncate">{result.path}</span>
+                  <span className="text-gray-600 truncate">· {result.projectName}</span>
+                </div>
+                {result.matches.map((match) => {
+                  const index = hitIndex++;
+                  const hit = { result, match };
+                  return (
+                    <button
+                      key={match.line}
+                      onClick={() => open(hit)}
+                      onMouseEnter={() => setSelected(index)}
+                      className={`w-full text-left px-4 py-1 font-mono text-xs ${index === selected ? "bg-lime-400/10" : ""}`}
+                      data-testid={`row-code-hit-${result.path}-${match.line}`}
+                    >
+                      {match.before.map((line, i) => (
+                        <ContextLine key={`b${i}`} number={match.line - match.before.length + i} text={line} />
+                      ))}
+                      <div className="flex gap-3 text-gray-200">
+                        <span className="w-10 text-right text-lime-500/70 flex-shrink-0">{match.line}</span>
+                        <span className="whitespace-pre truncate">
+                          {match.text.slice(0, match.textStart)}
+                          <mark className="bg-lime-400/30 text-lime-200 rounded-sm">
+                            {match.text.slice(match.textStart, match.textStart + match.length)}
+                          </mark>
+                          {match.text.slice(match.textStart + match.length)}
+                        </span>
+                      </div>
+                      {match.after.map((line, i) => (
+                        <ContextLine key={`a${i}`} number={match.line + 1 + i} text={line} />
+                      ))}
+                    </button>
+                  );
+                })}
+              </div>
+            ))
+          )}
+        </div>
+
+        {data && search.trim() && (
+          <div className="px-4 py-2 border-t border-white/10 text-[11px] text-gray-500 flex justify-between">
+            <span>
+              {data.matchCount} match{data.matchCount === 1 ? "" : "es"} in {data.results.length} file
+              {data.results.length === 1 ? "" : "s"}
+              {data.truncated && " (more results not shown - narrow the search)"}
+            </span>
+            <span>↑↓ to select · Enter to open</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ContextLine({ number, text }: { number: number; text: string }) {
+  return (
+    <div className="flex gap-3 text-gray-500">
+      <span className="w-10 text-right flex-shrink-0">{number}</span>
+      <span className="whitespace-pre truncate">{text}</span>
+    </div>
+  );
+}
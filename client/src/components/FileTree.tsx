@@ -0,0 +1,353 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  ChevronDown,
+  ChevronRight,
+  File,
+  FilePlus,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+
+export type FileTreeEntryKind = "file" | "folder";
+
+interface FileTreeProps {
+  paths: string[];
+  activePath: string | null;
+  // Files with unsaved edits
+  dirtyPaths: Set<string>;
+  readOnly: boolean;
+  onOpen: (path: string) => void;
+  onCreate: (path: string, kind: FileTreeEntryKind) => void;
+  // Also used for drag-and-drop moves
+  onRename: (path: string, newPath: string, kind: FileTreeEntryKind) => void;
+  onDelete: (path: string, kind: FileTreeEntryKind) => void;
+}
+
+interface FolderNode {
+  kind: "folder";
+  name: string;
+  path: string;
+  children: TreeNode[];
+}
+type TreeNode = FolderNode | { kind: "file"; name: string; path: string };
+
+type Entry = { path: string; kind: FileTreeEntryKind };
+type Editing = { mode: "create"; parent: string; kind: FileTreeEntryKind } | { mode: "rename"; path: string; kind: FileTreeEntryKind };
+type ContextMenu = { x: number; y: number; target: Entry | null };
+
+const DRAG_TYPE = "application/x-vipu-file-tree";
+
+const joinPath = (folder: string, name: string) => (folder ? `${folder}/${name}` : name);
+const baseName = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+const parentOf = (path: string) => path.slice(0, Math.max(0, path.lastIndexOf("/")));
+
+// Folders first, then files, each alphabetically
+function buildTree(paths: string[]): FolderNode {
+  const root: FolderNode = { kind: "folder", name: "", path: "", children: [] };
+  for (const path of paths) {
+    const parts = path.split("/");
+    let folder = root;
+    parts.slice(0, -1).forEach((part, i) => {
+      const folderPath = parts.slice(0, i + 1).join("/");
+      let next = folder.children.find((c): c is FolderNode => c.kind === "folder" && c.path === folderPath);
+      if (!next) {
+        next = { kind: "folder", name: part, path: folderPath, children: [] };
+        folder.children.push(next);
+      }
+      folder = next;
+    });
+    folder.children.push({ kind: "file", name: parts[parts.length - 1], path });
+  }
+
+  const sort = (node: FolderNode) => {
+    node.children.sort((a, b) => (a.kind === b.kind ? a.name.localeCompare(b.name) : a.kind === "folder" ? -1 : 1));
+    node.children.forEach((c) => c.kind === "folder" && sort(c));
+  };
+  sort(root);
+  return root;
+}
+
+export function FileTree({ paths, activePath, dirtyPaths, readOnly, onOpen, onCreate, onRename, onDelete }: FileTreeProps) {
+  // Folders start expanded; track the ones the user closed
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [menu, setMenu] = useState<ContextMenu | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!menu) return;
+    const close = () => setMenu(null);
+    window.addEventListener("click", close);
+    window.addEventListener("blur", close);
+    return () => {
+      window.removeEventListener("click", close);
+      window.removeEventListener("blur", close);
+    };
+  }, [menu]);
+
+  const tree = buildTree(paths);
+
+  const toggle = (path: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+
+  const startCreate = (parent: string, kind: FileTreeEntryKind) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      next.delete(parent);
+      return next;
+    });
+    setEditing({ mode: "create", parent, kind });
+  };
+
+  const submitName = (name: string) => {
+    const current = editing;
+    setEditing(null);
+    const trimmed = name.trim().replace(/^\/+|\/+$/g, "");
+    if (!current || !trimmed) return;
+    if (current.mode === "create") {
+      onCreate(joinPath(current.parent, trimmed), current.kind);
+    } else if (trimmed !== baseName(current.path)) {
+      onRename(current.path, joinPath(parentOf(current.path), trimmed), current.kind);
+    }
+  };
+
+  const openMenu = (e: React.MouseEvent, target: Entry | null) => {
+    if (readOnly) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setMenu({ x: e.clientX, y: e.clientY, target });
+  };
+
+  // Drag-and-drop: drop anything onto a folder (or the empty area for the root)
+  const canDrop = (entry: Entry, folder: string) =>
+    parentOf(entry.path) !== folder &&
+    !(entry.kind === "folder" && (folder === entry.path || folder.startsWith(`${entry.path}/`)));
+
+  const dragProps = (entry: Entry) =>
+    readOnly
+      ? {}
+      : {
+          draggable: true,
+          onDragStart: (e: React.DragEvent) => {
+            e.stopPropagation();
+            e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(entry));
+            e.dataTransfer.effectAllowed = "move";
+          },
+          onDragEnd: () => setDropTarget(null),
+        };
+
+  const dropProps = (folder: string) =>
+    readOnly
+      ? {}
+      : {
+          onDragOver: (e: React.DragEvent) => {
+            if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropTarget(folder);
+          },
+          onDragLeave: (e: React.DragEvent) => {
+            e.stopPropagation();
+            setDropTarget((current) => (current === folder ? null : current));
+          },
+          onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setDropTarget(null);
+            const raw = e.dataTransfer.getData(DRAG_TYPE);
+            if (!raw) return;
+            const entry = JSON.parse(raw) as Entry;
+            if (canDrop(entry, folder)) onRename(entry.path, joinPath(folder, baseName(entry.path)), entry.kind);
+          },
+        };
+
+  const indent = (depth: number) => ({ paddingLeft: 12 + depth * 12 });
+
+  const renderNameInput = (depth: number, kind: FileTreeEntryKind, initial: string) => (
+    <div className="flex items-center gap-2 pr-2 py-1" style={indent(depth)}>
+      {kind === "folder" ? <Folder className="w-4 h-4 text-lime-400/70 flex-shrink-0" /> : <File className="w-4 h-4 opacity-70 flex-shrink-0" />}
+      <NameInput initial={initial} onSubmit={submitName} onCancel={() => setEditing(null)} />
+    </div>
+  );
+
+  const renderChildren = (folder: FolderNode, depth: number): React.ReactNode => (
+    <>
+      {editing?.mode === "create" && editing.parent === folder.path && renderNameInput(depth, editing.kind, "")}
+      {folder.children.map((node) => renderNode(node, depth))}
+    </>
+  );
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => {
+    if (editing?.mode === "rename" && editing.path === node.path) {
+      return <div key={node.path}>{renderNameInput(depth, node.kind, node.name)}</div>;
+    }
+
+    if (node.kind === "file") {
+      const isActive = node.path === activePath;
+      return (
+        <div
+          key={node.path}
+          {...dragProps({ path: node.path, kind: "file" })}
+          onClick={() => onOpen(node.path)}
+          onContextMenu={(e) => openMenu(e, { path: node.path, kind: "file" })}
+          style={indent(depth)}
+          className={`flex items-center gap-2 pr-2 py-1.5 text-sm cursor-pointer transition-colors group ${
+            isActive ? "bg-lime-400/10 text-lime-400 border-r-2 border-lime-400" : "text-gray-400 hover:bg-white/5 hover:text-white"
+          }`}
+          title={node.path}
+          data-testid={`tree-file-${node.path}`}
+        >
+          <File className="w-4 h-4 opacity-70 flex-shrink-0" />
+          <span className="truncate flex-1">{node.name}</span>
+          {dirtyPaths.has(node.path) && (
+            <span className="w-1.5 h-1.5 rounded-full bg-lime-400 flex-shrink-0 group-hover:hidden" title="Unsaved changes" />
+          )}
+          {!readOnly && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDelete(node.path, "file");
+              }}
+              className="opacity-0 group-hover:opacity-100 text-red-400 hover:text-red-300"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      );
+    }
+
+    const isOpen = !collapsed.has(node.path);
+    return (
+      <div key={node.path} {...dropProps(node.path)} className={dropTarget === node.path ? "bg-lime-400/5 outline outline-1 outline-lime-400/40" : ""}>
+        <div
+          {...dragProps({ path: node.path, kind: "folder" })}
+          onClick={() => toggle(node.path)}
+          onContextMenu={(e) => openMenu(e, { path: node.path, kind: "folder" })}
+          style={indent(depth)}
+          className="flex items-center gap-1.5 pr-2 py-1.5 text-sm cursor-pointer text-gray-300 hover:bg-white/5 hover:text-white"
+          title={node.path}
+          data-testid={`tree-folder-${node.path}`}
+        >
+          {isOpen ? <ChevronDown className="w-3 h-3 flex-shrink-0" /> : <ChevronRight className="w-3 h-3 flex-shrink-0" />}
+          {isOpen ? <FolderOpen className="w-4 h-4 text-lime-400/70 flex-shrink-0" /> : <Folder className="w-4 h-4 text-lime-400/70 flex-shrink-0" />}
+          <span className="truncate">{node.name}</span>
+        </div>
+        {isOpen && renderChildren(node, depth + 1)}
+      </div>
+    );
+  };
+
+  const menuTarget = menu?.target;
+  const menuFolder = menuTarget ? (menuTarget.kind === "folder" ? menuTarget.path : parentOf(menuTarget.path)) : "";
+
+  return (
+    <div className="w-56 bg-black/20 border-r border-lime-400/10 flex flex-col min-h-0">
+      <div className="flex items-center justify-between p-3">
+        <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Files</span>
+        {!readOnly && (
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => startCreate("", "file")}
+              className="text-gray-500 hover:text-lime-400 transition-colors p-0.5"
+              title="New file"
+              data-testid="button-add-file"
+            >
+              <FilePlus className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => startCreate("", "folder")}
+              className="text-gray-500 hover:text-lime-400 transition-colors p-0.5"
+              title="New folder"
+              data-testid="button-add-folder"
+            >
+              <FolderPlus className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div
+        className={`flex-1 overflow-y-auto pb-6 ${dropTarget === "" ? "bg-lime-400/5" : ""}`}
+        {...dropProps("")}
+        onContextMenu={(e) => openMenu(e, null)}
+      >
+        {renderChildren(tree, 0)}
+      </div>
+
+      {menu && (
+        <div
+          className="fixed z-50 w-44 rounded-lg bg-[#0a1a0f] border border-lime-500/30 shadow-xl py-1 text-sm"
+          style={{ left: menu.x, top: menu.y }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {[
+            { label: "New file", icon: FilePlus, action: () => startCreate(menuFolder, "file") },
+            { label: "New folder", icon: FolderPlus, action: () => startCreate(menuFolder, "folder") },
+            ...(menuTarget
+              ? [
+                  { label: "Rename", icon: Pencil, action: () => setEditing({ mode: "rename", ...menuTarget }) },
+                  { label: "Delete", icon: Trash2, action: () => onDelete(menuTarget.path, menuTarget.kind), danger: true },
+                ]
+              : []),
+          ].map((item) => (
+            <button
+              key={item.label}
+              onClick={() => {
+                setMenu(null);
+                item.action();
+              }}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-white/5 ${
+                "danger" in item ? "text-red-400" : "text-gray-300"
+              }`}
+              data-testid={`menu-${item.label.toLowerCase().replace(" ", "-")}`}
+            >
+              <item.icon className="w-3.5 h-3.5" />
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NameInput({ initial, onSubmit, onCancel }: { initial: string; onSubmit: (name: string) => void; onCancel: () => void }) {
+  const [value, setValue] = useState(initial);
+  // Enter submits and unmounts the input, which can fire blur as well
+  const done = useRef(false);
+  const finish = (submit: boolean) => {
+    if (done.current) return;
+    done.current = true;
+    if (submit) onSubmit(value);
+    else onCancel();
+  };
+
+  return (
+    <input
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") finish(true);
+        else if (e.key === "Escape") finish(false);
+      }}
+      onBlur={() => finish(true)}
+      onFocus={(e) => {
+        // Select the name without its extension, like most editors
+        const dot = initial.lastIndexOf(".");
+        e.target.setSelectionRange(0, dot > 0 ? dot : initial.length);
+      }}
+      autoFocus
+      className="flex-1 min-w-0 bg-black/40 border border-lime-400/40 rounded px-1.5 py-0.5 text-sm text-white focus:outline-none"
+      data-testid="input-tree-name"
+    />
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Download, GitBranch, GitCommitHorizontal, Loader2, Plus, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { authFetch } from "@/lib/queryClient";
+import { saveDownload } from "@/lib/download";
+
+interface GitDialogProps {
+  projectId: string;
+  projectName: string;
+  gitEnabled: boolean;
+  canWrite: boolean;
+  // Unsaved editor changes are not part of the working tree
+  hasUnsavedChanges: boolean;
+  onClose: () => void;
+  onCheckedOut: () => void;
+}
+
+interface GitChange {
+  path: string;
+  status: string;
+}
+
+interface GitCommit {
+  sha: string;
+  author: string;
+  date: string;
+  message: string;
+}
+
+class GitRequestError extends Error {
+  constructor(message: string, public status: number, public body: any) {
+    super(message);
+  }
+}
+
+async function gitRequest<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await authFetch(url, init);
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new GitRequestError(body.error || "Git request failed", res.status, body);
+  return body as T;
+}
+
+const postJson = (body: unknown): RequestInit => ({
+  method: "POST",
+  headers: { "Content-Type": "application/json" },
+  body: JSON.stringify(body),
+});
+
+export function GitDialog({ projectId, projectName, gitEnabled, canWrite, hasUnsavedChanges, onClose, onCheckedOut }: GitDialogProps) {
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState("");
+  const [newBranch, setNewBranch] = useState("");
+  const base = `/api/projects/${projectId}/git`;
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["git", projectId] });
+
+  const { data: status, isLoading, error: statusError } = useQuery({
+    queryKey: ["git", projectId, "status"],
+    enabled: gitEnabled,
+    // Files may have been saved since the dialog was last open
+    refetchOnMount: "always",
+    retry: false,
+    queryFn: () => gitRequest<{ branch: string | null; changes: GitChange[] }>(`${base}/status`),
+  });
+
+  const { data: branchData } = useQuery({
+    queryKey: ["git", projectId, "branches"],
+    enabled: gitEnabled && !!status,
+    queryFn: () => gitRequest<{ current: string | null; branches: string[] }>(`${base}/branches`),
+  });
+
+  const { data: logData } = useQuery({
+    queryKey: ["git", projectId, "log"],
+    enabled: gitEnabled && !!status,
+    queryFn: () => gitRequest<{ commits: GitCommit[] }>(`${base}/log?limit=20`),
+  });
+
+  const initMutation = useMutation({
+    mutationFn: () => gitRequest(`${base}/init`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      refresh();
+      toast.success("Repository created");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: () => gitRequest<{ commit: { sha: string } }>(`${base}/commit`, postJson({ message: message.trim() })),
+    onSuccess: ({ commit }) => {
+      setMessage("");
+      refresh();
+      toast.success(`Committed ${commit.sha.slice(0, 7)}`);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const branchMutation = useMutation({
+    mutationFn: () => gitRequest(`${base}/branches`, postJson({ name: newBranch.trim() })),
+    onSuccess: () => {
+      toast.success(`Created branch ${newBranch.trim()}`);
+      setNewBranch("");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: async ({ branch, force }: { branch: string; force: boolean }) =>
+      gitRequest(`${base}/checkout`, postJson({ branch, force })),
+    onSuccess: (_data, { branch }) => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["project-versions", projectId] });
+      toast.success(`Switched to ${branch}`);
+      onCheckedOut();
+    },
+    onError: (error: Error, { branch, force }) => {
+      const changes: GitChange[] | undefined = error instanceof GitRequestError ? error.body.changes : undefined;
+      if (!force && changes?.length) {
+        if (confirm(`${changes.length} uncommitted change(s) will be discarded. Switch to ${branch} anyway?`)) {
+          checkoutMutation.mutate({ branch, force: true });
+        }
+        return;
+      }
+      toast.error(error.message);
+    },
+  });
+
+  const switchBranch = (branch: string) => {
+    if (hasUnsavedChanges && !confirm("Switching branches reloads every file. Unsaved editor changes will be lost. Continue?")) {
+      return;
+    }
+    checkoutMutation.mutate({ branch, force: false });
+  };
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: "bundle" | "zip") => {
+      const res = await authFetch(`${base}/export?format=${format}`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Export failed");
+      }
+      await saveDownload(res, `${projectName}${format === "zip" ? "-git.zip" : ".bundle"}`);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const changes = status?.changes ?? [];
+  // A 409 means the repository is gone from disk (e.g. after a redeploy)
+  const needsInit = !gitEnabled || (statusError instanceof GitRequestError && statusError.status === 409);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-[#0a1a0f] border border-lime-500/30 rounded-2xl p-6 w-full max-w-lg animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold vipu-gradient flex items-center gap-2">
+            <GitBranch className="w-5 h-5 text-lime-400" />
+            Git
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" data-testid="button-close-git">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {needsInit ? (
+          <div className="space-y-4">
+            {gitEnabled && (
+              <p className="text-sm text-amber-400">
+                The repository for this project is missing on the server. Re-initialize to start a new history from the saved files.
+              </p>
+            )}
+            <p className="text-sm text-gray-400">
+              Keep this project in a git repository on the server. Saved files become the working tree; commit them,
+              branch, and download the whole history as a bundle or zip.
+            </p>
+            {canWrite && (
+              <button
+                onClick={() => initMutation.mutate()}
+                disabled={initMutation.isPending}
+                className="w-full py-2.5 rounded-lg bg-gradient-to-r from-green-600 to-lime-500 text-white text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+                data-testid="button-git-init"
+              >
+                {initMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                Initialize repository
+              </button>
+            )}
+          </div>
+        ) : isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-lime-400" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <select
+                value={status?.branch ?? ""}
+                onChange={(e) => switchBranch(e.target.value)}
+                disabled={!canWrite || checkoutMutation.isPending}
+                className="flex-1 bg-black/20 border border-white/10 rounded-lg px-2 py-2 text-sm text-white focus:outline-none focus:border-lime-400/50"
+                data-testid="select-git-branch"
+              >
+                {(branchData?.branches.length ? branchData.branches : [status?.branch ?? "main"]).map((b) => (
+                  <option key={b} value={b}>{b}</option>
+                ))}
+              </select>
+              {canWrite && (
+                <>
+                  <input
+                    value={newBranch}
+                    onChange={(e) => setNewBranch(e.target.value)}
+                    placeholder="new-branch"
+                    className="w-32 bg-black/20 border border-white/10 rounded-lg p-2 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-400/50"
+                    data-testid="input-git-new-branch"
+                  />
+                  <button
+                    onClick={() => branchMutation.mutate()}
+                    disabled={!newBranch.trim() || branchMutation.isPending}
+                    className="p-2 rounded-lg bg-lime-400/10 text-lime-400 border border-lime-400/20 hover:bg-lime-400/20 disabled:opacity-50"
+                    title="Create branch from the current commit"
+                    data-testid="button-git-create-branch"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+
+            <div>
+              <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+                Uncommitted changes ({changes.length})
+              </div>
+              {hasUnsavedChanges && (
+                <p className="text-xs text-amber-400 mb-2">Save your files first - unsaved edits are not included.</p>
+              )}
+              <div className="max-h-32 overflow-y-auto rounded-lg bg-black/20 border border-white/5">
+                {changes.length === 0 ? (
+                  <p className="text-xs text-gray-500 p-3">Working tree clean.</p>
+                ) : (
+                  changes.map((change) => (
+                    <div key={change.path} className="flex items-center gap-2 px-3 py-1 text-xs font-mono">
+                      <span className="w-5 text-lime-400">{change.status.trim() || "M"}</span>
+                      <span className="text-gray-300 truncate">{change.path}</span>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+
+            {canWrite && (
+              <div className="space-y-2">
+                <textarea
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  placeholder="Commit message"
+                  rows={2}
+                  className="w-full bg-black/20 border border-white/10 rounded-lg p-2.5 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-400/50 resize-none"
+                  data-testid="input-git-commit-message"
+                />
+                <button
+                  onClick={() => commitMutation.mutate()}
+                  disabled={!message.trim() || changes.length === 0 || commitMutation.isPending}
+                  className="w-full py-2 rounded-lg bg-gradient-to-r from-green-600 to-lime-500 text-white text-sm font-medium disabled:opacity-50 flex items-center justify-center gap-2"
+                  data-testid="button-git-commit"
+                >
+                  {commitMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCommitHorizontal className="w-4 h-4" />}
+                  Commit
+                </button>
+              </div>
+            )}
+
+            <div>
+              <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Recent commits</div>
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {logData?.commits.length === 0 && <p className="text-xs text-gray-500">No commits yet.</p>}
+                {logData?.commits.map((commit) => (
+                  <div key={commit.sha} className="text-xs px-2 py-1 rounded hover:bg-white/5" data-testid={`row-commit-${commit.sha}`}>
+                    <div className="text-gray-200 truncate">
+                      <span className="text-lime-400 font-mono mr-2">{commit.sha.slice(0, 7)}</span>
+                      {commit.message}
+                    </div>
+                    <div className="text-gray-500">
+                      {commit.author} · {formatDistanceToNow(new Date(commit.date), { addSuffix: true })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2 pt-2 border-t border-white/5">
+              {(["bundle", "zip"] as const).map((format) => (
+                <button
+                  key={format}
+                  onClick={() => exportMutation.mutate(format)}
+                  disabled={exportMutation.isPending}
+                  className="flex-1 flex items-center justify-center gap-2 py-2 rounded-lg bg-white/5 text-gray-300 border border-white/10 hover:bg-white/10 text-xs disabled:opacity-50"
+                  data-testid={`button-git-export-${format}`}
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  {format === "bundle" ? "Download .bundle" : "Download zip with .git"}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
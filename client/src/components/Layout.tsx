@@ -1,20 +1,38 @@
+import { useEffect, useState } from "react";
 import { Sidebar } from "./Sidebar";
+import { CodeSearchPalette } from "./CodeSearchPalette";
 
 interface LayoutProps {
   children: React.ReactNode;
   onLogout?: () => void;
+  onLogoutAll?: () => void;
 }
 
-export function Layout({ children, onLogout }: LayoutProps) {
+export function Layout({ children, onLogout, onLogoutAll }: LayoutProps) {
+  const [showSearch, setShowSearch] = useState(false);
+
+  // Ctrl/Cmd+Shift+F opens code search from anywhere
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === "f") {
+        e.preventDefault();
+        setShowSearch(true);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
   return (
     <div className="flex h-screen overflow-hidden bg-transparent">
-      <Sidebar onLogout={onLogout} />
+      <Sidebar onLogout={onLogout} onLogoutAll={onLogoutAll} onSearch={() => setShowSearch(true)} />
       <main className="flex-1 flex flex-col min-w-0 overflow-hidden relative">
         <div className="absolute top-0 left-0 right-0 h-[1px] bg-gradient-to-r from-transparent via-lime-400/50 to-transparent opacity-50" />
         <div className="flex-1 overflow-auto p-6">
           {children}
         </div>
       </main>
+      {showSearch && <CodeSearchPalette onClose={() => setShowSearch(false)} />}
     </div>
   );
 }
@@ -0,0 +1,74 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Key } from "lucide-react";
+import { toast } from "sonner";
+import type { PublicUserConfig } from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+
+// Older builds kept the OpenAI key in localStorage and sent it with every request
+const LEGACY_KEY_STORAGE = "vipudev_api_key";
+
+export function OpenAIKeyStatus() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["config"],
+    queryFn: async () => {
+      const res = await authFetch("/api/config");
+      if (!res.ok) throw new Error("Failed to fetch config");
+      return res.json() as Promise<{ config: PublicUserConfig }>;
+    },
+  });
+
+  // Move a browser-stored key to the server once, then forget it
+  useEffect(() => {
+    const legacyKey = localStorage.getItem(LEGACY_KEY_STORAGE);
+    if (!legacyKey || !data) return;
+    localStorage.removeItem(LEGACY_KEY_STORAGE);
+    if (data.config.apiKeySet) return;
+
+    authFetch("/api/config", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ apiKey: legacyKey }),
+    })
+      .then((res) => {
+        if (!res.ok) throw new Error();
+        queryClient.invalidateQueries({ queryKey: ["config"] });
+        toast.success("Your saved OpenAI key was moved to your account");
+      })
+      .catch(() => toast.error("Couldn't move your saved OpenAI key - please add it in Config"));
+  }, [data, queryClient]);
+
+  if (isLoading || !data) return null;
+
+  const { apiKeySet, apiKeyMasked, serverKeyAvailable } = data.config;
+
+  if (!apiKeySet && !serverKeyAvailable) {
+    return (
+      <div className="rounded-xl p-4 flex items-center gap-3 bg-amber-500/10 border border-amber-500/20" data-testid="status-openai-key-missing">
+        <Key className="w-5 h-5 flex-shrink-0 text-amber-400" />
+        <span className="text-sm text-amber-400 flex-1">No OpenAI API key configured.</span>
+        <Link
+          href="/config"
+          className="px-3 py-1.5 text-xs bg-amber-500/20 text-amber-400 rounded-lg hover:bg-amber-500/30 transition-colors"
+        >
+          Add key
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl p-3 flex items-center gap-3 bg-lime-500/10 border border-lime-500/20" data-testid="status-openai-key-ready">
+      <Key className="w-4 h-4 text-lime-400" />
+      <span className="text-sm text-lime-400 flex-1">
+        {apiKeySet ? `Using your OpenAI key ${apiKeyMasked ?? ""}` : "Using the server's OpenAI key"}
+      </span>
+      <Link href="/config" className="text-xs text-gray-400 hover:text-lime-400 transition-colors">
+        Manage
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { authFetch } from "@/lib/queryClient";
+import { saveDownload } from "@/lib/download";
+
+interface ProjectExportMenuProps {
+  projectId: string;
+  projectName: string;
+  // Icon-only trigger for Dashboard cards
+  compact?: boolean;
+}
+
+type ExportFormat = "zip" | "tar.gz";
+
+export function ProjectExportMenu({ projectId, projectName, compact }: ProjectExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [includeReadme, setIncludeReadme] = useState(true);
+
+  const exportMutation = useMutation({
+    mutationFn: async (format: ExportFormat) => {
+      const params = new URLSearchParams({ format, readme: String(includeReadme) });
+      const res = await authFetch(`/api/projects/${projectId}/export?${params}`);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Export failed");
+      }
+      await saveDownload(res, `${projectName}.${format}`);
+    },
+    onSuccess: () => toast.success("Project downloaded!"),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const download = (format: ExportFormat) => {
+    setOpen(false);
+    exportMutation.mutate(format);
+  };
+
+  return (
+    <div className="relative" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={exportMutation.isPending}
+        className={
+          compact
+            ? "text-gray-500 hover:text-lime-400 transition-colors p-1"
+            : "flex items-center gap-2 text-xs px-3 py-1.5 rounded border bg-white/5 text-gray-300 border-white/10 hover:bg-white/10 transition-colors"
+        }
+        title="Download project"
+        data-testid={`button-export-${projectId}`}
+      >
+        {exportMutation.isPending ? (
+          <Loader2 className={compact ? "w-4 h-4 animate-spin" : "w-3 h-3 animate-spin"} />
+        ) : (
+          <Download className={compact ? "w-4 h-4" : "w-3 h-3"} />
+        )}
+        {!compact && "Download"}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-52 rounded-lg bg-[#0a1a0f] border border-lime-500/30 shadow-xl z-20 overflow-hidden text-sm">
+          {(["zip", "tar.gz"] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => download(format)}
+              className="w-full text-left px-4 py-2 text-gray-300 hover:bg-white/5"
+              data-testid={`button-export-${format}-${projectId}`}
+            >
+              Download .{format}
+            </button>
+          ))}
+          <label className="flex items-center gap-2 px-4 py-2 border-t border-white/5 text-xs text-gray-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeReadme}
+              onChange={(e) => setIncludeReadme(e.target.checked)}
+              className="accent-lime-500"
+            />
+            Add a README if missing
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
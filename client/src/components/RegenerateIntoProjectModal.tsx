@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, Loader2, RefreshCw, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  hasProjectRole,
+  type BuilderSource,
+  type ProjectFile,
+  type ProjectSummary,
+  type SharedProject,
+} from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+import { CodeDiff } from "@/components/CodeDiff";
+
+interface RegenerateIntoProjectModalProps {
+  files: ProjectFile[];
+  builderSource: BuilderSource;
+  onClose: () => void;
+}
+
+type FileChange = { file: ProjectFile; before: string | null };
+
+export function RegenerateIntoProjectModal({ files, builderSource, onClose }: RegenerateIntoProjectModalProps) {
+  const queryClient = useQueryClient();
+  const [projectId, setProjectId] = useState("");
+  // Paths the user turned down; everything else is applied
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  const { data: projectsData } = useQuery({
+    queryKey: ["projects"],
+    queryFn: async () => {
+      const res = await authFetch("/api/projects");
+      if (!res.ok) throw new Error("Failed to fetch projects");
+      return res.json() as Promise<{ projects: ProjectSummary[]; sharedProjects: SharedProject[] }>;
+    },
+  });
+  const writableProjects = [
+    ...(projectsData?.projects ?? []),
+    ...(projectsData?.sharedProjects ?? []).filter((p) => hasProjectRole(p.role, "editor")),
+  ];
+
+  const { data: current, isLoading: loadingFiles } = useQuery({
+    queryKey: ["project", projectId],
+    enabled: !!projectId,
+    gcTime: 0,
+    queryFn: async () => {
+      const res = await authFetch(`/api/projects/${projectId}`);
+      if (!res.ok) throw new Error("Failed to fetch project");
+      return res.json() as Promise<{ files: ProjectFile[] }>;
+    },
+  });
+
+  // Files the Builder output adds or changes; files it doesn't mention are left alone
+  const existing = new Map((current?.files ?? []).map((f) => [f.path, f.content]));
+  const changes: FileChange[] = current
+    ? files
+        .filter((f) => existing.get(f.path) !== f.content)
+        .map((f) => ({ file: f, before: existing.get(f.path) ?? null }))
+    : [];
+  const accepted = changes.filter((c) => !rejected.has(c.file.path));
+
+  const toggle = (path: string) =>
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await authFetch(`/api/projects/${projectId}/files`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          files: accepted.map((c) => c.file),
+          message: `Regenerated with App Builder (${accepted.length} file${accepted.length === 1 ? "" : "s"})`,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to update project");
+      }
+      // The files are already saved, so a failure here is reported rather than thrown
+      const sourceSaved = await authFetch(`/api/projects/${projectId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ builderSource }),
+      })
+        .then((sourceRes) => sourceRes.ok)
+        .catch(() => false);
+      return { sourceSaved };
+    },
+    onSuccess: ({ sourceSaved }) => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      queryClient.invalidateQueries({ queryKey: ["project-versions", projectId] });
+      toast.success(`Applied ${accepted.length} change${accepted.length === 1 ? "" : "s"}`);
+      if (!sourceSaved) {
+        toast.error("Couldn't save the builder settings to the project - the next regenerate will start from the old ones");
+      }
+      onClose();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-[#0a1a0f] border border-lime-500/30 rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold vipu-gradient flex items-center gap-2">
+            <RefreshCw className="w-5 h-5 text-lime-400" />
+            Regenerate into existing project
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" data-testid="button-close-regenerate">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <select
+          value={projectId}
+          onChange={(e) => {
+            setProjectId(e.target.value);
+            setRejected(new Set());
+          }}
+          className="w-full bg-black/20 border border-white/10 rounded-lg p-2.5 text-sm text-white focus:outline-none focus:border-lime-400/50 mb-4"
+          data-testid="select-regenerate-project"
+        >
+          <option value="">Choose a project…</option>
+          {writableProjects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+
+        <div className="flex-1 overflow-y-auto space-y-4 min-h-0">
+          {!projectId ? null : loadingFiles ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-lime-400" />
+            </div>
+          ) : changes.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">The generated files match this project already.</p>
+          ) : (
+            changes.map(({ file, before }) => {
+              const isAccepted = !rejected.has(file.path);
+              return (
+                <div key={file.path} className={isAccepted ? "" : "opacity-50"} data-testid={`row-regenerate-${file.path}`}>
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs text-gray-400">
+                      {before === null ? "New file" : "Changed"}
+                    </span>
+                    <button
+                      onClick={() => toggle(file.path)}
+                      className={`flex items-center gap-1 text-xs px-2 py-1 rounded border transition-colors ${
+                        isAccepted
+                          ? "bg-lime-400/10 text-lime-400 border-lime-400/30"
+                          : "bg-white/5 text-gray-400 border-white/10"
+                      }`}
+                      data-testid={`button-toggle-change-${file.path}`}
+                    >
+                      {isAccepted ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                      {isAccepted ? "Accepted" : "Rejected"}
+                    </button>
+                  </div>
+                  <CodeDiff oldCode={before ?? ""} newCode={file.content} language={file.language} fileName={file.path} />
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex gap-3 mt-4">
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 px-4 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => applyMutation.mutate()}
+            disabled={!projectId || accepted.length === 0 || applyMutation.isPending}
+            className="flex-1 py-2 px-4 rounded-lg bg-gradient-to-r from-green-600 to-lime-500 text-white font-medium hover:from-green-500 hover:to-lime-400 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            data-testid="button-apply-regenerate"
+          >
+            {applyMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            Apply {accepted.length} change{accepted.length === 1 ? "" : "s"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
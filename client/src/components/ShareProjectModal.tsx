@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Trash2, UserPlus, Users, Crown, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  PROJECT_ROLES,
+  hasProjectRole,
+  type Project,
+  type ProjectAccessRole,
+  type ProjectMemberInfo,
+  type ProjectRole,
+} from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+
+interface ShareProjectModalProps {
+  project: Project;
+  onClose: () => void;
+}
+
+interface MembersResponse {
+  owner: { userId: string; username: string } | null;
+  members: ProjectMemberInfo[];
+  role: ProjectAccessRole;
+}
+
+export function ShareProjectModal({ project, onClose }: ShareProjectModalProps) {
+  const queryClient = useQueryClient();
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<ProjectRole>("viewer");
+  const membersKey = ["project-members", project.id];
+
+  const { data, isLoading } = useQuery({
+    queryKey: membersKey,
+    queryFn: async () => {
+      const res = await authFetch(`/api/projects/${project.id}/members`);
+      if (!res.ok) throw new Error("Failed to fetch members");
+      return res.json() as Promise<MembersResponse>;
+    },
+  });
+
+  const myRole = data?.role ?? "viewer";
+  const canManage = hasProjectRole(myRole, "admin");
+  // Only the owner can hand out or take away the admin role
+  const assignableRoles = PROJECT_ROLES.filter((r) => r !== "admin" || myRole === "owner");
+
+  const handleError = async (res: Response, fallback: string) => {
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error || fallback);
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await authFetch(`/api/projects/${project.id}/members`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: username.trim(), role }),
+      });
+      if (!res.ok) await handleError(res, "Failed to share project");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      setUsername("");
+      toast.success("Project shared!");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ userId, role }: { userId: string; role: ProjectRole }) => {
+      const res = await authFetch(`/api/projects/${project.id}/members/${userId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      if (!res.ok) await handleError(res, "Failed to update role");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      toast.success("Role updated");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      const res = await authFetch(`/api/projects/${project.id}/members/${userId}`, { method: "DELETE" });
+      if (!res.ok) await handleError(res, "Failed to remove member");
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      toast.success("Member removed");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-[#0a1a0f] border border-lime-500/30 rounded-2xl p-6 w-full max-w-lg animate-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold vipu-gradient flex items-center gap-2">
+            <Users className="w-5 h-5 text-lime-400" />
+            Share "{project.name}"
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" data-testid="button-close-share">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {canManage && (
+          <div className="flex gap-2 mb-6">
+            <input
+              type="text"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Teammate's username"
+              className="flex-1 bg-black/20 border border-white/10 rounded-lg p-2.5 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-400/50"
+              data-testid="input-share-username"
+              autoFocus
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as ProjectRole)}
+              className="bg-black/20 border border-white/10 rounded-lg px-2 text-sm text-white focus:outline-none focus:border-lime-400/50"
+              data-testid="select-share-role"
+            >
+              {assignableRoles.map((r) => (
+                <option key={r} value={r}>{r}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => inviteMutation.mutate()}
+              disabled={!username.trim() || inviteMutation.isPending}
+              className="px-3 rounded-lg bg-gradient-to-r from-green-600 to-lime-500 text-white text-sm font-medium disabled:opacity-50 flex items-center gap-1"
+              data-testid="button-share-invite"
+            >
+              {inviteMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+              Invite
+            </button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-lime-400" />
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {data?.owner && (
+              <div className="flex items-center justify-between p-3 rounded-lg bg-white/5">
+                <span className="text-sm text-gray-200">{data.owner.username}</span>
+                <span className="text-xs text-yellow-400 flex items-center gap-1">
+                  <Crown className="w-3 h-3" /> owner
+                </span>
+              </div>
+            )}
+            {data?.members.map((member) => {
+              const canEditMember = member.role === "admin" ? myRole === "owner" : canManage;
+              return (
+                <div
+                  key={member.userId}
+                  className="flex items-center justify-between p-3 rounded-lg bg-white/5"
+                  data-testid={`row-member-${member.userId}`}
+                >
+                  <span className="text-sm text-gray-200">{member.username}</span>
+                  <div className="flex items-center gap-2">
+                    {canEditMember ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) =>
+                          updateRoleMutation.mutate({ userId: member.userId, role: e.target.value as ProjectRole })
+                        }
+                        className="bg-black/20 border border-white/10 rounded px-2 py-1 text-xs text-white focus:outline-none"
+                      >
+                        {assignableRoles.map((r) => (
+                          <option key={r} value={r}>{r}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-xs text-gray-400">{member.role}</span>
+                    )}
+                    {canEditMember && (
+                      <button
+                        onClick={() => removeMutation.mutate(member.userId)}
+                        className="text-gray-500 hover:text-red-400 transition-colors p-1"
+                        data-testid={`button-remove-member-${member.userId}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+            {data?.members.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">Not shared with anyone yet.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,9 @@ import {
   Palette, 
   Settings,
   LogOut,
-  Zap
+  MonitorX,
+  Zap,
+  Search
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -27,9 +29,11 @@ const navItems = [
 
 interface SidebarProps {
   onLogout?: () => void;
+  onLogoutAll?: () => void;
+  onSearch?: () => void;
 }
 
-export function Sidebar({ onLogout }: SidebarProps) {
+export function Sidebar({ onLogout, onLogoutAll, onSearch }: SidebarProps) {
   const [location] = useLocation();
 
   return (
@@ -48,6 +52,18 @@ export function Sidebar({ onLogout }: SidebarProps) {
         </div>
       </div>
 
+      {onSearch && (
+        <button
+          onClick={onSearch}
+          className="sidebar-btn w-full text-gray-400 border border-white/10 mb-2"
+          data-testid="button-open-code-search"
+        >
+          <Search className="w-4 h-4" />
+          <span className="text-sm">Search code</span>
+          <span className="ml-auto text-[10px] text-gray-600">Ctrl+Shift+F</span>
+        </button>
+      )}
+
       <nav className="flex flex-col gap-1">
         {navItems.map((item) => {
           const isActive = location === item.href;
@@ -84,6 +100,18 @@ export function Sidebar({ onLogout }: SidebarProps) {
             <span>Logout</span>
           </button>
         )}
+        {onLogoutAll && (
+          <button
+            onClick={() => {
+              if (confirm("Log out from all devices?")) onLogoutAll();
+            }}
+            className="sidebar-btn w-full text-gray-500 hover:text-red-300 hover:bg-red-500/10 text-xs"
+            data-testid="button-logout-all"
+          >
+            <MonitorX className="w-4 h-4" />
+            <span>Log out all devices</span>
+          </button>
+        )}
         <div className="px-3 py-2 text-xs text-gray-500">
           v1.0.0 Beta
         </div>
@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { History, Loader2, RotateCcw, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import type { ProjectFile, ProjectVersion, ProjectVersionSummary } from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+import { CodeDiff } from "@/components/CodeDiff";
+
+interface VersionHistoryPanelProps {
+  projectId: string;
+  canRestore: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+type FileChange = { path: string; status: "added" | "removed" | "modified"; before: string; after: string; language: string };
+
+// Files that differ between two snapshots, in path order
+function diffSnapshots(base: ProjectFile[], compare: ProjectFile[]): FileChange[] {
+  const before = new Map(base.map((f) => [f.path, f]));
+  const after = new Map(compare.map((f) => [f.path, f]));
+  const paths = Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())])).sort();
+
+  return paths.flatMap((path): FileChange[] => {
+    const old = before.get(path);
+    const next = after.get(path);
+    if (old && next && old.content === next.content) return [];
+    return [{
+      path,
+      status: !old ? "added" : !next ? "removed" : "modified",
+      before: old?.content ?? "",
+      after: next?.content ?? "",
+      language: (next ?? old)!.language,
+    }];
+  });
+}
+
+function useVersion(projectId: string, version: number | null) {
+  return useQuery({
+    queryKey: ["project-version", projectId, version],
+    enabled: version !== null,
+    queryFn: async () => {
+      const res = await authFetch(`/api/projects/${projectId}/versions/${version}`);
+      if (!res.ok) throw new Error("Failed to fetch version");
+      return ((await res.json()) as { version: ProjectVersion }).version;
+    },
+  });
+}
+
+export function VersionHistoryPanel({ projectId, canRestore, onClose, onRestored }: VersionHistoryPanelProps) {
+  const queryClient = useQueryClient();
+  const [baseVersion, setBaseVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["project-versions", projectId],
+    queryFn: async () => {
+      const res = await authFetch(`/api/projects/${projectId}/versions`);
+      if (!res.ok) throw new Error("Failed to fetch history");
+      return res.json() as Promise<{ versions: ProjectVersionSummary[] }>;
+    },
+  });
+  const versions = data?.versions ?? [];
+
+  // Default to "latest vs. the one before it"
+  useEffect(() => {
+    if (compareVersion === null && versions.length > 0) {
+      setCompareVersion(versions[0].version);
+      setBaseVersion(versions[1]?.version ?? null);
+    }
+  }, [versions, compareVersion]);
+
+  const base = useVersion(projectId, baseVersion);
+  const compare = useVersion(projectId, compareVersion);
+  const changes = compare.data ? diffSnapshots(base.data?.files ?? [], compare.data.files) : [];
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const res = await authFetch(`/api/projects/${projectId}/versions/${version}/restore`, { method: "POST" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to restore version");
+      }
+      return res.json();
+    },
+    onSuccess: (_data, version) => {
+      queryClient.invalidateQueries({ queryKey: ["project-versions", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      setCompareVersion(null);
+      toast.success(`Restored version ${version}`);
+      onRestored();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const selectVersion = (version: number) => {
+    setCompareVersion(version);
+    setBaseVersion(versions.find((v) => v.version < version)?.version ?? null);
+  };
+
+  return (
+    <div className="w-[28rem] border-l border-lime-400/10 bg-black/30 flex flex-col overflow-hidden" data-testid="panel-version-history">
+      <div className="flex items-center justify-between p-3 border-b border-lime-400/10">
+        <span className="text-sm font-semibold text-white flex items-center gap-2">
+          <History className="w-4 h-4 text-lime-400" /> History
+        </span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white transition-colors" data-testid="button-close-history">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-5 h-5 animate-spin text-lime-400" />
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto">
+          <div className="max-h-56 overflow-y-auto border-b border-lime-400/10">
+            {versions.map((v) => (
+              <div
+                key={v.id}
+                onClick={() => selectVersion(v.version)}
+                className={`flex items-center justify-between gap-2 px-3 py-2 cursor-pointer text-xs transition-colors ${
+                  compareVersion === v.version ? "bg-lime-400/10" : "hover:bg-white/5"
+                }`}
+                data-testid={`row-version-${v.version}`}
+              >
+                <div className="min-w-0">
+                  <div className="text-gray-200 truncate">
+                    <span className="text-lime-400 font-mono mr-2">v{v.version}</span>
+                    {v.message}
+                  </div>
+                  <div className="text-gray-500">
+                    {v.authorUsername ?? "unknown"} · {formatDistanceToNow(new Date(v.createdAt), { addSuffix: true })} · {v.fileCount} files
+                  </div>
+                </div>
+                {canRestore && v.version !== versions[0]?.version && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (confirm(`Restore version ${v.version}? Current files are kept in history.`)) {
+                        restoreMutation.mutate(v.version);
+                      }
+                    }}
+                    disabled={restoreMutation.isPending}
+                    className="text-gray-500 hover:text-lime-400 transition-colors p-1 flex-shrink-0"
+                    title="Restore this version"
+                    data-testid={`button-restore-version-${v.version}`}
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2 p-3 text-xs text-gray-400">
+            <span>Compare</span>
+            <select
+              value={baseVersion ?? ""}
+              onChange={(e) => setBaseVersion(e.target.value ? Number(e.target.value) : null)}
+              className="bg-black/30 border border-white/10 rounded px-2 py-1 text-white focus:outline-none"
+              data-testid="select-base-version"
+            >
+              <option value="">(empty)</option>
+              {versions.map((v) => (
+                <option key={v.id} value={v.version}>v{v.version}</option>
+              ))}
+            </select>
+            <span>→</span>
+            <select
+              value={compareVersion ?? ""}
+              onChange={(e) => setCompareVersion(Number(e.target.value))}
+              className="bg-black/30 border border-white/10 rounded px-2 py-1 text-white focus:outline-none"
+              data-testid="select-compare-version"
+            >
+              {versions.map((v) => (
+                <option key={v.id} value={v.version}>v{v.version}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-3 px-3 pb-3">
+            {base.isLoading || compare.isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-lime-400 mx-auto" />
+            ) : changes.length === 0 ? (
+              <p className="text-xs text-gray-500 text-center py-4">No differences between these versions.</p>
+            ) : (
+              changes.map((change) => (
+                <CodeDiff
+                  key={change.path}
+                  oldCode={change.before}
+                  newCode={change.after}
+                  language={change.language}
+                  fileName={`${change.path}${change.status === "modified" ? "" : ` (${change.status})`}`}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
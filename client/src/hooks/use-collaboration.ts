@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import * as Y from "yjs";
+import { toast } from "sonner";
+import { languageForPath, type CollabPeer, type ProjectAccessRole, type ProjectFile } from "@shared/schema";
+import { CollabSession, type CollabStatus } from "@/lib/collab";
+
+// Live view of a project's shared editing session
+export function useCollaboration(projectId: string | null) {
+  const [session, setSession] = useState<CollabSession | null>(null);
+  const [status, setStatus] = useState<CollabStatus>("connecting");
+  // Project whose files have finished loading into `files`
+  const [syncedProjectId, setSyncedProjectId] = useState<string | null>(null);
+  const [role, setRole] = useState<ProjectAccessRole | null>(null);
+  const [files, setFiles] = useState<ProjectFile[]>([]);
+  // What the server has stored, by path - anything else is waiting to be saved
+  const [savedContent, setSavedContent] = useState<Record<string, string>>({});
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const [saving, setSaving] = useState(false);
+  // Bumped to start over with a fresh session
+  const [generation, setGeneration] = useState(0);
+
+  useEffect(() => {
+    setSyncedProjectId(null);
+    setRole(null);
+    setFiles([]);
+    setSavedContent({});
+    setPeers([]);
+    setSaving(false);
+    if (!projectId) return;
+
+    const session: CollabSession = new CollabSession(projectId, {
+      onStatus: (next, reason) => {
+        setStatus(next);
+        if (next === "closed") toast.error(reason ?? "Disconnected from the editing session");
+        if (next !== "connected") setSaving(false);
+      },
+      onSynced: () => setSyncedProjectId(projectId),
+      onRestarted: () => {
+        toast.warning("The editing session restarted on the server - files were reloaded");
+        setGeneration((n) => n + 1);
+      },
+      onMessage: (message) => {
+        switch (message.type) {
+          case "ready":
+            setRole(message.role);
+            setSavedContent(message.saved);
+            break;
+          case "presence":
+            setPeers(message.peers);
+            break;
+          case "saved": {
+            setSavedContent((prev) => {
+              const next = { ...prev, ...message.files };
+              message.deleted.forEach((path) => delete next[path]);
+              return next;
+            });
+            if (message.by === session.doc.clientID) {
+              const count = Object.keys(message.files).length;
+              setSaving(false);
+              toast.success(count ? `Saved ${count} file${count === 1 ? "" : "s"}!` : "No changes to save");
+            }
+            break;
+          }
+          case "error":
+            setSaving(false);
+            toast.error(message.error);
+            break;
+        }
+      },
+    });
+
+    const readFiles = () =>
+      setFiles(
+        Array.from(session.files.entries(), ([path, text]) => ({
+          path,
+          content: text.toString(),
+          language: languageForPath(path),
+        })).sort((a, b) => a.path.localeCompare(b.path)),
+      );
+    // Typing only touches one Y.Text - update that file instead of re-reading them all
+    const onChange = (events: Y.YEvent<any>[]) => {
+      if (events.some((e) => e.target === session.files)) return readFiles();
+      const changed = new Set(events.map((e) => String(e.path[0])));
+      setFiles((prev) =>
+        prev.map((f) => (changed.has(f.path) ? { ...f, content: session.files.get(f.path)?.toString() ?? f.content } : f)),
+      );
+    };
+    session.files.observeDeep(onChange);
+    setSession(session);
+
+    return () => {
+      session.files.unobserveDeep(onChange);
+      session.destroy();
+      setSession(null);
+    };
+  }, [projectId, generation]);
+
+  const save = (message?: string) => {
+    if (!session?.save(message)) {
+      toast.error("Not connected - your edits will be saved once the connection is back");
+      return false;
+    }
+    setSaving(true);
+    return true;
+  };
+
+  return { session, status, syncedProjectId, role, files, savedContent, peers, saving, save };
+}
@@ -0,0 +1,329 @@
+import type { OnMount } from "@monaco-editor/react";
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import {
+  COLLAB_CLOSE_FORBIDDEN,
+  COLLAB_CLOSE_NOT_FOUND,
+  COLLAB_CLOSE_UNAUTHORIZED,
+  type CollabClientMessage,
+  type CollabPeer,
+  type CollabServerMessage,
+} from "@shared/schema";
+import { getAuthToken } from "@/lib/queryClient";
+
+type CodeEditor = Parameters<OnMount>[0];
+
+// Binary frame tags - must match server/collab.ts
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000];
+// The server turned us away for good - reconnecting won't help
+const FINAL_CLOSE_CODES = new Set([COLLAB_CLOSE_UNAUTHORIZED, COLLAB_CLOSE_FORBIDDEN, COLLAB_CLOSE_NOT_FOUND]);
+
+export type CollabStatus = "connecting" | "connected" | "offline" | "closed";
+
+export interface CollabSessionEvents {
+  onStatus: (status: CollabStatus, reason?: string) => void;
+  // First full sync with the server - the files are loaded
+  onSynced: () => void;
+  // The server's doc was rebuilt (restart, or it was closed while we were away);
+  // this session can't merge into it and has to be replaced
+  onRestarted: () => void;
+  onMessage: (message: CollabServerMessage) => void;
+}
+
+// Cursor position shared through awareness, anchored to the text rather than an offset
+interface CursorState {
+  path: string;
+  anchor: unknown;
+  head: unknown;
+}
+
+// One project's shared doc and its WebSocket. Edits made while offline stay
+// in the doc and merge when the connection comes back.
+export class CollabSession {
+  readonly doc = new Y.Doc();
+  readonly files = this.doc.getMap<Y.Text>("files");
+  readonly awareness = new awarenessProtocol.Awareness(this.doc);
+  private ws: WebSocket | null = null;
+  private ready = false;
+  private synced = false;
+  private roomId: string | null = null;
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private destroyed = false;
+
+  constructor(
+    private readonly projectId: string,
+    private readonly events: CollabSessionEvents,
+  ) {
+    this.doc.on("update", this.onDocUpdate);
+    this.awareness.on("update", this.onAwarenessUpdate);
+    this.connect();
+  }
+
+  // Asks the server to save pending edits now; false when offline
+  save(message?: string): boolean {
+    return this.sendJson({ type: "save", message });
+  }
+
+  destroy() {
+    this.destroyed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.doc.off("update", this.onDocUpdate);
+    this.awareness.off("update", this.onAwarenessUpdate);
+    this.ws?.close();
+    this.awareness.destroy();
+    this.doc.destroy();
+  }
+
+  private connect() {
+    this.events.onStatus(this.synced ? "offline" : "connecting");
+    const protocol = location.protocol === "https:" ? "wss" : "ws";
+    const ws = new WebSocket(`${protocol}://${location.host}/api/collab/${encodeURIComponent(this.projectId)}`);
+    ws.binaryType = "arraybuffer";
+    this.ws = ws;
+
+    ws.onopen = () => this.sendJson({ type: "auth", token: getAuthToken() ?? "", clientId: this.doc.clientID });
+    ws.onmessage = (event) => {
+      if (typeof event.data === "string") this.receiveJson(JSON.parse(event.data));
+      else this.receiveBinary(new Uint8Array(event.data));
+    };
+    ws.onclose = (event) => {
+      this.ws = null;
+      this.ready = false;
+      // Everyone else's cursor is stale until we're back
+      const others = Array.from(this.awareness.getStates().keys()).filter((id) => id !== this.doc.clientID);
+      awarenessProtocol.removeAwarenessStates(this.awareness, others, this);
+      if (this.destroyed) return;
+
+      if (FINAL_CLOSE_CODES.has(event.code)) {
+        this.events.onStatus("closed", event.reason || "Disconnected");
+        return;
+      }
+      this.events.onStatus("offline");
+      const delay = RECONNECT_DELAYS_MS[Math.min(this.attempts++, RECONNECT_DELAYS_MS.length - 1)];
+      this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    };
+  }
+
+  private sendJson(message: CollabClientMessage): boolean {
+    if (this.ws?.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(JSON.stringify(message));
+    return true;
+  }
+
+  private sendBinary(frame: Uint8Array) {
+    if (this.ready && this.ws?.readyState === WebSocket.OPEN) this.ws.send(frame);
+  }
+
+  private receiveJson(message: CollabServerMessage) {
+    if (message.type === "ready" && this.roomId && message.roomId !== this.roomId) {
+      this.events.onRestarted();
+      return;
+    }
+    if (message.type === "ready" && !this.ready) {
+      this.roomId = message.roomId;
+      this.ready = true;
+      this.attempts = 0;
+      this.events.onStatus("connected");
+      // Exchange state vectors so edits made on either side while apart are merged
+      this.sendBinary(syncFrame((encoder) => syncProtocol.writeSyncStep1(encoder, this.doc)));
+      if (this.awareness.getLocalState()) this.sendBinary(awarenessFrame(this.awareness, [this.doc.clientID]));
+    }
+    this.events.onMessage(message);
+  }
+
+  private receiveBinary(data: Uint8Array) {
+    const decoder = decoding.createDecoder(data);
+    const tag = decoding.readVarUint(decoder);
+    if (tag === MESSAGE_SYNC) {
+      const reply = encoding.createEncoder();
+      encoding.writeVarUint(reply, MESSAGE_SYNC);
+      const syncType = syncProtocol.readSyncMessage(decoder, reply, this.doc, this);
+      if (encoding.length(reply) > 1) this.sendBinary(encoding.toUint8Array(reply));
+      if (syncType === syncProtocol.messageYjsSyncStep2 && !this.synced) {
+        this.synced = true;
+        this.events.onSynced();
+      }
+    } else if (tag === MESSAGE_AWARENESS) {
+      awarenessProtocol.applyAwarenessUpdate(this.awareness, decoding.readVarUint8Array(decoder), this);
+    }
+  }
+
+  private onDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin === this) return;
+    this.sendBinary(syncFrame((encoder) => syncProtocol.writeUpdate(encoder, update)));
+  };
+
+  private onAwarenessUpdate = (
+    { added, updated, removed }: { added: number[]; updated: number[]; removed: number[] },
+    origin: unknown,
+  ) => {
+    // The server only takes our own cursor - others timing out locally isn't news to it
+    const own = [...added, ...updated, ...removed].filter((id) => id === this.doc.clientID);
+    if (origin === this || own.length === 0) return;
+    this.sendBinary(awarenessFrame(this.awareness, own));
+  };
+}
+
+function syncFrame(write: (encoder: encoding.Encoder) => void): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  write(encoder);
+  return encoding.toUint8Array(encoder);
+}
+
+function awarenessFrame(awareness: awarenessProtocol.Awareness, clientIds: number[]): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, clientIds));
+  return encoding.toUint8Array(encoder);
+}
+
+export interface EditorBinding {
+  undo: () => void;
+  redo: () => void;
+  // Re-draw collaborators' cursors, e.g. after the peer list changed
+  refresh: () => void;
+  dispose: () => void;
+}
+
+// Keeps the editor's model and one file's Y.Text in step, and shows other
+// people's cursors in that file. Undo only reverts this user's own edits.
+export function bindEditor(
+  session: CollabSession,
+  editor: CodeEditor,
+  path: string,
+  peer: (clientId: number) => CollabPeer | undefined,
+): EditorBinding | null {
+  const text = session.files.get(path);
+  const model = editor.getModel();
+  if (!text || !model) return null;
+
+  // Transaction origin of this editor's own edits
+  const origin = {};
+  const undoManager = new Y.UndoManager(text, { trackedOrigins: new Set([origin]) });
+  let applyingRemote = false;
+
+  if (model.getValue() !== text.toString()) {
+    applyingRemote = true;
+    model.setValue(text.toString());
+    applyingRemote = false;
+  }
+
+  const onTextChange = (event: Y.YTextEvent, transaction: Y.Transaction) => {
+    if (transaction.origin === origin) return;
+    applyingRemote = true;
+    let index = 0;
+    for (const op of event.delta) {
+      if (op.retain !== undefined) {
+        index += op.retain;
+      } else if (typeof op.insert === "string") {
+        const at = model.getPositionAt(index);
+        model.applyEdits([{ range: rangeOf(at, at), text: op.insert }]);
+        index += op.insert.length;
+      } else if (op.delete !== undefined) {
+        model.applyEdits([{ range: rangeOf(model.getPositionAt(index), model.getPositionAt(index + op.delete)), text: "" }]);
+      }
+    }
+    applyingRemote = false;
+    renderCursors();
+  };
+  text.observe(onTextChange);
+
+  const contentListener = model.onDidChangeContent((event) => {
+    if (applyingRemote) return;
+    session.doc.transact(() => {
+      // Offsets refer to the text before this change - apply from the end backwards
+      [...event.changes]
+        .sort((a, b) => b.rangeOffset - a.rangeOffset)
+        .forEach((change) => {
+          if (change.rangeLength > 0) text.delete(change.rangeOffset, change.rangeLength);
+          if (change.text) text.insert(change.rangeOffset, change.text);
+        });
+    }, origin);
+  });
+
+  const publishCursor = () => {
+    const selection = editor.getSelection();
+    if (!selection) return;
+    const anchor = model.getOffsetAt({
+      lineNumber: selection.selectionStartLineNumber,
+      column: selection.selectionStartColumn,
+    });
+    const head = model.getOffsetAt(selection.getPosition());
+    const cursor: CursorState = {
+      path,
+      anchor: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, anchor)),
+      head: Y.relativePositionToJSON(Y.createRelativePositionFromTypeIndex(text, head)),
+    };
+    session.awareness.setLocalStateField("cursor", cursor);
+  };
+  const selectionListener = editor.onDidChangeCursorSelection(publishCursor);
+  publishCursor();
+
+  const decorations = editor.createDecorationsCollection();
+  const indexOf = (position: unknown) => {
+    const absolute = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(position), session.doc);
+    return absolute?.type === text ? absolute.index : null;
+  };
+  const renderCursors = () => {
+    const next: Parameters<typeof decorations.set>[0][number][] = [];
+    session.awareness.getStates().forEach((state, clientId) => {
+      const cursor = state.cursor as CursorState | null | undefined;
+      if (clientId === session.doc.clientID || cursor?.path !== path) return;
+      const anchor = indexOf(cursor.anchor);
+      const head = indexOf(cursor.head);
+      if (anchor === null || head === null) return;
+
+      const who = peer(clientId);
+      const color = `collab-color-${who?.color ?? 0}`;
+      if (anchor !== head) {
+        next.push({
+          range: rangeOf(model.getPositionAt(Math.min(anchor, head)), model.getPositionAt(Math.max(anchor, head))),
+          options: { className: `collab-selection ${color}` },
+        });
+      }
+      const at = model.getPositionAt(head);
+      next.push({
+        range: rangeOf(at, at),
+        options: {
+          beforeContentClassName: `collab-cursor ${color}`,
+          hoverMessage: who ? { value: who.username } : undefined,
+        },
+      });
+    });
+    decorations.set(next);
+  };
+  session.awareness.on("change", renderCursors);
+  renderCursors();
+
+  return {
+    undo: () => undoManager.undo(),
+    redo: () => undoManager.redo(),
+    refresh: renderCursors,
+    dispose() {
+      text.unobserve(onTextChange);
+      contentListener.dispose();
+      selectionListener.dispose();
+      session.awareness.off("change", renderCursors);
+      undoManager.destroy();
+      decorations.clear();
+      session.awareness.setLocalStateField("cursor", null);
+    },
+  };
+}
+
+function rangeOf(start: { lineNumber: number; column: number }, end: { lineNumber: number; column: number }) {
+  return {
+    startLineNumber: start.lineNumber,
+    startColumn: start.column,
+    endLineNumber: end.lineNumber,
+    endColumn: end.column,
+  };
+}
@@ -0,0 +1,77 @@
+import type { Monaco, OnMount } from "@monaco-editor/react";
+import type { languages } from "monaco-editor";
+import {
+  COMPLETION_NEIGHBOR_CHARS,
+  COMPLETION_NEIGHBOR_FILES,
+  COMPLETION_PREFIX_CHARS,
+  COMPLETION_SUFFIX_CHARS,
+  type CompletionRequest,
+  type ProjectFile,
+} from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+
+type CodeEditor = Parameters<OnMount>[0];
+
+// Monaco waits this long after the last keystroke before asking for a suggestion
+const COMPLETION_DEBOUNCE_MS = 400;
+
+export interface CompletionSource {
+  enabled: boolean;
+  file: ProjectFile | undefined;
+  // Other files worth showing the model, most relevant first
+  neighbors: ProjectFile[];
+}
+
+// Ghost-text suggestions from /api/assistant/complete in this editor only.
+// Monaco cancels a request as soon as the user keeps typing; the fetch is aborted with it.
+// `source` is read on every request, so toggling in Config or switching files applies at once.
+export function registerInlineCompletions(monaco: Monaco, editor: CodeEditor, source: () => CompletionSource) {
+  const provider: languages.InlineCompletionsProvider = {
+    debounceDelayMs: COMPLETION_DEBOUNCE_MS,
+    async provideInlineCompletions(model, position, _context, token) {
+      const { enabled, file, neighbors } = source();
+      if (model !== editor.getModel() || !file || !enabled) return;
+
+      const offset = model.getOffsetAt(position);
+      const text = model.getValue();
+      const prefix = text.slice(Math.max(0, offset - COMPLETION_PREFIX_CHARS), offset);
+      // Nothing typed yet - there's no context to complete from
+      if (!prefix.trim()) return;
+
+      const request: CompletionRequest = {
+        path: file.path,
+        language: file.language,
+        prefix,
+        suffix: text.slice(offset, offset + COMPLETION_SUFFIX_CHARS),
+        neighbors: neighbors
+          .slice(0, COMPLETION_NEIGHBOR_FILES)
+          .map((f) => ({ path: f.path, content: f.content.slice(0, COMPLETION_NEIGHBOR_CHARS) })),
+      };
+
+      const controller = new AbortController();
+      const cancelled = token.onCancellationRequested(() => controller.abort());
+      try {
+        const res = await authFetch("/api/assistant/complete", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+        if (!res.ok || token.isCancellationRequested) return;
+        const { completion } = (await res.json()) as { completion: string };
+        if (!completion) return;
+        return {
+          items: [{ insertText: completion, range: new monaco.Range(position.lineNumber, position.column, position.lineNumber, position.column) }],
+        };
+      } catch {
+        // Aborted or offline - just no suggestion
+        return;
+      } finally {
+        cancelled.dispose();
+      }
+    },
+    disposeInlineCompletions() {},
+  };
+  const registration = monaco.languages.registerInlineCompletionsProvider("*", provider);
+  editor.onDidDispose(() => registration.dispose());
+}
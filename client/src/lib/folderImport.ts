@@ -0,0 +1,47 @@
+import {
+  FOLDER_IMPORT_MAX_BYTES,
+  IMPORT_EXCLUDED_DIRS,
+  IMPORT_MAX_FILE_BYTES,
+  IMPORT_MAX_FILES,
+  type ImportSkipReason,
+  type SkippedImportFile,
+} from "@shared/schema";
+
+export interface FolderUpload {
+  // Paths keep the picked folder's name as their first segment
+  files: { file: File; path: string }[];
+  // Left out before uploading; the server reports whatever else it skips
+  omitted: SkippedImportFile[];
+  omittedCount: number;
+}
+
+// A picked folder lists every file under it, node_modules included, so files the
+// server would skip anyway are dropped here rather than uploaded
+export function prepareFolderUpload(picked: FileList): FolderUpload {
+  const upload: FolderUpload = { files: [], omitted: [], omittedCount: 0 };
+  const reported = new Set<string>();
+  const omit = (path: string, reason: ImportSkipReason) => {
+    upload.omittedCount++;
+    if (reported.has(path)) return;
+    reported.add(path);
+    upload.omitted.push({ path, reason });
+  };
+
+  for (const file of Array.from(picked)) {
+    const path = file.webkitRelativePath || file.name;
+    // Reported like the server does, relative to the picked folder
+    const relative = path.split("/").slice(1);
+    const excluded = relative.slice(0, -1).findIndex((dir) => IMPORT_EXCLUDED_DIRS.includes(dir));
+    if (excluded !== -1) omit(`${relative.slice(0, excluded + 1).join("/")}/`, "excluded folder");
+    else if (file.size > IMPORT_MAX_FILE_BYTES) omit(relative.join("/"), "too large");
+    else if (upload.files.length >= IMPORT_MAX_FILES) omit(relative.join("/"), "file limit");
+    else upload.files.push({ file, path });
+  }
+
+  if (upload.files.length === 0) throw new Error("No files to import in that folder");
+  const total = upload.files.reduce((sum, { file }) => sum + file.size, 0);
+  if (total > FOLDER_IMPORT_MAX_BYTES) {
+    throw new Error(`Folder is over ${FOLDER_IMPORT_MAX_BYTES / 1024 / 1024} MB - import it as a ZIP instead`);
+  }
+  return upload;
+}
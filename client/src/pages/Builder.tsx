@@ -1,6 +1,11 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
+import type { BuilderSource, ProjectTemplateSummary } from "@shared/schema";
+import { authFetch } from "@/lib/queryClient";
+import { saveDownload } from "@/lib/download";
+import { OpenAIKeyStatus } from "@/components/OpenAIKeyStatus";
+import { RegenerateIntoProjectModal } from "@/components/RegenerateIntoProjectModal";
 import Editor from "@monaco-editor/react";
 import {
   Rocket,
@@ -12,11 +17,12 @@ import {
   Check,
   ChevronRight,
   ChevronDown,
-  Key,
   Sparkles,
   Zap,
   Github,
   FileText,
+  FolderPlus,
+  RefreshCw,
 } from "lucide-react";
 
 interface GeneratedFile {
@@ -54,15 +60,34 @@ const TECH_STACKS = [
 ];
 
 export default function Builder() {
+  const queryClient = useQueryClient();
   const [prompt, setPrompt] = useState("");
   const [selectedTemplate, setSelectedTemplate] = useState("custom");
   const [techStack, setTechStack] = useState("default");
-  const [apiKey, setApiKey] = useState("");
+  // Server-side starter files the model builds on ("" = from scratch)
+  const [starterId, setStarterId] = useState("");
   const [generatedFiles, setGeneratedFiles] = useState<GeneratedFile[]>([]);
   const [selectedFile, setSelectedFile] = useState<GeneratedFile | null>(null);
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set());
   const [copiedPath, setCopiedPath] = useState<string | null>(null);
   const [rawResponse, setRawResponse] = useState("");
+  const [showGitExport, setShowGitExport] = useState(false);
+  // Request + output of the last build, saved alongside the files
+  const [lastBuild, setLastBuild] = useState<BuilderSource | null>(null);
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [showRegenerate, setShowRegenerate] = useState(false);
+  const [projectName, setProjectName] = useState("");
+  const [projectDesc, setProjectDesc] = useState("");
+
+  const { data: templatesData } = useQuery({
+    queryKey: ["templates"],
+    queryFn: async () => {
+      const res = await authFetch("/api/templates");
+      if (!res.ok) throw new Error("Failed to fetch templates");
+      return res.json() as Promise<{ templates: ProjectTemplateSummary[]; canManage: boolean }>;
+    },
+  });
+  const starters = (templatesData?.templates ?? []).filter((t) => t.id !== "blank");
 
   const buildMutation = useMutation({
     mutationFn: async () => {
@@ -70,13 +95,13 @@ export default function Builder() {
         ? PROJECT_TEMPLATES.find(t => t.id === selectedTemplate)?.label + ": "
         : "";
       
-      const res = await fetch("/api/build", {
+      const res = await authFetch("/api/build", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           prompt: templatePrompt + prompt,
           techStack: techStack !== "default" ? techStack : undefined,
-          apiKey: apiKey || undefined,
+          templateId: starterId || undefined,
         }),
       });
 
@@ -85,11 +110,20 @@ export default function Builder() {
         throw new Error(error.error || "Build failed");
       }
 
-      return res.json() as Promise<BuildResponse>;
+      const data = (await res.json()) as BuildResponse;
+      const source: BuilderSource = {
+        prompt: data.prompt,
+        template: selectedTemplate !== "custom" ? selectedTemplate : undefined,
+        techStack: techStack !== "default" ? techStack : undefined,
+        model: data.model,
+        rawResponse: data.rawResponse,
+      };
+      return { data, source };
     },
-    onSuccess: (data) => {
+    onSuccess: ({ data, source }) => {
       setGeneratedFiles(data.files);
       setRawResponse(data.rawResponse);
+      setLastBuild(source);
       if (data.files.length > 0) {
         setSelectedFile(data.files[0]);
         const folders = new Set<string>();
@@ -111,33 +145,63 @@ export default function Builder() {
   });
 
   const downloadMutation = useMutation({
-    mutationFn: async () => {
-      const res = await fetch("/api/download-project", {
+    // "bundle" and "git-zip" wrap the files in a one-commit git repository
+    mutationFn: async (format: "zip" | "bundle" | "git-zip") => {
+      const res = await authFetch("/api/download-project", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           files: generatedFiles,
           projectName: prompt.slice(0, 30).replace(/[^\w\s]/g, "").replace(/\s+/g, "-") || "vipudev-project",
+          format,
         }),
       });
 
-      if (!res.ok) throw new Error("Download failed");
-
-      const blob = await res.blob();
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = "vipudev-project.zip";
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Download failed");
+      }
+
+      await saveDownload(res, format === "bundle" ? "vipudev-project.bundle" : "vipudev-project.zip");
+      return format;
+    },
+    onSuccess: (format) => {
+      toast.success(
+        format === "bundle"
+          ? "Repository downloaded! Run `git clone <file>.bundle` to get a checkout."
+          : "Project downloaded!",
+      );
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Download failed");
+    },
+  });
+
+  const saveProjectMutation = useMutation({
+    mutationFn: async () => {
+      const res = await authFetch("/api/projects", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: projectName.trim() || "Untitled Project",
+          description: projectDesc.trim() || null,
+          files: generatedFiles,
+          builderSource: lastBuild,
+        }),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to save project");
+      }
+      return res.json();
     },
     onSuccess: () => {
-      toast.success("Project downloaded!");
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      setShowSaveModal(false);
+      toast.success(`Saved "${projectName.trim() || "Untitled Project"}" - open it from the Editor`);
     },
-    onError: () => {
-      toast.error("Download failed");
+    onError: (error: Error) => {
+      toast.error(error.message);
     },
   });
 
@@ -201,22 +265,76 @@ export default function Builder() {
 
           {generatedFiles.length > 0 && (
             <div className="flex items-center gap-2">
+              {lastBuild && (
+                <>
+                  <button
+                    onClick={() => {
+                      const label = prompt || PROJECT_TEMPLATES.find(t => t.id === selectedTemplate)?.label || "";
+                      setProjectName(label.slice(0, 40).trim());
+                      setProjectDesc(lastBuild.prompt.slice(0, 200));
+                      setShowSaveModal(true);
+                    }}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700/50 text-gray-300 border border-gray-600 hover:bg-gray-600/50 transition-all text-sm font-medium"
+                    data-testid="button-save-as-project"
+                  >
+                    <FolderPlus className="w-4 h-4" />
+                    Save as project
+                  </button>
+                  <button
+                    onClick={() => setShowRegenerate(true)}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700/50 text-gray-300 border border-gray-600 hover:bg-gray-600/50 transition-all text-sm font-medium"
+                    data-testid="button-regenerate-into-project"
+                  >
+                    <RefreshCw className="w-4 h-4" />
+                    Regenerate into project
+                  </button>
+                </>
+              )}
+              <div className="relative">
+                <button
+                  onClick={() => {
+                    const readmeFile = generatedFiles.find(f => f.path.toLowerCase() === "readme.md");
+                    if (readmeFile) {
+                      setSelectedFile(readmeFile);
+                    }
+                    setShowGitExport(!showGitExport);
+                  }}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700/50 text-gray-300 border border-gray-600 hover:bg-gray-600/50 transition-all text-sm font-medium"
+                  data-testid="button-github-ready"
+                >
+                  <Github className="w-4 h-4" />
+                  GitHub Ready
+                  <ChevronDown className="w-3 h-3" />
+                </button>
+                {showGitExport && (
+                  <div className="absolute right-0 mt-2 w-64 rounded-lg bg-[#0a1a0f] border border-gray-600 shadow-xl z-20 overflow-hidden">
+                    <button
+                      onClick={() => {
+                        setShowGitExport(false);
+                        downloadMutation.mutate("bundle");
+                      }}
+                      className="w-full text-left px-4 py-2.5 text-sm text-gray-300 hover:bg-white/5"
+                      data-testid="button-download-bundle"
+                    >
+                      Git bundle (.bundle)
+                      <div className="text-xs text-gray-500">Clone it, then push to GitHub</div>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setShowGitExport(false);
+                        downloadMutation.mutate("git-zip");
+                      }}
+                      className="w-full text-left px-4 py-2.5 text-sm text-gray-300 hover:bg-white/5"
+                      data-testid="button-download-git-zip"
+                    >
+                      ZIP with .git history
+                      <div className="text-xs text-gray-500">Unzip, add a remote and push</div>
+                    </button>
+                  </div>
+                )}
+              </div>
               <button
-                onClick={() => {
-                  const readmeFile = generatedFiles.find(f => f.path.toLowerCase() === "readme.md");
-                  if (readmeFile) {
-                    setSelectedFile(readmeFile);
-                  }
-                  toast.success("Your project is GitHub-ready! Download and push to GitHub.");
-                }}
-                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700/50 text-gray-300 border border-gray-600 hover:bg-gray-600/50 transition-all text-sm font-medium"
-                data-testid="button-github-ready"
-              >
-                <Github className="w-4 h-4" />
-                GitHub Ready
-              </button>
-              <button
-                onClick={() => downloadMutation.mutate()}
+                onClick={() => downloadMutation.mutate("zip")}
                 disabled={downloadMutation.isPending}
                 className="flex items-center gap-2 px-4 py-2 rounded-lg bg-lime-500/20 text-lime-400 border border-lime-500/30 hover:bg-lime-500/30 transition-all text-sm font-medium"
                 data-testid="button-download-project"
@@ -232,29 +350,8 @@ export default function Builder() {
           )}
         </div>
 
-        <div className={`rounded-xl p-4 flex items-center gap-3 mb-4 ${apiKey ? "bg-lime-500/10 border border-lime-500/20" : "bg-amber-500/10 border border-amber-500/20"}`}>
-          <Key className={`w-5 h-5 flex-shrink-0 ${apiKey ? "text-lime-400" : "text-amber-400"}`} />
-          <div className="flex-1">
-            <input
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder="Enter your OpenAI API key to start building..."
-              className="w-full bg-transparent text-sm text-white placeholder:text-amber-400/60 focus:outline-none"
-              data-testid="input-builder-api-key"
-            />
-            <p className={`text-xs mt-1 ${apiKey ? "text-lime-500/60" : "text-amber-500/60"}`}>
-              {apiKey ? "API key set - ready to build!" : "Your key is stored locally and never shared"}
-            </p>
-          </div>
-          {apiKey && (
-            <button
-              onClick={() => setApiKey("")}
-              className="text-xs text-gray-400 hover:text-red-400 transition-colors"
-            >
-              Clear
-            </button>
-          )}
+        <div className="mb-4">
+          <OpenAIKeyStatus />
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
@@ -294,6 +391,21 @@ export default function Builder() {
               ))}
             </select>
 
+            <label className="block text-sm text-gray-400 mb-2 mt-4">Starter Code</label>
+            <select
+              value={starterId}
+              onChange={(e) => setStarterId(e.target.value)}
+              className="w-full bg-black/30 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:border-lime-400/50"
+              data-testid="select-starter-template"
+            >
+              <option value="">None (start from scratch)</option>
+              {starters.map((starter) => (
+                <option key={starter.id} value={starter.id}>
+                  {starter.name}
+                </option>
+              ))}
+            </select>
+
             <div className="mt-4">
               <label className="block text-sm text-gray-400 mb-2">
                 {selectedTemplate === "custom" ? "Describe Your App" : "Additional Details (Optional)"}
@@ -472,6 +584,68 @@ export default function Builder() {
           </div>
         </div>
       )}
+
+      {showRegenerate && lastBuild && (
+        <RegenerateIntoProjectModal
+          files={generatedFiles}
+          builderSource={lastBuild}
+          onClose={() => setShowRegenerate(false)}
+        />
+      )}
+
+      {showSaveModal && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-[#0a1a0f] border border-lime-500/30 rounded-2xl p-6 w-full max-w-md animate-in zoom-in-95 duration-200">
+            <h3 className="text-xl font-bold vipu-gradient mb-1">Save as project</h3>
+            <p className="text-xs text-gray-500 mb-4">
+              {generatedFiles.length} files, plus the prompt, tech stack and model response they came from.
+            </p>
+
+            <div className="space-y-4">
+              <div>
+                <label className="text-sm text-gray-400 block mb-1">Project Name</label>
+                <input
+                  type="text"
+                  value={projectName}
+                  onChange={(e) => setProjectName(e.target.value)}
+                  placeholder="My Awesome App"
+                  className="w-full bg-black/20 border border-white/10 rounded-lg p-3 text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-400/50"
+                  data-testid="input-builder-project-name"
+                  autoFocus
+                />
+              </div>
+              <div>
+                <label className="text-sm text-gray-400 block mb-1">Description (optional)</label>
+                <textarea
+                  value={projectDesc}
+                  onChange={(e) => setProjectDesc(e.target.value)}
+                  rows={3}
+                  className="w-full bg-black/20 border border-white/10 rounded-lg p-3 text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-400/50 resize-none"
+                  data-testid="input-builder-project-description"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setShowSaveModal(false)}
+                className="flex-1 py-2 px-4 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => saveProjectMutation.mutate()}
+                disabled={saveProjectMutation.isPending}
+                className="flex-1 py-2 px-4 rounded-lg bg-gradient-to-r from-green-600 to-lime-500 text-white font-medium hover:from-green-500 hover:to-lime-400 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                data-testid="button-confirm-save-project"
+              >
+                {saveProjectMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <FolderPlus className="w-4 h-4" />}
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
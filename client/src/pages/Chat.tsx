@@ -9,7 +9,6 @@ import {
   Globe,
   Copy,
   Check,
-  Key,
   Heart,
   Mic,
   MicOff,
@@ -24,6 +23,8 @@ import {
   Brain
 } from "lucide-react";
 import { toast } from "sonner";
+import { authFetch } from "@/lib/queryClient";
+import { OpenAIKeyStatus } from "@/components/OpenAIKeyStatus";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 
 interface Message {
@@ -59,7 +60,6 @@ const CHAT_MODES = [
 export default function Chat() {
   const [input, setInput] = useState("");
   const [messages, setMessages] = useState<Message[]>([]);
-  const [apiKey, setApiKey] = useState("");
   const [searchEnabled, setSearchEnabled] = useState(true);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [chatMode, setChatMode] = useState<ChatMode>("chat");
@@ -122,19 +122,11 @@ export default function Chat() {
     }
   }, [isListening]);
 
-  // Load saved API key from localStorage
-  useEffect(() => {
-    const savedKey = localStorage.getItem("vipudev_api_key");
-    if (savedKey) {
-      setApiKey(savedKey);
-    }
-  }, []);
-
   // Load chat history
   const { data: historyData } = useQuery({
     queryKey: ["chat-history"],
     queryFn: async () => {
-      const res = await fetch("/api/chat/history?limit=100");
+      const res = await authFetch("/api/chat/history?limit=100");
       return res.json();
     },
   });
@@ -174,12 +166,11 @@ export default function Chat() {
       const modePrefix = getModePrefix(chatMode);
       const fullMessage = modePrefix + userMessage + (codeContext ? `\n\nCode context:\n\`\`\`\n${codeContext}\n\`\`\`` : "");
       
-      const res = await fetch("/api/assistant/chat", {
+      const res = await authFetch("/api/assistant/chat", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           messages: [{ role: "user", content: fullMessage }],
-          apiKey: apiKey || undefined,
           searchEnabled,
           mode: chatMode,
           codeContext: codeContext || undefined,
@@ -219,12 +210,11 @@ export default function Chat() {
     setSearchResult(null);
     
     try {
-      const res = await fetch("/api/assistant/search", {
+      const res = await authFetch("/api/assistant/search", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           query,
-          apiKey: apiKey || undefined,
         }),
       });
 
@@ -238,12 +228,12 @@ export default function Chat() {
       
       // Persist search query to chat history for continuity
       try {
-        await fetch("/api/chat", {
+        await authFetch("/api/chat", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ role: "user", content: `[SEARCH] ${query}` }),
         });
-        await fetch("/api/chat", {
+        await authFetch("/api/chat", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({ role: "assistant", content: `[SEARCH RESULT]\n${data.answer || "Search completed."}` }),
@@ -285,7 +275,7 @@ export default function Chat() {
     if (!confirm("Clear all chat history?")) return;
 
     try {
-      await fetch("/api/chat/history", { method: "DELETE" });
+      await authFetch("/api/chat/history", { method: "DELETE" });
       setMessages([]);
       queryClient.invalidateQueries({ queryKey: ["chat-history"] });
       toast.success("Chat history cleared");
@@ -423,64 +413,7 @@ export default function Chat() {
         </div>
       )}
 
-      {/* API Key Input - Only place to enter API key */}
-      {!apiKey ? (
-        <div className="rounded-xl p-4 flex items-center gap-3 bg-amber-500/10 border border-amber-500/20">
-          <Key className="w-5 h-5 flex-shrink-0 text-amber-400" />
-          <div className="flex-1">
-            <input
-              type="password"
-              id="api-key-input"
-              placeholder="Enter your OpenAI API key (sk-...)"
-              className="w-full bg-transparent text-sm text-white placeholder:text-amber-400/60 focus:outline-none"
-              data-testid="input-api-key"
-              onKeyDown={(e) => {
-                if (e.key === "Enter") {
-                  const input = e.target as HTMLInputElement;
-                  if (input.value.trim()) {
-                    const key = input.value.trim();
-                    setApiKey(key);
-                    localStorage.setItem("vipudev_api_key", key);
-                    toast.success("API key saved!");
-                  }
-                }
-              }}
-            />
-            <p className="text-xs mt-1 text-amber-500/60">
-              Press Enter or click Save. Your key is stored in browser.
-            </p>
-          </div>
-          <button
-            onClick={() => {
-              const input = document.getElementById("api-key-input") as HTMLInputElement;
-              if (input?.value.trim()) {
-                const key = input.value.trim();
-                setApiKey(key);
-                localStorage.setItem("vipudev_api_key", key);
-                toast.success("API key saved!");
-              }
-            }}
-            className="px-3 py-1.5 text-xs bg-amber-500/20 text-amber-400 rounded-lg hover:bg-amber-500/30 transition-colors"
-          >
-            Save
-          </button>
-        </div>
-      ) : (
-        <div className="rounded-xl p-3 flex items-center gap-3 bg-lime-500/10 border border-lime-500/20">
-          <Key className="w-4 h-4 text-lime-400" />
-          <span className="text-sm text-lime-400 flex-1">API key saved - ready to use!</span>
-          <button
-            onClick={() => {
-              setApiKey("");
-              localStorage.removeItem("vipudev_api_key");
-              toast.info("API key cleared");
-            }}
-            className="text-xs text-gray-400 hover:text-red-400 transition-colors"
-          >
-            Change Key
-          </button>
-        </div>
-      )}
+      <OpenAIKeyStatus />
 
       {/* Perplexity-style Search Results */}
       {chatMode === "search" && (isSearching || searchResult) && (
@@ -1,50 +1,170 @@
-import { Save, Key, Globe, Shield, Loader2 } from "lucide-react";
+import { Save, Key, Globe, Shield, Loader2, Search, Trash2, CheckCircle2, Lock, Sparkles } from "lucide-react";
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { UserConfig } from "@shared/schema";
+import type { PublicUser, PublicUserConfig } from "@shared/schema";
 import { toast } from "sonner";
+import { authFetch } from "@/lib/queryClient";
+import { ApiTokensPanel } from "@/components/ApiTokensPanel";
+import { AccountsPanel } from "@/components/AccountsPanel";
+
+type SecretField = "apiKey" | "perplexityKey";
+
+interface SecretKeyFieldProps {
+  label: string;
+  icon: typeof Key;
+  isSet: boolean;
+  masked: string | null;
+  value: string;
+  placeholder: string;
+  onChange: (value: string) => void;
+  onClear: () => void;
+  clearing: boolean;
+  testId: string;
+}
+
+function SecretKeyField({ label, icon: Icon, isSet, masked, value, placeholder, onChange, onClear, clearing, testId }: SecretKeyFieldProps) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-300 flex items-center gap-2">
+        <Icon className="w-4 h-4" /> {label}
+      </label>
+      <div className={`rounded-xl p-3 flex items-center gap-3 ${isSet ? "bg-lime-500/10 border border-lime-500/20" : "bg-amber-500/10 border border-amber-500/20"}`}>
+        {isSet ? (
+          <CheckCircle2 className="w-4 h-4 text-lime-400 flex-shrink-0" />
+        ) : (
+          <Key className="w-4 h-4 text-amber-400 flex-shrink-0" />
+        )}
+        <span className="text-sm text-gray-400 flex-1 font-mono" data-testid={`text-${testId}-status`}>
+          {isSet ? masked || "Key is set (encrypted)" : "Not set"}
+        </span>
+        {isSet && (
+          <button
+            onClick={onClear}
+            disabled={clearing}
+            className="px-3 py-1.5 text-xs bg-red-500/10 text-red-400 rounded-lg hover:bg-red-500/20 transition-colors flex items-center gap-1 disabled:opacity-50"
+            data-testid={`button-clear-${testId}`}
+          >
+            {clearing ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />}
+            Clear
+          </button>
+        )}
+      </div>
+      <input
+        type="password"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={isSet ? "Enter a new key to rotate it" : placeholder}
+        autoComplete="off"
+        className="w-full bg-black/20 border border-white/10 rounded-lg p-3 text-white focus:outline-none focus:border-indigo-500/50 transition-colors font-mono text-sm"
+        data-testid={`input-${testId}`}
+      />
+    </div>
+  );
+}
 
 export default function Config() {
   const [backendUrl, setBackendUrl] = useState("");
-  const [apiKey, setApiKey] = useState("");
+  const [newApiKey, setNewApiKey] = useState("");
+  const [newPerplexityKey, setNewPerplexityKey] = useState("");
   const queryClient = useQueryClient();
 
   const { data, isLoading } = useQuery({
     queryKey: ["config"],
     queryFn: async () => {
-      const res = await fetch("/api/config");
+      const res = await authFetch("/api/config");
       if (!res.ok) throw new Error("Failed to fetch config");
-      return res.json() as Promise<{ config: UserConfig }>;
+      return res.json() as Promise<{ config: PublicUserConfig }>;
+    },
+  });
+
+  const { data: me } = useQuery({
+    queryKey: ["auth-verify"],
+    queryFn: async () => {
+      const res = await authFetch("/api/auth/verify");
+      if (!res.ok) throw new Error("Failed to fetch account");
+      return res.json() as Promise<{ user: PublicUser }>;
     },
   });
 
   useEffect(() => {
     if (data?.config) {
       setBackendUrl(data.config.backendUrl || "");
-      setApiKey(data.config.apiKey || "");
     }
   }, [data]);
 
+  const postConfig = async (body: Record<string, unknown>) => {
+    const res = await authFetch("/api/config", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({}));
+      throw new Error(error.error || "Failed to save config");
+    }
+    return res.json();
+  };
+
   const saveConfigMutation = useMutation({
-    mutationFn: async () => {
-      const res = await fetch("/api/config", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ backendUrl, apiKey }),
-      });
-      if (!res.ok) throw new Error("Failed to save config");
-      return res.json();
-    },
+    // Keys are only sent when the user typed a new one
+    mutationFn: () =>
+      postConfig({
+        backendUrl,
+        ...(newApiKey.trim() && { apiKey: newApiKey.trim() }),
+        ...(newPerplexityKey.trim() && { perplexityKey: newPerplexityKey.trim() }),
+      }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["config"] });
+      setNewApiKey("");
+      setNewPerplexityKey("");
       toast.success("Configuration saved successfully!");
     },
-    onError: () => {
-      toast.error("Failed to save configuration");
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to save configuration");
+    },
+  });
+
+  const clearKeyMutation = useMutation({
+    mutationFn: (field: SecretField) => postConfig({ [field]: null }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["config"] });
+      toast.success("Key cleared");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to clear key");
     },
   });
 
+  const clientKeysMutation = useMutation({
+    mutationFn: (allowClientKeys: boolean) => postConfig({ allowClientKeys }),
+    onSuccess: (_data, allowClientKeys) => {
+      queryClient.invalidateQueries({ queryKey: ["config"] });
+      toast.success(allowClientKeys ? "Per-request keys allowed" : "Per-request keys blocked");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update setting");
+    },
+  });
+
+  const inlineCompletionsMutation = useMutation({
+    mutationFn: (inlineCompletions: boolean) => postConfig({ inlineCompletions }),
+    onSuccess: (_data, inlineCompletions) => {
+      queryClient.invalidateQueries({ queryKey: ["config"] });
+      toast.success(inlineCompletions ? "AI suggestions turned on" : "AI suggestions turned off");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update setting");
+    },
+  });
+
+  const clearKey = (field: SecretField, label: string) => {
+    if (confirm(`Remove your stored ${label}?`)) {
+      clearKeyMutation.mutate(field);
+    }
+  };
+
   return (
+    <>
     <div className="glass-card p-8 max-w-2xl mx-auto w-full mt-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
       <h2 className="text-2xl font-bold text-white mb-8 flex items-center gap-3">
         <Shield className="w-6 h-6 text-gray-400" /> Configuration
@@ -69,20 +189,72 @@ export default function Config() {
             />
           </div>
 
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-gray-300 flex items-center gap-2">
-              <Key className="w-4 h-4" /> OpenAI API Key
-            </label>
-            <div className="rounded-xl p-3 flex items-center gap-3 bg-lime-500/10 border border-lime-500/20">
-              <span className="text-sm text-gray-400 flex-1">API key is managed in the Chat page for security.</span>
-              <a
-                href="/chat"
-                className="px-3 py-1.5 text-xs bg-lime-500/20 text-lime-400 rounded-lg hover:bg-lime-500/30 transition-colors"
-              >
-                Go to Chat
-              </a>
-            </div>
-          </div>
+          <SecretKeyField
+            label="OpenAI API Key"
+            icon={Key}
+            isSet={!!data?.config.apiKeySet}
+            masked={data?.config.apiKeyMasked ?? null}
+            value={newApiKey}
+            placeholder="sk-..."
+            onChange={setNewApiKey}
+            onClear={() => clearKey("apiKey", "OpenAI API key")}
+            clearing={clearKeyMutation.isPending && clearKeyMutation.variables === "apiKey"}
+            testId="openai-key"
+          />
+
+          <SecretKeyField
+            label="Perplexity API Key"
+            icon={Search}
+            isSet={!!data?.config.perplexityKeySet}
+            masked={data?.config.perplexityKeyMasked ?? null}
+            value={newPerplexityKey}
+            placeholder="pplx-..."
+            onChange={setNewPerplexityKey}
+            onClear={() => clearKey("perplexityKey", "Perplexity API key")}
+            clearing={clearKeyMutation.isPending && clearKeyMutation.variables === "perplexityKey"}
+            testId="perplexity-key"
+          />
+          <p className="text-xs text-gray-500 -mt-3">
+            Keys are encrypted on the server and never sent back to the browser.
+          </p>
+
+          <label className="flex items-start gap-3 rounded-xl p-3 bg-black/20 border border-white/10 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={data?.config.allowClientKeys === false}
+              onChange={(e) => clientKeysMutation.mutate(!e.target.checked)}
+              disabled={clientKeysMutation.isPending}
+              className="mt-1 accent-indigo-500"
+              data-testid="checkbox-block-client-keys"
+            />
+            <span className="space-y-1">
+              <span className="text-sm font-medium text-gray-300 flex items-center gap-2">
+                <Lock className="w-4 h-4" /> Only use my stored key
+              </span>
+              <span className="block text-xs text-gray-500">
+                Reject requests (e.g. from scripts) that pass their own <code className="text-lime-400">apiKey</code>.
+              </span>
+            </span>
+          </label>
+
+          <label className="flex items-start gap-3 rounded-xl p-3 bg-black/20 border border-white/10 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!data?.config.inlineCompletions}
+              onChange={(e) => inlineCompletionsMutation.mutate(e.target.checked)}
+              disabled={inlineCompletionsMutation.isPending}
+              className="mt-1 accent-indigo-500"
+              data-testid="checkbox-inline-completions"
+            />
+            <span className="space-y-1">
+              <span className="text-sm font-medium text-gray-300 flex items-center gap-2">
+                <Sparkles className="w-4 h-4" /> AI suggestions while typing
+              </span>
+              <span className="block text-xs text-gray-500">
+                Shows grey inline completions in the Editor; press Tab to accept. Each pause in typing is a request to OpenAI.
+              </span>
+            </span>
+          </label>
 
           <div className="pt-4">
             <button
@@ -102,5 +274,16 @@ export default function Config() {
         </div>
       )}
     </div>
+
+    <div className="glass-card p-8 max-w-2xl mx-auto w-full mt-6 mb-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <ApiTokensPanel />
+    </div>
+
+    {me?.user.role === "admin" && (
+      <div className="glass-card p-8 max-w-2xl mx-auto w-full mb-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+        <AccountsPanel />
+      </div>
+    )}
+    </>
   );
 }
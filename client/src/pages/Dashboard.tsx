@@ -1,34 +1,150 @@
-import { Folder, Plus, Clock, Trash2, Loader2 } from "lucide-react";
+import {
+  Folder,
+  FolderUp,
+  Plus,
+  Clock,
+  Trash2,
+  Loader2,
+  Users,
+  Share2,
+  Upload,
+  X,
+  LayoutTemplate,
+  Search,
+  Star,
+  Archive,
+  ArchiveRestore,
+  Tag,
+  ChevronLeft,
+  ChevronRight,
+  GitFork,
+} from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useState } from "react";
-import type { Project } from "@shared/schema";
+import { useEffect, useRef, useState } from "react";
+import {
+  hasProjectRole,
+  type Project,
+  type ProjectPreferences,
+  type ProjectSummary,
+  type ProjectTemplateSummary,
+  type SharedProject,
+  type SkippedImportFile,
+} from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 import { toast } from "sonner";
+import { authFetch } from "@/lib/queryClient";
+import { ShareProjectModal } from "@/components/ShareProjectModal";
+import { ProjectExportMenu } from "@/components/ProjectExportMenu";
+import { prepareFolderUpload, type FolderUpload } from "@/lib/folderImport";
+
+interface ImportResult {
+  project: Project;
+  imported: number;
+  skipped: SkippedImportFile[];
+  skippedCount: number;
+  truncated: boolean;
+}
+
+type ImportSource = { zip: File } | { folder: FolderUpload };
+
+interface ProjectListResponse {
+  projects: ProjectSummary[];
+  sharedProjects: SharedProject[];
+  total: number;
+  sharedTotal: number;
+  tags: string[];
+}
+
+type ProjectView = "all" | "starred" | "archived";
+type ProjectMeta = Pick<Project, "tags">;
+
+const PAGE_SIZE = 24;
 
 export default function Dashboard() {
   const queryClient = useQueryClient();
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newProjectName, setNewProjectName] = useState("");
   const [newProjectDesc, setNewProjectDesc] = useState("");
+  const [newProjectTemplate, setNewProjectTemplate] = useState("blank");
+  const [sharingProject, setSharingProject] = useState<Project | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [forkingProject, setForkingProject] = useState<ProjectSummary | null>(null);
+  const [forkName, setForkName] = useState("");
+  const [forkIncludeChat, setForkIncludeChat] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [view, setView] = useState<ProjectView>("all");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+
+  // Searching file contents is a database scan - wait for typing to pause
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // React's typings don't know the directory-picker attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  const filters = { q: search, view, tag: tagFilter, page };
+  const isFiltered = !!search || view !== "all" || !!tagFilter;
 
   const { data, isLoading } = useQuery({
-    queryKey: ["projects"],
+    queryKey: ["projects", filters],
+    placeholderData: (previous) => previous,
     queryFn: async () => {
-      const res = await fetch("/api/projects");
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) });
+      if (search) params.set("q", search);
+      if (tagFilter) params.set("tag", tagFilter);
+      if (view === "starred") params.set("starred", "true");
+      if (view === "archived") params.set("archived", "true");
+      const res = await authFetch(`/api/projects?${params}`);
       if (!res.ok) throw new Error("Failed to fetch projects");
-      return res.json() as Promise<{ projects: Project[] }>;
+      return res.json() as Promise<ProjectListResponse>;
     },
   });
 
+  const sharedProjects = data?.sharedProjects ?? [];
+  const tags = data?.tags ?? [];
+  const pageCount = Math.max(1, Math.ceil(Math.max(data?.total ?? 0, data?.sharedTotal ?? 0) / PAGE_SIZE));
+
+  const selectView = (next: ProjectView) => {
+    setView(next);
+    setPage(0);
+  };
+  const selectTag = (tag: string | null) => {
+    setTagFilter(tag);
+    setPage(0);
+  };
+
+  const { data: templatesData } = useQuery({
+    queryKey: ["templates"],
+    queryFn: async () => {
+      const res = await authFetch("/api/templates");
+      if (!res.ok) throw new Error("Failed to fetch templates");
+      return res.json() as Promise<{ templates: ProjectTemplateSummary[]; canManage: boolean }>;
+    },
+  });
+
+  const templates = templatesData?.templates ?? [];
+  const canManageTemplates = templatesData?.canManage ?? false;
+
   const createProjectMutation = useMutation({
     mutationFn: async () => {
-      const res = await fetch("/api/projects", {
+      const res = await authFetch("/api/projects", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           name: newProjectName.trim() || "Untitled Project",
           description: newProjectDesc.trim() || null,
-          files: [{ path: "main.js", content: "// Start coding here...\n", language: "javascript" }],
+          templateId: newProjectTemplate,
         }),
       });
       if (!res.ok) throw new Error("Failed to create project");
@@ -36,9 +152,7 @@ export default function Dashboard() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["projects"] });
-      setShowCreateModal(false);
-      setNewProjectName("");
-      setNewProjectDesc("");
+      closeCreateModal();
       toast.success("Project created!");
     },
     onError: () => {
@@ -46,20 +160,255 @@ export default function Dashboard() {
     },
   });
 
+  const saveAsTemplateMutation = useMutation({
+    mutationFn: async ({ project, name }: { project: ProjectSummary; name: string }) => {
+      const res = await authFetch("/api/templates", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, description: project.description, projectId: project.id }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || "Failed to save template");
+      return body;
+    },
+    onSuccess: (_body, { name }) => {
+      queryClient.invalidateQueries({ queryKey: ["templates"] });
+      toast.success(`Saved "${name}" as a template`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await authFetch(`/api/templates/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to delete template");
+      }
+    },
+    onSuccess: (_body, id) => {
+      queryClient.invalidateQueries({ queryKey: ["templates"] });
+      if (newProjectTemplate === id) setNewProjectTemplate("blank");
+      toast.success("Template deleted");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const closeCreateModal = () => {
+    setShowCreateModal(false);
+    setNewProjectName("");
+    setNewProjectDesc("");
+    setNewProjectTemplate("blank");
+  };
+
+  const importProjectMutation = useMutation({
+    mutationFn: async (source: ImportSource) => {
+      const formData = new FormData();
+      if ("zip" in source) {
+        formData.append("file", source.zip);
+      } else {
+        for (const { file, path } of source.folder.files) {
+          formData.append("files", file);
+          formData.append("paths", path);
+        }
+      }
+      const res = await authFetch("/api/projects/import", { method: "POST", body: formData });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || "Failed to import project");
+      const result = body as ImportResult;
+      if ("zip" in source) return result;
+      const { omitted, omittedCount } = source.folder;
+      return { ...result, skipped: [...omitted, ...result.skipped], skippedCount: result.skippedCount + omittedCount };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      toast.success(`Imported ${result.imported} file${result.imported === 1 ? "" : "s"} into "${result.project.name}"`);
+      if (result.skippedCount > 0) setImportResult(result);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const updateMetaMutation = useMutation({
+    mutationFn: async ({ id, meta }: { id: string; meta: ProjectMeta }) => {
+      const res = await authFetch(`/api/projects/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(meta),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.details?.[0]?.message || body.error || "Failed to update project");
+      return body;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  // Star/archive only change the caller's own Dashboard, so viewers can use them too
+  const updatePreferencesMutation = useMutation({
+    mutationFn: async ({ id, prefs }: { id: string; prefs: Partial<ProjectPreferences> }) => {
+      const res = await authFetch(`/api/projects/${id}/preferences`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(prefs),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.details?.[0]?.message || body.error || "Failed to update project");
+      return body;
+    },
+    onSuccess: (_body, { prefs }) => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      if (prefs.archived !== undefined) toast.success(prefs.archived ? "Project archived" : "Project restored");
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const editTags = (project: ProjectSummary) => {
+    const input = prompt("Tags (comma separated)", project.tags.join(", "));
+    if (input === null) return;
+    const nextTags = input.split(",").map((t) => t.trim()).filter(Boolean);
+    updateMetaMutation.mutate({ id: project.id, meta: { tags: nextTags } });
+  };
+
+  // Tags are shared with collaborators, so they need edit access
+  const renderOrganizeButtons = (project: ProjectSummary, canEditTags: boolean) => (
+    <>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          updatePreferencesMutation.mutate({ id: project.id, prefs: { starred: !project.starred } });
+        }}
+        className={`transition-colors p-1 ${project.starred ? "text-yellow-400 hover:text-yellow-300" : "text-gray-500 hover:text-yellow-400"}`}
+        title={project.starred ? "Unstar" : "Star"}
+        data-testid={`button-star-${project.id}`}
+      >
+        <Star className="w-4 h-4" fill={project.starred ? "currentColor" : "none"} />
+      </button>
+      {canEditTags && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            editTags(project);
+          }}
+          className="text-gray-500 hover:text-lime-400 transition-colors p-1"
+          title="Edit tags"
+          data-testid={`button-tags-${project.id}`}
+        >
+          <Tag className="w-4 h-4" />
+        </button>
+      )}
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          updatePreferencesMutation.mutate({ id: project.id, prefs: { archived: !project.archived } });
+        }}
+        className="text-gray-500 hover:text-lime-400 transition-colors p-1"
+        title={project.archived ? "Restore from archive" : "Archive"}
+        data-testid={`button-archive-${project.id}`}
+      >
+        {project.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+      </button>
+    </>
+  );
+
+  const renderTags = (project: ProjectSummary) =>
+    project.tags.length > 0 && (
+      <div className="flex flex-wrap gap-1 mb-3">
+        {project.tags.map((tag) => (
+          <button
+            key={tag}
+            onClick={(e) => {
+              e.stopPropagation();
+              selectTag(tag);
+            }}
+            className="text-[10px] px-1.5 py-0.5 rounded bg-lime-500/10 text-lime-300 hover:bg-lime-500/20"
+          >
+            #{tag}
+          </button>
+        ))}
+      </div>
+    );
+
+  const duplicateProjectMutation = useMutation({
+    mutationFn: async (source: ProjectSummary) => {
+      const res = await authFetch(`/api/projects/${source.id}/duplicate`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: forkName.trim() || undefined, includeChat: forkIncludeChat }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(body.error || "Failed to duplicate project");
+      return body as { project: Project };
+    },
+    onSuccess: ({ project }) => {
+      queryClient.invalidateQueries({ queryKey: ["projects"] });
+      setForkingProject(null);
+      toast.success(`Created "${project.name}"`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const openForkModal = (project: ProjectSummary) => {
+    setForkingProject(project);
+    setForkName(`${project.name} (copy)`);
+    setForkIncludeChat(false);
+  };
+
+  const renderForkButton = (project: ProjectSummary) => (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        openForkModal(project);
+      }}
+      className="text-gray-500 hover:text-lime-400 transition-colors p-1"
+      title="Duplicate"
+      data-testid={`button-fork-${project.id}`}
+    >
+      <GitFork className="w-4 h-4" />
+    </button>
+  );
+
+  const renderForkedFrom = (project: ProjectSummary) =>
+    project.forkedFromName && (
+      <p className="text-xs text-gray-500 -mt-3 mb-3 flex items-center gap-1" data-testid={`text-forked-from-${project.id}`}>
+        <GitFork className="w-3 h-3" />
+        Forked from {project.forkedFromName}
+      </p>
+    );
+
   const deleteProjectMutation = useMutation({
     mutationFn: async (id: string) => {
-      const res = await fetch(`/api/projects/${id}`, { method: "DELETE" });
-      if (!res.ok) throw new Error("Failed to delete project");
+      const res = await authFetch(`/api/projects/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || "Failed to delete project");
+      }
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["projects"] });
       toast.success("Project deleted");
     },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
   });
 
   return (
-    <div className="glass-card p-8 h-full flex flex-col gap-6 animate-in fade-in duration-500 relative">
+    <div className="glass-card p-8 min-h-full flex flex-col gap-6 animate-in fade-in duration-500 relative">
       <img 
         src="/vipudev-logo.png" 
         alt="VipuDev.AI Logo" 
@@ -72,20 +421,119 @@ export default function Dashboard() {
           <h2 className="text-2xl font-bold vipu-gradient mb-1">Project Overview</h2>
           <p className="text-gray-400 text-sm">Manage your development projects.</p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="bg-gradient-to-r from-green-600 to-lime-500 hover:from-green-500 hover:to-lime-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 shadow-lg shadow-green-500/20"
-          data-testid="button-create-project"
-        >
-          <Plus className="w-4 h-4" />
-          New Project
-        </button>
+        <div className="flex items-center gap-2">
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importProjectMutation.mutate({ zip: file });
+              e.target.value = "";
+            }}
+            data-testid="input-import-zip"
+          />
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              const picked = e.target.files;
+              if (picked?.length) {
+                try {
+                  importProjectMutation.mutate({ folder: prepareFolderUpload(picked) });
+                } catch (error) {
+                  toast.error((error as Error).message);
+                }
+              }
+              e.target.value = "";
+            }}
+            data-testid="input-import-folder"
+          />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={importProjectMutation.isPending}
+            className="bg-white/5 border border-lime-500/30 text-lime-400 hover:bg-lime-500/10 px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 disabled:opacity-50"
+            data-testid="button-import-zip"
+          >
+            {importProjectMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+            Import ZIP
+          </button>
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            disabled={importProjectMutation.isPending}
+            className="bg-white/5 border border-lime-500/30 text-lime-400 hover:bg-lime-500/10 px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 disabled:opacity-50"
+            data-testid="button-import-folder"
+          >
+            <FolderUp className="w-4 h-4" />
+            Import Folder
+          </button>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="bg-gradient-to-r from-green-600 to-lime-500 hover:from-green-500 hover:to-lime-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all flex items-center gap-2 shadow-lg shadow-green-500/20"
+            data-testid="button-create-project"
+          >
+            <Plus className="w-4 h-4" />
+            New Project
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[220px] max-w-md">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search names, descriptions and code..."
+            className="w-full bg-black/20 border border-white/10 rounded-lg py-2 pl-9 pr-3 text-sm text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-400/50"
+            data-testid="input-search-projects"
+          />
+        </div>
+        {(["all", "starred", "archived"] as const).map((option) => (
+          <button
+            key={option}
+            onClick={() => selectView(option)}
+            className={`text-xs px-3 py-1.5 rounded-full border capitalize transition-colors ${
+              view === option
+                ? "bg-lime-400/10 text-lime-400 border-lime-400/30"
+                : "bg-white/5 text-gray-400 border-white/10 hover:text-white"
+            }`}
+            data-testid={`chip-view-${option}`}
+          >
+            {option}
+          </button>
+        ))}
+        {tags.map((tag) => (
+          <button
+            key={tag}
+            onClick={() => selectTag(tagFilter === tag ? null : tag)}
+            className={`text-xs px-3 py-1.5 rounded-full border transition-colors flex items-center gap-1 ${
+              tagFilter === tag
+                ? "bg-cyan-400/10 text-cyan-300 border-cyan-400/30"
+                : "bg-white/5 text-gray-400 border-white/10 hover:text-white"
+            }`}
+            data-testid={`chip-tag-${tag}`}
+          >
+            #{tag}
+            {tagFilter === tag && <X className="w-3 h-3" />}
+          </button>
+        ))}
       </div>
 
       {isLoading ? (
         <div className="flex items-center justify-center h-64">
           <Loader2 className="w-8 h-8 animate-spin text-lime-400" />
         </div>
+      ) : data?.projects.length === 0 && isFiltered ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-gray-500">
+          <Search className="w-16 h-16 mb-4 opacity-30" />
+          <p className="text-lg mb-2">No matching projects</p>
+          <p className="text-sm">Try a different search or filter</p>
+        </div>
       ) : data?.projects.length === 0 ? (
         <div className="flex-1 flex flex-col items-center justify-center text-gray-500">
           <Folder className="w-16 h-16 mb-4 opacity-30" />
@@ -104,18 +552,48 @@ export default function Dashboard() {
                 <div className="p-2 rounded-lg bg-lime-500/20 text-lime-400 group-hover:text-lime-300 transition-colors">
                   <Folder className="w-6 h-6" />
                 </div>
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    if (confirm("Delete this project?")) {
-                      deleteProjectMutation.mutate(project.id);
-                    }
-                  }}
-                  className="text-gray-500 hover:text-red-400 transition-colors p-1"
-                  data-testid={`button-delete-${project.id}`}
-                >
-                  <Trash2 className="w-4 h-4" />
-                </button>
+                <div className="flex items-center gap-1">
+                  {renderOrganizeButtons(project, true)}
+                  {renderForkButton(project)}
+                  <ProjectExportMenu projectId={project.id} projectName={project.name} compact />
+                  {canManageTemplates && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        const name = prompt("Template name", project.name)?.trim();
+                        if (name) saveAsTemplateMutation.mutate({ project, name });
+                      }}
+                      disabled={saveAsTemplateMutation.isPending}
+                      className="text-gray-500 hover:text-lime-400 transition-colors p-1 disabled:opacity-50"
+                      title="Save as template"
+                      data-testid={`button-save-template-${project.id}`}
+                    >
+                      <LayoutTemplate className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSharingProject(project);
+                    }}
+                    className="text-gray-500 hover:text-lime-400 transition-colors p-1"
+                    data-testid={`button-share-${project.id}`}
+                  >
+                    <Share2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      if (confirm("Delete this project?")) {
+                        deleteProjectMutation.mutate(project.id);
+                      }
+                    }}
+                    className="text-gray-500 hover:text-red-400 transition-colors p-1"
+                    data-testid={`button-delete-${project.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
               <h3 className="text-lg font-semibold text-gray-200 mb-1" data-testid={`text-project-name-${project.id}`}>
                 {project.name}
@@ -123,6 +601,8 @@ export default function Dashboard() {
               <p className="text-sm text-gray-500 mb-4 line-clamp-2">
                 {project.description || "No description"}
               </p>
+              {renderForkedFrom(project)}
+              {renderTags(project)}
               <div className="flex items-center text-xs text-gray-500 gap-2">
                 <Clock className="w-3 h-3" />
                 <span data-testid={`text-updated-${project.id}`}>
@@ -143,9 +623,170 @@ export default function Dashboard() {
         </div>
       )}
 
-      {showCreateModal && (
+      {sharedProjects.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-200 mb-3 flex items-center gap-2">
+            <Users className="w-5 h-5 text-lime-400" />
+            Shared with me
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {sharedProjects.map((project) => (
+              <div
+                key={project.id}
+                className="p-4 rounded-xl bg-white/5 border border-cyan-500/20 hover:border-cyan-400/50 hover:bg-white/10 transition-all cursor-pointer group"
+                data-testid={`card-shared-project-${project.id}`}
+              >
+                <div className="flex justify-between items-start mb-4">
+                  <div className="p-2 rounded-lg bg-cyan-500/20 text-cyan-400 group-hover:text-cyan-300 transition-colors">
+                    <Folder className="w-6 h-6" />
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className="text-[10px] px-1.5 py-0.5 rounded bg-cyan-500/20 text-cyan-300 font-medium uppercase">
+                      {project.role}
+                    </span>
+                    {renderOrganizeButtons(project, hasProjectRole(project.role, "editor"))}
+                    {renderForkButton(project)}
+                    <ProjectExportMenu projectId={project.id} projectName={project.name} compact />
+                    {project.role === "admin" && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setSharingProject(project);
+                        }}
+                        className="text-gray-500 hover:text-lime-400 transition-colors p-1"
+                        data-testid={`button-share-${project.id}`}
+                      >
+                        <Share2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <h3 className="text-lg font-semibold text-gray-200 mb-1">{project.name}</h3>
+                <p className="text-sm text-gray-500 mb-4 line-clamp-2">
+                  {project.description || "No description"}
+                </p>
+                {renderForkedFrom(project)}
+                {renderTags(project)}
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span className="flex items-center gap-2">
+                    <Clock className="w-3 h-3" />
+                    {formatDistanceToNow(new Date(project.updatedAt), { addSuffix: true })}
+                  </span>
+                  <span>by {project.ownerUsername}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-center gap-3 text-sm text-gray-400">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            className="p-1.5 rounded border border-white/10 hover:bg-white/5 disabled:opacity-30"
+            data-testid="button-page-prev"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount}
+            className="p-1.5 rounded border border-white/10 hover:bg-white/5 disabled:opacity-30"
+            data-testid="button-page-next"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {sharingProject && (
+        <ShareProjectModal project={sharingProject} onClose={() => setSharingProject(null)} />
+      )}
+
+      {forkingProject && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-[#0a1a0f] border border-lime-500/30 rounded-2xl p-6 w-full max-w-md animate-in zoom-in-95 duration-200">
+            <h3 className="text-xl font-bold vipu-gradient mb-1">Duplicate project</h3>
+            <p className="text-sm text-gray-400 mb-4">
+              Copies the files and description of "{forkingProject.name}" into a new project you own.
+            </p>
+
+            <label className="text-sm text-gray-400 block mb-1">Name</label>
+            <input
+              type="text"
+              value={forkName}
+              onChange={(e) => setForkName(e.target.value)}
+              className="w-full bg-black/20 border border-white/10 rounded-lg p-3 text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-400/50"
+              data-testid="input-fork-name"
+              autoFocus
+            />
+            <label className="flex items-center gap-2 mt-3 text-sm text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={forkIncludeChat}
+                onChange={(e) => setForkIncludeChat(e.target.checked)}
+                className="accent-lime-500"
+                data-testid="checkbox-fork-chat"
+              />
+              Copy my AI chat history for this project
+            </label>
+
+            <div className="flex gap-3 mt-6">
+              <button
+                onClick={() => setForkingProject(null)}
+                className="flex-1 py-2 px-4 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => duplicateProjectMutation.mutate(forkingProject)}
+                disabled={duplicateProjectMutation.isPending}
+                className="flex-1 py-2 px-4 rounded-lg bg-gradient-to-r from-green-600 to-lime-500 text-white font-medium hover:from-green-500 hover:to-lime-400 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                data-testid="button-confirm-fork"
+              >
+                {duplicateProjectMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitFork className="w-4 h-4" />}
+                Duplicate
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {importResult && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
           <div className="bg-[#0a1a0f] border border-lime-500/30 rounded-2xl p-6 w-full max-w-md animate-in zoom-in-95 duration-200">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-xl font-bold vipu-gradient">Imported "{importResult.project.name}"</h3>
+              <button onClick={() => setImportResult(null)} className="text-gray-500 hover:text-white transition-colors" data-testid="button-close-import-result">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <p className="text-sm text-gray-400 mb-4">
+              {importResult.imported} file{importResult.imported === 1 ? "" : "s"} imported, {importResult.skippedCount} skipped:
+            </p>
+            <div className="max-h-72 overflow-y-auto rounded-lg bg-black/20 border border-white/5">
+              {importResult.skipped.map((file) => (
+                <div key={file.path} className="flex items-center justify-between gap-3 px-3 py-1.5 text-xs" data-testid={`row-skipped-${file.path}`}>
+                  <span className="font-mono text-gray-300 truncate">{file.path}</span>
+                  <span className="text-gray-500 flex-shrink-0">{file.reason}</span>
+                </div>
+              ))}
+            </div>
+            {importResult.truncated && (
+              <p className="text-xs text-gray-500 mt-2">Only the first {importResult.skipped.length} are listed.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {showCreateModal && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+          <div className="bg-[#0a1a0f] border border-lime-500/30 rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto animate-in zoom-in-95 duration-200">
             <h3 className="text-xl font-bold vipu-gradient mb-4">Create New Project</h3>
             
             <div className="space-y-4">
@@ -173,15 +814,51 @@ export default function Dashboard() {
                   data-testid="input-project-description"
                 />
               </div>
+
+              <div>
+                <label className="text-sm text-gray-400 block mb-1">Template</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {templates.map((template) => (
+                    <div
+                      key={template.id}
+                      role="button"
+                      onClick={() => setNewProjectTemplate(template.id)}
+                      className={`relative text-left p-3 rounded-lg border cursor-pointer transition-colors ${
+                        newProjectTemplate === template.id
+                          ? "border-lime-400/60 bg-lime-500/10"
+                          : "border-white/10 bg-black/20 hover:border-white/20"
+                      }`}
+                      data-testid={`button-template-${template.id}`}
+                    >
+                      <div className="text-sm font-medium text-gray-200 pr-5">{template.name}</div>
+                      <div className="text-xs text-gray-500 line-clamp-2">{template.description || "No description"}</div>
+                      <div className="text-[10px] text-gray-600 mt-1">
+                        {template.fileCount} file{template.fileCount === 1 ? "" : "s"}
+                        {!template.builtIn && " · custom"}
+                      </div>
+                      {canManageTemplates && !template.builtIn && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            if (confirm(`Delete the "${template.name}" template?`)) {
+                              deleteTemplateMutation.mutate(template.id);
+                            }
+                          }}
+                          className="absolute top-2 right-2 text-gray-500 hover:text-red-400 transition-colors"
+                          data-testid={`button-delete-template-${template.id}`}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
             </div>
 
             <div className="flex gap-3 mt-6">
               <button
-                onClick={() => {
-                  setShowCreateModal(false);
-                  setNewProjectName("");
-                  setNewProjectDesc("");
-                }}
+                onClick={closeCreateModal}
                 className="flex-1 py-2 px-4 rounded-lg border border-white/10 text-gray-400 hover:text-white hover:bg-white/5 transition-colors"
               >
                 Cancel
@@ -2,6 +2,7 @@ import { Container, Play, Terminal, Loader2, Code, Download, Trash2 } from "luci
 import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { toast } from "sonner";
+import { authFetch } from "@/lib/queryClient";
 
 export default function Docker() {
   const [code, setCode] = useState(`// Welcome to VipuDevAI Code Runner!
@@ -23,7 +24,7 @@ console.log("Factorial of 10:", factorial(10));
 
   const runCodeMutation = useMutation({
     mutationFn: async () => {
-      const res = await fetch("/api/run", {
+      const res = await authFetch("/api/run", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ code, language }),
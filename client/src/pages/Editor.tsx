@@ -1,104 +1,394 @@
-import Editor from "@monaco-editor/react";
-import { FilePlus, Save, File, FolderOpen, Loader2, Trash2 } from "lucide-react";
-import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import type { Project } from "@shared/schema";
+import Editor, { type OnMount } from "@monaco-editor/react";
+import { Save, FolderOpen, Loader2, History, GitBranch, X } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  CODE_ACTIONS,
+  CODE_ACTION_CONTEXT_CHARS,
+  CODE_ACTION_CONTEXT_PATHS,
+  type CodeAction,
+  type CodeActionRequest,
+  type CodeActionResult,
+  type ProjectSummary,
+  type PublicUserConfig,
+  type SharedProject,
+} from "@shared/schema";
 import { toast } from "sonner";
+import { authFetch } from "@/lib/queryClient";
+import { bindEditor, type EditorBinding } from "@/lib/collab";
+import { registerInlineCompletions, type CompletionSource } from "@/lib/completions";
+import { useCollaboration } from "@/hooks/use-collaboration";
+import { VersionHistoryPanel } from "@/components/VersionHistoryPanel";
+import { GitDialog } from "@/components/GitDialog";
+import { ProjectExportMenu } from "@/components/ProjectExportMenu";
+import { FileTree, type FileTreeEntryKind } from "@/components/FileTree";
+import { CodeActionDialog, CODE_ACTION_LABELS } from "@/components/CodeActionDialog";
 
-interface ProjectFile {
-  path: string;
-  content: string;
-  language: string;
+const encodePath = (path: string) => path.split("/").map(encodeURIComponent).join("/");
+const fileUrl = (projectId: string, path: string) => `/api/projects/${projectId}/files/${encodePath(path)}`;
+const folderUrl = (projectId: string, path: string) => `/api/projects/${projectId}/folders/${encodePath(path)}`;
+
+// Empty folders don't exist in the file store - a new folder gets this placeholder
+const FOLDER_PLACEHOLDER = ".gitkeep";
+
+const isInFolder = (path: string, folder: string) => path.startsWith(`${folder}/`);
+
+async function responseError(res: Response, fallback: string): Promise<Error> {
+  const body = await res.json().catch(() => ({}));
+  return new Error(body.error || fallback);
 }
 
+type CodeEditor = Parameters<OnMount>[0];
+type TrackedRange = ReturnType<CodeEditor["createDecorationsCollection"]>;
+type JumpTarget = { path: string; line: number; column: number };
+
+const fileName = (path: string) => path.slice(path.lastIndexOf("/") + 1);
+
 export default function EditorPage() {
   const queryClient = useQueryClient();
+  const searchString = useSearch();
+  const [, navigate] = useLocation();
+  const editorRef = useRef<CodeEditor | null>(null);
+  // Bumped on every Monaco mount so a pending jump retries once the editor exists
+  const [editorMounts, setEditorMounts] = useState(0);
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
-  const [files, setFiles] = useState<ProjectFile[]>([]);
-  const [activeFileIndex, setActiveFileIndex] = useState(0);
-  const [editorContent, setEditorContent] = useState("");
+  // Project whose tabs have been set up
+  const [loadedProjectId, setLoadedProjectId] = useState<string | null>(null);
+  // Set by /editor?project=&file=&line= links (code search); applied once the file is open
+  const [jumpTarget, setJumpTarget] = useState<JumpTarget | null>(null);
+  const [openTabs, setOpenTabs] = useState<string[]>([]);
+  const [activePath, setActivePath] = useState<string | null>(null);
+  const [saveMessage, setSaveMessage] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const [showGit, setShowGit] = useState(false);
+  // Buffers are shared with everyone who has the project open and saved by the server
+  const collab = useCollaboration(selectedProjectId);
+  const { files, savedContent, peers } = collab;
+  const bindingRef = useRef<EditorBinding | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeActionRequest | null>(null);
+  // Follows the code a pending action was run on as other edits shift it
+  const codeActionRangeRef = useRef<TrackedRange | null>(null);
 
   const { data: projectsData, isLoading: loadingProjects } = useQuery({
     queryKey: ["projects"],
     queryFn: async () => {
-      const res = await fetch("/api/projects");
+      const res = await authFetch("/api/projects");
       if (!res.ok) throw new Error("Failed to fetch projects");
-      return res.json() as Promise<{ projects: Project[] }>;
+      return res.json() as Promise<{ projects: ProjectSummary[]; sharedProjects: SharedProject[] }>;
+    },
+  });
+
+  // Inline completions are switched on in Config
+  const { data: configData } = useQuery({
+    queryKey: ["config"],
+    queryFn: async () => {
+      const res = await authFetch("/api/config");
+      if (!res.ok) throw new Error("Failed to fetch config");
+      return res.json() as Promise<{ config: PublicUserConfig }>;
     },
   });
 
-  const selectedProject = projectsData?.projects.find(p => p.id === selectedProjectId);
+  const allProjects: (ProjectSummary | SharedProject)[] = [
+    ...(projectsData?.projects ?? []),
+    ...(projectsData?.sharedProjects ?? []),
+  ];
+  const selectedProject = allProjects.find(p => p.id === selectedProjectId);
+
+  const isReadOnly = collab.role === "viewer";
+  const activeFile = files.find((f) => f.path === activePath);
+  // Tabs of files someone else renamed or deleted drop out
+  const visibleTabs = openTabs.filter((path) => files.some((f) => f.path === path));
+  const dirtyPaths = new Set(files.filter((f) => savedContent[f.path] !== f.content).map((f) => f.path));
+  const hasUnsavedChanges = dirtyPaths.size > 0;
+  // While connected the server has every edit and saves it even if we leave
+  const hasUnsyncedChanges = hasUnsavedChanges && collab.status !== "connected";
+
+  useEffect(() => {
+    if (collab.syncedProjectId !== selectedProjectId || loadedProjectId === selectedProjectId) return;
+    const first = files[0]?.path ?? null;
+    setOpenTabs(first ? [first] : []);
+    setActivePath(first);
+    setLoadedProjectId(selectedProjectId);
+  }, [collab.syncedProjectId, selectedProjectId, loadedProjectId, files]);
+
+  useEffect(() => {
+    const params = new URLSearchParams(searchString);
+    const projectId = params.get("project");
+    if (!projectId) return;
+    const path = params.get("file");
+    if (path) {
+      setJumpTarget({ path, line: Number(params.get("line")) || 1, column: Number(params.get("column")) || 1 });
+    }
+    setSelectedProjectId(projectId);
+    // Consume the link so reloading or re-opening the editor doesn't jump again
+    navigate("/editor", { replace: true });
+  }, [searchString, navigate]);
+
+  useEffect(() => {
+    if (!jumpTarget || loadedProjectId !== selectedProjectId) return;
+    if (!files.some((f) => f.path === jumpTarget.path)) {
+      toast.error(`"${jumpTarget.path}" no longer exists`);
+      setJumpTarget(null);
+      return;
+    }
+    if (jumpTarget.path !== activePath) {
+      openFile(jumpTarget.path);
+      return;
+    }
+    const editor = editorRef.current;
+    // A disposed editor (left via the project picker) has no model
+    if (!editor?.getModel()) return;
+    editor.revealLineInCenter(jumpTarget.line);
+    editor.setPosition({ lineNumber: jumpTarget.line, column: jumpTarget.column });
+    editor.focus();
+    setJumpTarget(null);
+  }, [jumpTarget, loadedProjectId, selectedProjectId, files, activePath, editorMounts]);
+
+  // Cursor colours and names come from the peer list
+  const peersRef = useRef(peers);
+  peersRef.current = peers;
+  useEffect(() => bindingRef.current?.refresh(), [peers]);
+
+  // Attach the open file's shared text to Monaco; re-attached when the file or editor changes
+  const hasActiveFile = !!activeFile;
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!collab.session || !activePath || !hasActiveFile || !editor?.getModel()) return;
+    const binding = bindEditor(collab.session, editor, activePath, (clientId) =>
+      peersRef.current.find((p) => p.clientId === clientId),
+    );
+    bindingRef.current = binding;
+    return () => {
+      binding?.dispose();
+      bindingRef.current = null;
+    };
+  }, [collab.session, activePath, hasActiveFile, editorMounts]);
+
+  const save = () => {
+    if (isReadOnly || collab.saving) return;
+    if (collab.save(saveMessage.trim() || undefined)) setSaveMessage("");
+  };
+  // The keyboard listener is registered once and always calls the latest save
+  const saveRef = useRef(save);
+  saveRef.current = save;
 
+  // Ctrl/Cmd+S saves instead of opening the browser's "Save page" dialog
   useEffect(() => {
-    if (selectedProject) {
-      const projectFiles = (selectedProject.files as ProjectFile[]) || [];
-      if (projectFiles.length === 0) {
-        const defaultFile = { path: "main.js", content: "// Start coding here...\n", language: "javascript" };
-        setFiles([defaultFile]);
-        setEditorContent(defaultFile.content);
-      } else {
-        setFiles(projectFiles);
-        setEditorContent(projectFiles[0]?.content || "");
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.shiftKey && e.key.toLowerCase() === "s") {
+        e.preventDefault();
+        saveRef.current();
       }
-      setActiveFileIndex(0);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!hasUnsyncedChanges) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      // Older browsers only prompt when returnValue is set
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [hasUnsyncedChanges]);
+
+  const leaveProject = () => {
+    if (hasUnsyncedChanges && !confirm("You're offline and have edits the server hasn't received. Leave this project anyway?")) return;
+    setSelectedProjectId(null);
+    setLoadedProjectId(null);
+  };
+
+  const afterFileChange = () => {
+    queryClient.invalidateQueries({ queryKey: ["projects"] });
+    queryClient.invalidateQueries({ queryKey: ["project-versions", selectedProjectId] });
+  };
+
+  const openFile = (path: string) => {
+    setOpenTabs((tabs) => (tabs.includes(path) ? tabs : [...tabs, path]));
+    setActivePath(path);
+  };
+
+  // Closing a tab keeps its edits; the file stays marked unsaved in the tree
+  const closeTab = (path: string) => {
+    const index = visibleTabs.indexOf(path);
+    const tabs = visibleTabs.filter((p) => p !== path);
+    setOpenTabs(tabs);
+    if (path === activePath) setActivePath(tabs[Math.min(index, tabs.length - 1)] ?? null);
+  };
+
+  // Points tabs and the active file at new paths (null = the file is gone)
+  const remapOpenFiles = (target: (path: string) => string | null) => {
+    const tabs = openTabs.map((p) => target(p)).filter((p): p is string => p !== null);
+    setOpenTabs(tabs);
+    setActivePath((activePath && target(activePath)) ?? tabs[0] ?? null);
+  };
+
+  // File changes go through the REST API; the server merges them into the shared session
+  const createEntry = async (path: string, kind: FileTreeEntryKind) => {
+    if (!selectedProjectId) return;
+    const taken = files.some((f) => f.path === path || isInFolder(f.path, path) || isInFolder(path, f.path));
+    if (taken) {
+      toast.error(`"${path}" already exists`);
+      return;
     }
-  }, [selectedProject]);
-
-  const saveProjectMutation = useMutation({
-    mutationFn: async () => {
-      if (!selectedProjectId) return;
-      const updatedFiles = [...files];
-      updatedFiles[activeFileIndex] = { ...updatedFiles[activeFileIndex], content: editorContent };
-      
-      const res = await fetch(`/api/projects/${selectedProjectId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ files: updatedFiles }),
-      });
-      if (!res.ok) throw new Error("Failed to save");
-      return res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["projects"] });
-      toast.success("Project saved!");
-    },
-    onError: () => {
-      toast.error("Failed to save project");
-    },
-  });
 
-  const addFile = () => {
-    const fileName = prompt("Enter file name (e.g., utils.js):");
-    if (!fileName) return;
-    const ext = fileName.split('.').pop() || 'js';
-    const langMap: Record<string, string> = { js: 'javascript', ts: 'typescript', py: 'python', json: 'json', css: 'css', html: 'html' };
-    const newFile: ProjectFile = { path: fileName, content: "", language: langMap[ext] || 'plaintext' };
-    setFiles([...files, newFile]);
-    setActiveFileIndex(files.length);
-    setEditorContent("");
+    const filePath = kind === "folder" ? `${path}/${FOLDER_PLACEHOLDER}` : path;
+    const res = await authFetch(fileUrl(selectedProjectId, filePath), {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ content: "", message: kind === "folder" ? `Created folder ${path}` : undefined }),
+    });
+    if (!res.ok) {
+      toast.error((await responseError(res, "Failed to create file")).message);
+      return;
+    }
+    if (kind === "file") openFile(path);
+    afterFileChange();
+  };
+
+  // Rename in place or move (drag-and-drop); folders move every file under them
+  const renameEntry = async (path: string, newPath: string, kind: FileTreeEntryKind) => {
+    if (!selectedProjectId || newPath === path) return;
+    const target = (p: string) =>
+      kind === "file" ? (p === path ? newPath : null) : isInFolder(p, path) ? newPath + p.slice(path.length) : null;
+
+    const staying = files.filter((f) => target(f.path) === null).map((f) => f.path);
+    const clash = files
+      .map((f) => target(f.path))
+      .find((to) => to !== null && staying.some((p) => p === to || isInFolder(p, to) || isInFolder(to, p)));
+    if (clash) {
+      toast.error(`"${clash}" already exists`);
+      return;
+    }
+
+    const res = await authFetch(kind === "file" ? fileUrl(selectedProjectId, path) : folderUrl(selectedProjectId, path), {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ newPath }),
+    });
+    if (!res.ok) {
+      toast.error((await responseError(res, "Failed to move")).message);
+      return;
+    }
+    remapOpenFiles((p) => target(p) ?? p);
+    afterFileChange();
   };
 
-  const deleteFile = (index: number) => {
-    if (files.length <= 1) {
+  const deleteEntry = async (path: string, kind: FileTreeEntryKind) => {
+    if (!selectedProjectId) return;
+    const removed = files.filter((f) => (kind === "file" ? f.path === path : isInFolder(f.path, path)));
+    if (removed.length === files.length) {
       toast.error("Cannot delete the last file");
       return;
     }
-    const newFiles = files.filter((_, i) => i !== index);
-    setFiles(newFiles);
-    if (activeFileIndex >= newFiles.length) {
-      setActiveFileIndex(newFiles.length - 1);
-      setEditorContent(newFiles[newFiles.length - 1]?.content || "");
-    } else if (activeFileIndex === index) {
-      setEditorContent(newFiles[activeFileIndex]?.content || "");
+
+    const what = kind === "file" ? `"${path}"` : `the folder "${path}" and its ${removed.length} file${removed.length === 1 ? "" : "s"}`;
+    if (!confirm(`Delete ${what}?`)) return;
+
+    // A folder goes in one batch so it is one version
+    const res =
+      kind === "file"
+        ? await authFetch(fileUrl(selectedProjectId, path), { method: "DELETE" })
+        : await authFetch(`/api/projects/${selectedProjectId}/files`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ files: [], deleted: removed.map((f) => f.path), message: `Deleted folder ${path}` }),
+          });
+    if (!res.ok) {
+      toast.error((await responseError(res, "Failed to delete")).message);
+      return;
+    }
+    const removedPaths = new Set(removed.map((f) => f.path));
+    remapOpenFiles((p) => (removedPaths.has(p) ? null : p));
+    afterFileChange();
+  };
+
+  // Runs on the selection, or the whole file when nothing is selected
+  const runCodeAction = (action: CodeAction) => {
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    if (!editor || !model || !activeFile) return;
+    const selection = editor.getSelection();
+    const range = selection && !selection.isEmpty() ? selection : model.getFullModelRange();
+    const code = model.getValueInRange(range);
+    if (!code.trim()) {
+      toast.error("Nothing to work on - the file is empty");
+      return;
     }
+
+    codeActionRangeRef.current?.clear();
+    codeActionRangeRef.current = editor.createDecorationsCollection([{ range, options: {} }]);
+    setCodeAction({
+      action,
+      code,
+      path: activeFile.path,
+      language: activeFile.language,
+      fileContent: model.getValue().slice(0, CODE_ACTION_CONTEXT_CHARS),
+      projectPaths: files.slice(0, CODE_ACTION_CONTEXT_PATHS).map((f) => f.path),
+    });
+  };
+  // Monaco actions are registered once per editor and always run the latest version
+  const runCodeActionRef = useRef(runCodeAction);
+  runCodeActionRef.current = runCodeAction;
+
+  // Context for inline completions: open tabs first, then files next to the active one
+  const completionSource = (): CompletionSource => {
+    const folder = activePath ? activePath.slice(0, activePath.lastIndexOf("/") + 1) : "";
+    const others = files.filter((f) => f.path !== activePath && f.content.trim());
+    const isSibling = (path: string) => path.startsWith(folder) && !path.slice(folder.length).includes("/");
+    return {
+      enabled: !!configData?.config.inlineCompletions && !isReadOnly,
+      file: activeFile,
+      neighbors: [
+        ...others.filter((f) => visibleTabs.includes(f.path)),
+        ...others.filter((f) => !visibleTabs.includes(f.path) && isSibling(f.path)),
+      ],
+    };
   };
+  const completionSourceRef = useRef(completionSource);
+  completionSourceRef.current = completionSource;
 
-  const switchFile = (index: number) => {
-    const updatedFiles = [...files];
-    updatedFiles[activeFileIndex] = { ...updatedFiles[activeFileIndex], content: editorContent };
-    setFiles(updatedFiles);
-    setActiveFileIndex(index);
-    setEditorContent(files[index]?.content || "");
+  const closeCodeAction = () => {
+    codeActionRangeRef.current?.clear();
+    codeActionRangeRef.current = null;
+    setCodeAction(null);
+  };
+
+  const applyCodeAction = async (result: CodeActionResult): Promise<boolean> => {
+    if (!selectedProjectId || !codeAction || result.code === null) return false;
+
+    // Tests go to their own file
+    if (result.action === "tests") {
+      const res = await authFetch(fileUrl(selectedProjectId, result.path), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: result.code, message: `Added tests for ${codeAction.path}` }),
+      });
+      if (!res.ok) {
+        toast.error((await responseError(res, "Failed to save the tests")).message);
+        return false;
+      }
+      openFile(result.path);
+      afterFileChange();
+      return true;
+    }
+
+    // Edit through Monaco so it syncs to collaborators and Ctrl+Z undoes it
+    const editor = editorRef.current;
+    const model = editor?.getModel();
+    const range = codeActionRangeRef.current?.getRange(0);
+    if (!editor || !model || !range || activePath !== codeAction.path || model.getValueInRange(range) !== codeAction.code) {
+      toast.error("The code changed while Vipu was working - run the action again");
+      return false;
+    }
+    editor.pushUndoStop();
+    editor.executeEdits("code-action", [{ range, text: result.code }]);
+    editor.pushUndoStop();
+    return true;
   };
 
   if (!selectedProjectId) {
@@ -110,11 +400,11 @@ export default function EditorPage() {
         
         {loadingProjects ? (
           <Loader2 className="w-6 h-6 animate-spin text-lime-400" />
-        ) : projectsData?.projects.length === 0 ? (
+        ) : allProjects.length === 0 ? (
           <p className="text-gray-500 text-sm">No projects yet. Create one from the Dashboard.</p>
         ) : (
           <div className="grid grid-cols-2 gap-3 max-w-md">
-            {projectsData?.projects.map((project) => (
+            {allProjects.map((project) => (
               <button
                 key={project.id}
                 onClick={() => setSelectedProjectId(project.id)}
@@ -122,7 +412,10 @@ export default function EditorPage() {
                 data-testid={`button-select-project-${project.id}`}
               >
                 <div className="font-medium text-white">{project.name}</div>
-                <div className="text-xs text-gray-500 mt-1">{((project.files as ProjectFile[]) || []).length} files</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {project.fileCount} files
+                  {"role" in project && ` · shared (${project.role})`}
+                </div>
               </button>
             ))}
           </div>
@@ -136,78 +429,212 @@ export default function EditorPage() {
       <div className="flex items-center justify-between p-4 border-b border-lime-400/10 bg-white/5">
         <div className="flex items-center gap-3">
           <button 
-            onClick={() => setSelectedProjectId(null)}
+            onClick={leaveProject}
             className="text-gray-400 hover:text-white transition-colors"
           >
             <FolderOpen className="w-5 h-5" />
           </button>
           <h2 className="text-lg font-bold text-white">{selectedProject?.name}</h2>
-          <div className="h-4 w-[1px] bg-white/20 mx-2" />
+          {isReadOnly && (
+            <span className="text-[10px] px-1.5 py-0.5 rounded bg-cyan-500/20 text-cyan-300 font-medium uppercase">
+              View only
+            </span>
+          )}
+          {collab.status !== "connected" && (
+            <span
+              className="flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-300 font-medium uppercase"
+              data-testid="status-collab"
+            >
+              {collab.status === "closed" ? "Disconnected" : (
+                <>
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  {collab.status === "offline" ? "Reconnecting" : "Connecting"}
+                </>
+              )}
+            </span>
+          )}
+          <div className="flex -space-x-1.5">
+            {peers.map((peer) => (
+              <span
+                key={peer.clientId}
+                className={`collab-avatar collab-color-${peer.color} w-6 h-6 rounded-full border-2 border-[#0a1a0f] flex items-center justify-center text-[10px] font-bold text-black uppercase`}
+                title={peer.clientId === collab.session?.doc.clientID ? `${peer.username} (you)` : peer.username}
+                data-testid={`avatar-peer-${peer.clientId}`}
+              >
+                {peer.username.slice(0, 2)}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`flex items-center gap-2 text-xs px-3 py-1.5 rounded border transition-colors ${
+              showHistory
+                ? "bg-lime-400/20 text-lime-400 border-lime-400/40"
+                : "bg-white/5 text-gray-300 border-white/10 hover:bg-white/10"
+            }`}
+            data-testid="button-toggle-history"
+          >
+            <History className="w-3 h-3" /> History
+          </button>
+          <button
+            onClick={() => setShowGit(true)}
+            className="flex items-center gap-2 text-xs px-3 py-1.5 rounded border bg-white/5 text-gray-300 border-white/10 hover:bg-white/10 transition-colors"
+            data-testid="button-open-git"
+          >
+            <GitBranch className="w-3 h-3" /> Git
+          </button>
+          <ProjectExportMenu projectId={selectedProjectId} projectName={selectedProject?.name ?? "project"} />
+          {!isReadOnly && (
+            <input
+              value={saveMessage}
+              onChange={(e) => setSaveMessage(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && save()}
+              placeholder="Describe this save (optional)"
+              maxLength={200}
+              className="w-56 bg-black/20 border border-white/10 rounded px-2 py-1.5 text-xs text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-400/50"
+              data-testid="input-save-message"
+            />
+          )}
           <button 
-            onClick={addFile}
-            className="flex items-center gap-2 text-xs bg-lime-400/10 text-lime-400 px-3 py-1.5 rounded hover:bg-lime-400/20 transition-colors border border-lime-400/20"
-            data-testid="button-add-file"
+            onClick={save}
+            disabled={collab.saving || isReadOnly}
+            title="Edits are saved automatically a moment after typing stops - Save (Ctrl+S) saves now with your message"
+            className="flex items-center gap-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white px-4 py-1.5 rounded font-medium transition-colors shadow-lg disabled:opacity-50"
+            data-testid="button-save-project"
           >
-            <FilePlus className="w-3 h-3" /> New File
+            {collab.saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save{hasUnsavedChanges && ` (${dirtyPaths.size})`}
           </button>
         </div>
-        <button 
-          onClick={() => saveProjectMutation.mutate()}
-          disabled={saveProjectMutation.isPending}
-          className="flex items-center gap-2 text-sm bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white px-4 py-1.5 rounded font-medium transition-colors shadow-lg disabled:opacity-50"
-          data-testid="button-save-project"
-        >
-          {saveProjectMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
-          Save
-        </button>
       </div>
 
       <div className="flex flex-1 overflow-hidden">
-        <div className="w-48 bg-black/20 border-r border-lime-400/10 flex flex-col">
-          <div className="p-3 text-xs font-semibold text-gray-500 uppercase tracking-wider">Files</div>
-          {files.map((file, index) => (
-            <div 
-              key={file.path}
-              className={`flex items-center justify-between px-4 py-2 text-sm cursor-pointer transition-colors group ${
-                activeFileIndex === index 
-                  ? "bg-lime-400/10 text-lime-400 border-r-2 border-lime-400" 
-                  : "text-gray-400 hover:bg-white/5 hover:text-white"
-              }`}
-            >
-              <div className="flex items-center gap-2 flex-1" onClick={() => switchFile(index)}>
-                <File className="w-4 h-4 opacity-70" />
-                <span className="truncate">{file.path}</span>
-              </div>
-              <button 
-                onClick={() => deleteFile(index)}
-                className="opacity-0 group-hover:opacity-100 text-red-400 hover:text-red-300 p-1"
-              >
-                <Trash2 className="w-3 h-3" />
-              </button>
+        <FileTree
+          paths={files.map((f) => f.path)}
+          activePath={activePath}
+          dirtyPaths={dirtyPaths}
+          readOnly={isReadOnly}
+          onOpen={openFile}
+          onCreate={createEntry}
+          onRename={renameEntry}
+          onDelete={deleteEntry}
+        />
+
+        <div className="flex-1 flex flex-col bg-[#1e1e1e] min-w-0">
+          <div className="flex bg-black/30 border-b border-white/5 overflow-x-auto flex-shrink-0">
+            {visibleTabs.map((path) => {
+              const isActive = path === activePath;
+              const isDirty = dirtyPaths.has(path);
+              return (
+                <div
+                  key={path}
+                  onClick={() => setActivePath(path)}
+                  // Middle-click closes, as in most editors
+                  onAuxClick={(e) => e.button === 1 && closeTab(path)}
+                  className={`flex items-center gap-2 pl-3 pr-2 py-1.5 text-xs cursor-pointer border-r border-white/5 whitespace-nowrap group ${
+                    isActive ? "bg-[#1e1e1e] text-lime-400" : "text-gray-400 hover:text-white hover:bg-white/5"
+                  }`}
+                  title={path}
+                  data-testid={`tab-${path}`}
+                >
+                  <span className={isDirty ? "italic" : ""}>{fileName(path)}</span>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      closeTab(path);
+                    }}
+                    className="w-4 h-4 flex items-center justify-center rounded hover:bg-white/10"
+                    title={isDirty ? "Unsaved changes - close tab" : "Close tab"}
+                    data-testid={`button-close-tab-${path}`}
+                  >
+                    {isDirty && <span className="w-1.5 h-1.5 rounded-full bg-lime-400 group-hover:hidden" />}
+                    <X className={`w-3 h-3 ${isDirty ? "hidden group-hover:block" : "opacity-0 group-hover:opacity-100"}`} />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          {activeFile ? (
+            <Editor
+              height="100%"
+              language={activeFile.language || "javascript"}
+              // The shared-text binding owns the content from here on
+              defaultValue={activeFile.content}
+              onMount={(editor, monaco) => {
+                editorRef.current = editor;
+                // Undo only this user's edits, not everyone's
+                const { KeyMod, KeyCode } = monaco;
+                editor.addCommand(KeyMod.CtrlCmd | KeyCode.KeyZ, () => bindingRef.current?.undo());
+                editor.addCommand(KeyMod.CtrlCmd | KeyMod.Shift | KeyCode.KeyZ, () => bindingRef.current?.redo());
+                editor.addCommand(KeyMod.CtrlCmd | KeyCode.KeyY, () => bindingRef.current?.redo());
+                CODE_ACTIONS.forEach((action, index) =>
+                  editor.addAction({
+                    id: `vipu.${action}`,
+                    label: `Vipu: ${CODE_ACTION_LABELS[action]}`,
+                    contextMenuGroupId: "1_vipu",
+                    contextMenuOrder: index,
+                    // Viewers can still ask for explanations
+                    precondition: action === "explain" ? undefined : "!editorReadonly",
+                    run: () => runCodeActionRef.current(action),
+                  }),
+                );
+                registerInlineCompletions(monaco, editor, () => completionSourceRef.current());
+                setEditorMounts((n) => n + 1);
+              }}
+              theme="vs-dark"
+              options={{
+                readOnly: isReadOnly,
+                minimap: { enabled: false },
+                fontSize: 14,
+                fontFamily: "'Fira Code', monospace",
+                padding: { top: 20 },
+                scrollBeyondLastLine: false,
+                smoothScrolling: true,
+                cursorBlinking: "smooth",
+                cursorSmoothCaretAnimation: "on"
+              }}
+            />
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+              {loadedProjectId === selectedProjectId ? "Open a file from the sidebar" : <Loader2 className="w-6 h-6 animate-spin text-lime-400" />}
             </div>
-          ))}
+          )}
         </div>
 
-        <div className="flex-1 flex flex-col bg-[#1e1e1e]">
-          <Editor
-            height="100%"
-            language={files[activeFileIndex]?.language || "javascript"}
-            value={editorContent}
-            onChange={(value) => setEditorContent(value || "")}
-            theme="vs-dark"
-            options={{
-              minimap: { enabled: false },
-              fontSize: 14,
-              fontFamily: "'Fira Code', monospace",
-              padding: { top: 20 },
-              scrollBeyondLastLine: false,
-              smoothScrolling: true,
-              cursorBlinking: "smooth",
-              cursorSmoothCaretAnimation: "on"
-            }}
+        {showHistory && selectedProjectId && (
+          <VersionHistoryPanel
+            projectId={selectedProjectId}
+            canRestore={!isReadOnly}
+            onClose={() => setShowHistory(false)}
+            onRestored={afterFileChange}
           />
-        </div>
+        )}
       </div>
+
+      {showGit && selectedProjectId && (
+        <GitDialog
+          projectId={selectedProjectId}
+          projectName={selectedProject?.name ?? "project"}
+          gitEnabled={!!selectedProject?.gitEnabled}
+          canWrite={!isReadOnly}
+          hasUnsavedChanges={hasUnsavedChanges}
+          onClose={() => setShowGit(false)}
+          onCheckedOut={afterFileChange}
+        />
+      )}
+
+      {codeAction && (
+        <CodeActionDialog
+          request={codeAction}
+          existingContent={(path) => files.find((f) => f.path === path)?.content}
+          canApply={!isReadOnly}
+          onApply={applyCodeAction}
+          onClose={closeCodeAction}
+        />
+      )}
     </div>
   );
 }
@@ -1,27 +1,16 @@
-import { Palette, Sparkles, Image as ImageIcon, Key, Loader2, ExternalLink, Download, Heart } from "lucide-react";
-import { useState, useEffect } from "react";
+import { Palette, Sparkles, Image as ImageIcon, Loader2, ExternalLink, Download, Heart } from "lucide-react";
+import { useState } from "react";
 import { toast } from "sonner";
+import { authFetch } from "@/lib/queryClient";
+import { OpenAIKeyStatus } from "@/components/OpenAIKeyStatus";
 
 export default function ImageGen() {
-  const [openaiKey, setOpenaiKey] = useState("");
   const [prompt, setPrompt] = useState("");
   const [size, setSize] = useState<"1024x1024" | "1792x1024" | "1024x1792">("1024x1024");
   const [generating, setGenerating] = useState(false);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
 
-  // Load saved API key from localStorage (set in Chat page)
-  useEffect(() => {
-    const savedKey = localStorage.getItem("vipudev_api_key");
-    if (savedKey) {
-      setOpenaiKey(savedKey);
-    }
-  }, []);
-
   const handleGenerate = async () => {
-    if (!openaiKey) {
-      toast.error("Please enter your OpenAI API key");
-      return;
-    }
     if (!prompt.trim()) {
       toast.error("Please enter a prompt");
       return;
@@ -32,13 +21,12 @@ export default function ImageGen() {
 
     try {
       // Use server-side endpoint
-      const response = await fetch("/api/generate-image", {
+      const response = await authFetch("/api/generate-image", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           prompt: prompt,
           size: size,
-          apiKey: openaiKey,
         }),
       });
 
@@ -115,19 +103,7 @@ export default function ImageGen() {
       </div>
 
       <div className="space-y-4 mb-6">
-        {/* API Key Status - Shows warning if not set, links to Chat */}
-        {!openaiKey && (
-          <div className="rounded-xl p-3 flex items-center gap-3 bg-amber-500/10 border border-amber-500/20">
-            <Key className="w-4 h-4 text-amber-400" />
-            <span className="text-sm text-amber-400 flex-1">OpenAI API key required. Set it in the Chat page.</span>
-            <a
-              href="/chat"
-              className="px-3 py-1.5 text-xs bg-amber-500/20 text-amber-400 rounded-lg hover:bg-amber-500/30 transition-colors"
-            >
-              Go to Chat
-            </a>
-          </div>
-        )}
+        <OpenAIKeyStatus />
 
         {/* Prompt & Generate */}
         <div className="flex gap-3">
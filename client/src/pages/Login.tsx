@@ -1,18 +1,80 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
-import { Loader2, Lock, User } from "lucide-react";
+import { Loader2, Lock, User, UserPlus, KeyRound } from "lucide-react";
 import { toast } from "sonner";
+import { AUTH_TOKEN_KEY } from "@/lib/queryClient";
 
 interface LoginProps {
   onLogin: () => void;
 }
 
+type AuthMode = "signin" | "signup";
+
+interface SetupStatus {
+  needsSetup: boolean;
+  signupEnabled: boolean;
+  sso: { providerName: string } | null;
+}
+
 export default function Login({ onLogin }: LoginProps) {
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [mode, setMode] = useState<AuthMode>("signin");
+  const [setup, setSetup] = useState<SetupStatus>({ needsSetup: false, signupEnabled: false, sso: null });
   const [loading, setLoading] = useState(false);
   const [, setLocation] = useLocation();
 
+  // First run: no users yet, so the first signup bootstraps the admin
+  useEffect(() => {
+    fetch("/api/auth/setup")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: SetupStatus | null) => {
+        if (!data) return;
+        setSetup(data);
+        if (data.needsSetup) setMode("signup");
+      })
+      .catch(() => {});
+  }, []);
+
+  // Returning from the SSO provider: swap the one-time code for a session
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get("oidc_code");
+    const ssoError = params.get("oidc_error");
+    if (!code && !ssoError) return;
+    window.history.replaceState(null, "", window.location.pathname);
+
+    if (ssoError) {
+      toast.error(ssoError);
+      return;
+    }
+
+    setLoading(true);
+    fetch("/api/auth/oidc/exchange", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code }),
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "SSO login failed");
+        localStorage.setItem(AUTH_TOKEN_KEY, data.token);
+        toast.success("Welcome to VipuDev.AI!");
+        onLogin();
+        setLocation("/");
+      })
+      .catch((error: Error) => toast.error(error.message))
+      .finally(() => setLoading(false));
+  }, [onLogin, setLocation]);
+
+  const isSignup = mode === "signup";
+
+  const switchMode = () => {
+    setMode(isSignup ? "signin" : "signup");
+    setConfirmPassword("");
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -21,10 +83,15 @@ export default function Login({ onLogin }: LoginProps) {
       return;
     }
 
+    if (isSignup && password !== confirmPassword) {
+      toast.error("Passwords do not match");
+      return;
+    }
+
     setLoading(true);
 
     try {
-      const res = await fetch("/api/auth/login", {
+      const res = await fetch(isSignup ? "/api/auth/signup" : "/api/auth/login", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ username, password }),
@@ -33,11 +100,11 @@ export default function Login({ onLogin }: LoginProps) {
       const data = await res.json();
 
       if (!res.ok) {
-        throw new Error(data.error || "Login failed");
+        throw new Error(data.error || (isSignup ? "Signup failed" : "Login failed"));
       }
 
-      localStorage.setItem("vipudev_auth", data.token);
-      toast.success("Welcome to VipuDev.AI!");
+      localStorage.setItem(AUTH_TOKEN_KEY, data.token);
+      toast.success(isSignup ? "Account created! Welcome to VipuDev.AI!" : "Welcome to VipuDev.AI!");
       onLogin();
       setLocation("/");
     } catch (error: any) {
@@ -73,7 +140,16 @@ export default function Login({ onLogin }: LoginProps) {
         </div>
 
         <div className="glass-card p-8">
-          <h2 className="text-xl font-bold text-white text-center mb-6">Sign In</h2>
+          <h2 className="text-xl font-bold text-white text-center mb-2">
+            {setup.needsSetup ? "Create Admin Account" : isSignup ? "Create Account" : "Sign In"}
+          </h2>
+          <p className="text-xs text-gray-500 text-center mb-6">
+            {setup.needsSetup
+              ? "No accounts exist yet. The first account becomes the administrator."
+              : isSignup
+              ? "Sign up to get your own workspace."
+              : "Sign in with your VipuDev.AI account."}
+          </p>
           
           <form onSubmit={handleLogin} className="space-y-4">
             <div>
@@ -107,6 +183,23 @@ export default function Login({ onLogin }: LoginProps) {
               </div>
             </div>
 
+            {isSignup && (
+              <div>
+                <label className="text-sm text-gray-400 block mb-2">Confirm Password</label>
+                <div className="relative">
+                  <Lock className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    placeholder="Repeat password"
+                    className="w-full bg-black/30 border border-white/10 rounded-lg pl-10 pr-4 py-3 text-white placeholder:text-gray-600 focus:outline-none focus:border-lime-400/50 transition-colors"
+                    data-testid="input-confirm-password"
+                  />
+                </div>
+              </div>
+            )}
+
             <button
               type="submit"
               disabled={loading}
@@ -115,12 +208,48 @@ export default function Login({ onLogin }: LoginProps) {
             >
               {loading ? (
                 <Loader2 className="w-5 h-5 animate-spin" />
+              ) : isSignup ? (
+                <UserPlus className="w-5 h-5" />
               ) : (
                 <Lock className="w-5 h-5" />
               )}
-              {loading ? "Signing in..." : "Sign In"}
+              {isSignup
+                ? loading ? "Creating account..." : "Create Account"
+                : loading ? "Signing in..." : "Sign In"}
             </button>
           </form>
+
+          {setup.sso && (!isSignup || setup.needsSetup) && (
+            <>
+              <div className="flex items-center gap-3 my-6">
+                <div className="flex-1 h-px bg-white/10" />
+                <span className="text-xs text-gray-500">or</span>
+                <div className="flex-1 h-px bg-white/10" />
+              </div>
+              <a
+                href="/api/auth/oidc/login"
+                className="w-full py-3 bg-black/30 border border-white/10 hover:border-lime-400/50 text-white font-medium rounded-lg transition-colors flex items-center justify-center gap-2"
+                data-testid="button-login-sso"
+              >
+                <KeyRound className="w-5 h-5 text-lime-400" />
+                Sign in with {setup.sso.providerName}
+              </a>
+            </>
+          )}
+
+          {!setup.needsSetup && setup.signupEnabled && (
+            <p className="text-center text-sm text-gray-500 mt-6">
+              {isSignup ? "Already have an account?" : "New to VipuDev.AI?"}{" "}
+              <button
+                type="button"
+                onClick={switchMode}
+                className="text-lime-400 hover:text-lime-300 font-medium transition-colors"
+                data-testid="button-switch-auth-mode"
+              >
+                {isSignup ? "Sign in" : "Create an account"}
+              </button>
+            </p>
+          )}
         </div>
 
         <p className="text-center text-gray-600 text-xs mt-6">
@@ -0,0 +1,20 @@
+import { sql } from "drizzle-orm";
+import { db } from "../server/db";
+
+// ========================================================
+// DATABASE PREPARATION - runs before `drizzle-kit push`
+// Extensions the schema depends on; drizzle-kit doesn't
+// create them. The trigram index on project_files.content
+// (code search) needs pg_trgm.
+// ========================================================
+async function prepare() {
+  await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+  console.log("pg_trgm extension ready");
+}
+
+prepare()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Database preparation failed:", error);
+    process.exit(1);
+  });
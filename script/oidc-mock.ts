@@ -0,0 +1,156 @@
+import crypto from "crypto";
+import http from "http";
+
+// ========================================================
+// MOCK OPENID CONNECT PROVIDER - local SSO testing only
+// Discovery, an authorize page that signs in any username,
+// a token endpoint (client secret + PKCE) and JWKS. Start it
+// with `npm run oidc:mock`, then run the app with:
+//   OIDC_DISCOVERY_URL=http://localhost:9400
+//   OIDC_CLIENT_ID=vipudev OIDC_CLIENT_SECRET=mock-secret
+//   OIDC_AUTO_PROVISION=true
+// ========================================================
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 9400;
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || "vipudev";
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || "mock-secret";
+const CODE_TTL_MS = 60 * 1000;
+const KEY_ID = "mock-key";
+
+interface IssuedCode {
+  redirectUri: string;
+  nonce: string | undefined;
+  codeChallenge: string;
+  username: string;
+  createdAt: number;
+}
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const codes = new Map<string, IssuedCode>();
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json", "Cache-Control": "no-store" });
+  res.end(JSON.stringify(body));
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function signIdToken(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+  const input = `${encode({ alg: "RS256", typ: "JWT", kid: KEY_ID })}.${encode(claims)}`;
+  return `${input}.${crypto.sign("sha256", Buffer.from(input), privateKey).toString("base64url")}`;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+}
+
+// Login page: any username signs in, so several accounts can be tried
+function authorize(url: URL, res: http.ServerResponse) {
+  const params = url.searchParams;
+  if (params.get("client_id") !== CLIENT_ID) return sendJson(res, 400, { error: "unauthorized_client" });
+  if (params.get("response_type") !== "code" || params.get("code_challenge_method") !== "S256") {
+    return sendJson(res, 400, { error: "invalid_request", error_description: "Expected code flow with S256 PKCE" });
+  }
+
+  const hidden = Array.from(params, ([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`);
+  res.writeHead(200, { "Content-Type": "text/html" });
+  res.end(`<!doctype html><title>Mock SSO</title>
+<form method="get" action="/authorize/approve" style="font-family:sans-serif;max-width:320px;margin:80px auto">
+  <h2>Mock SSO</h2>
+  <label>Username <input name="username" value="mockuser" autofocus></label>
+  ${hidden.join("\n  ")}
+  <p><button type="submit">Sign in</button></p>
+</form>`);
+}
+
+function approve(url: URL, res: http.ServerResponse) {
+  const params = url.searchParams;
+  const redirectUri = params.get("redirect_uri");
+  const codeChallenge = params.get("code_challenge");
+  const username = params.get("username")?.trim();
+  if (!redirectUri || !codeChallenge || !username) return sendJson(res, 400, { error: "invalid_request" });
+
+  const code = crypto.randomBytes(24).toString("base64url");
+  codes.set(code, { redirectUri, nonce: params.get("nonce") ?? undefined, codeChallenge, username, createdAt: Date.now() });
+
+  const target = new URL(redirectUri);
+  target.searchParams.set("code", code);
+  const state = params.get("state");
+  if (state) target.searchParams.set("state", state);
+  res.writeHead(302, { Location: target.toString() });
+  res.end();
+}
+
+async function token(req: http.IncomingMessage, res: http.ServerResponse) {
+  const [id, secret] = Buffer.from((req.headers.authorization ?? "").replace(/^Basic /, ""), "base64")
+    .toString("utf8")
+    .split(":")
+    .map(decodeURIComponent);
+  if (id !== CLIENT_ID || secret !== CLIENT_SECRET) return sendJson(res, 401, { error: "invalid_client" });
+
+  const body = await readBody(req);
+  const issued = codes.get(body.get("code") ?? "");
+  codes.delete(body.get("code") ?? "");
+  if (!issued || Date.now() - issued.createdAt > CODE_TTL_MS || issued.redirectUri !== body.get("redirect_uri")) {
+    return sendJson(res, 400, { error: "invalid_grant" });
+  }
+  const challenge = crypto.createHash("sha256").update(body.get("code_verifier") ?? "").digest("base64url");
+  if (challenge !== issued.codeChallenge) {
+    return sendJson(res, 400, { error: "invalid_grant", error_description: "PKCE verification failed" });
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  sendJson(res, 200, {
+    access_token: crypto.randomBytes(24).toString("base64url"),
+    token_type: "Bearer",
+    expires_in: 300,
+    id_token: signIdToken({
+      iss: ISSUER,
+      sub: `mock-${issued.username}`,
+      aud: CLIENT_ID,
+      iat: now,
+      exp: now + 300,
+      nonce: issued.nonce,
+      preferred_username: issued.username,
+      email: `${issued.username}@example.test`,
+      name: issued.username,
+    }),
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", ISSUER);
+  try {
+    if (req.method === "GET" && url.pathname === "/.well-known/openid-configuration") {
+      return sendJson(res, 200, {
+        issuer: ISSUER,
+        authorization_endpoint: `${ISSUER}/authorize`,
+        token_endpoint: `${ISSUER}/token`,
+        jwks_uri: `${ISSUER}/jwks`,
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        id_token_signing_alg_values_supported: ["RS256"],
+        code_challenge_methods_supported: ["S256"],
+      });
+    }
+    if (req.method === "GET" && url.pathname === "/jwks") {
+      return sendJson(res, 200, { keys: [{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID, alg: "RS256", use: "sig" }] });
+    }
+    if (req.method === "GET" && url.pathname === "/authorize") return authorize(url, res);
+    if (req.method === "GET" && url.pathname === "/authorize/approve") return approve(url, res);
+    if (req.method === "POST" && url.pathname === "/token") return await token(req, res);
+    sendJson(res, 404, { error: "not_found" });
+  } catch (error) {
+    console.error("Mock OIDC error:", error);
+    sendJson(res, 500, { error: "server_error" });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock OIDC provider at ${ISSUER} (client_id=${CLIENT_ID}, client_secret=${CLIENT_SECRET})`);
+});
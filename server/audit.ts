@@ -0,0 +1,38 @@
+import type { Request } from "express";
+import type { AuditAction, User } from "@shared/schema";
+import { storage } from "./storage";
+
+// ========================================================
+// AUDIT LOG
+// Records who did what, from where. Failures are logged and
+// swallowed - auditing must never break the request it describes.
+// ========================================================
+export function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+interface AuditOptions {
+  // Defaults to the authenticated user; pass explicitly for login events
+  user?: User | null;
+  username?: string;
+  details?: Record<string, unknown>;
+}
+
+export async function recordAuditEvent(
+  req: Request,
+  action: AuditAction,
+  options: AuditOptions = {},
+): Promise<void> {
+  const user = options.user !== undefined ? options.user : req.auth?.user ?? null;
+  try {
+    await storage.createAuditEvent({
+      userId: user?.id ?? null,
+      username: user?.username ?? options.username ?? null,
+      action,
+      ip: clientIp(req),
+      details: options.details ?? null,
+    });
+  } catch (err) {
+    console.error("Audit log error:", err);
+  }
+}
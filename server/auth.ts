@@ -0,0 +1,453 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import type { NextFunction, Request, Response } from "express";
+import type { ApiToken, ApiTokenScope, PublicUser, Session, User } from "@shared/schema";
+import { storage } from "./storage";
+import { OidcError, type OidcIdentity } from "./oidc";
+
+// Browser requests carry a session; scripted requests carry an API token instead
+export interface AuthContext {
+  user: User;
+  session?: Session;
+  apiToken?: ApiToken;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+const scryptAsync = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+) => Promise<Buffer>;
+
+// ========================================================
+// PASSWORD HASHING (scrypt)
+// Stored format: scrypt$<salt hex>$<hash hex>
+// ========================================================
+const KEY_LENGTH = 64;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const derived = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${derived.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const derived = await scryptAsync(password, salt, expected.length);
+  return derived.length === expected.length && crypto.timingSafeEqual(derived, expected);
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+// ========================================================
+// TOKENS & SESSIONS
+// Tokens are handed to the client once; only their SHA-256
+// hash is persisted in the sessions table.
+// ========================================================
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_HOURS) || 24 * 7) * 60 * 60 * 1000;
+
+// Avoid a DB write on every request - lastSeenAt only needs minute precision
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export function generateToken(): string {
+  return crypto.randomBytes(32).toString("hex");
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function getBearerToken(authorization: string | undefined): string | undefined {
+  if (!authorization?.startsWith("Bearer ")) return undefined;
+  return authorization.slice("Bearer ".length).trim() || undefined;
+}
+
+export async function createSession(
+  userId: string,
+  userAgent?: string,
+): Promise<{ token: string; session: Session }> {
+  const token = generateToken();
+  const session = await storage.createSession({
+    userId,
+    tokenHash: hashToken(token),
+    userAgent: userAgent?.slice(0, 255) || null,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  return { token, session };
+}
+
+export async function resolveSession(
+  token: string | undefined,
+): Promise<{ session: Session; user: User } | null> {
+  if (!token) return null;
+
+  const session = await storage.getSessionByTokenHash(hashToken(token));
+  if (!session) return null;
+
+  if (session.expiresAt.getTime() <= Date.now()) {
+    await storage.deleteSession(session.id);
+    return null;
+  }
+
+  const user = await storage.getUser(session.userId);
+  if (!user) return null;
+
+  if (Date.now() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+    await storage.touchSession(session.id);
+  }
+
+  return { session, user };
+}
+
+// Issue a fresh token for the same user and invalidate the old one
+export async function rotateSession(
+  session: Session,
+  userAgent?: string,
+): Promise<{ token: string; session: Session }> {
+  const rotated = await createSession(session.userId, userAgent);
+  await storage.deleteSession(session.id);
+  return rotated;
+}
+
+// ========================================================
+// SSO HANDOFF
+// The OIDC callback is a full-page redirect, so the new session
+// token can't go in a JSON body. Instead the browser gets a
+// short-lived one-time code and swaps it for the token.
+// ========================================================
+const LOGIN_HANDOFF_TTL_MS = 60 * 1000;
+
+interface LoginHandoff {
+  token: string;
+  session: Session;
+  user: User;
+  createdAt: number;
+}
+
+const loginHandoffs = new Map<string, LoginHandoff>();
+
+export function createLoginHandoff(token: string, session: Session, user: User): string {
+  const code = generateToken();
+  loginHandoffs.set(hashToken(code), { token, session, user, createdAt: Date.now() });
+  return code;
+}
+
+export function redeemLoginHandoff(code: string): LoginHandoff | null {
+  const key = hashToken(code);
+  const handoff = loginHandoffs.get(key);
+  loginHandoffs.delete(key);
+  if (!handoff || Date.now() - handoff.createdAt > LOGIN_HANDOFF_TTL_MS) return null;
+  return handoff;
+}
+
+export function pruneLoginHandoffs(): void {
+  const now = Date.now();
+  loginHandoffs.forEach((handoff, key) => {
+    if (now - handoff.createdAt > LOGIN_HANDOFF_TTL_MS) loginHandoffs.delete(key);
+  });
+}
+
+// ========================================================
+// API TOKENS (personal access tokens)
+// Format: vdai_<hex>. Like sessions, only the hash is stored.
+// ========================================================
+export const API_TOKEN_PREFIX = "vdai_";
+
+export function generateApiToken(): string {
+  return API_TOKEN_PREFIX + generateToken();
+}
+
+export async function resolveApiToken(
+  token: string,
+): Promise<{ apiToken: ApiToken; user: User } | null> {
+  const apiToken = await storage.getApiTokenByHash(hashToken(token));
+  if (!apiToken) return null;
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user) return null;
+
+  const lastUsed = apiToken.lastUsedAt?.getTime() ?? 0;
+  if (Date.now() - lastUsed > TOUCH_INTERVAL_MS) {
+    await storage.touchApiToken(apiToken.id);
+  }
+
+  return { apiToken, user };
+}
+
+// Routes an API token may call, and the scope each needs.
+// Anything not listed here is browser-session only.
+const API_TOKEN_ROUTES: { method: string; path: RegExp; scope: ApiTokenScope }[] = [
+  { method: "GET", path: /^\/api\/projects(\/[^/]+)?$/, scope: "projects:read" },
+  { method: "POST", path: /^\/api\/projects$/, scope: "projects:write" },
+  { method: "POST", path: /^\/api\/projects\/import$/, scope: "projects:write" },
+  { method: "PATCH", path: /^\/api\/projects\/[^/]+$/, scope: "projects:write" },
+  { method: "DELETE", path: /^\/api\/projects\/[^/]+$/, scope: "projects:write" },
+  { method: "PATCH", path: /^\/api\/projects\/[^/]+\/preferences$/, scope: "projects:write" },
+  { method: "POST", path: /^\/api\/projects\/[^/]+\/duplicate$/, scope: "projects:write" },
+  { method: "GET", path: /^\/api\/projects\/[^/]+\/export$/, scope: "projects:read" },
+  { method: "GET", path: /^\/api\/projects\/[^/]+\/files(\/.+)?$/, scope: "projects:read" },
+  { method: "PUT", path: /^\/api\/projects\/[^/]+\/files\/.+$/, scope: "projects:write" },
+  { method: "PATCH", path: /^\/api\/projects\/[^/]+\/files\/.+$/, scope: "projects:write" },
+  { method: "PATCH", path: /^\/api\/projects\/[^/]+\/files$/, scope: "projects:write" },
+  { method: "DELETE", path: /^\/api\/projects\/[^/]+\/files\/.+$/, scope: "projects:write" },
+  { method: "PATCH", path: /^\/api\/projects\/[^/]+\/folders\/.+$/, scope: "projects:write" },
+  { method: "GET", path: /^\/api\/projects\/[^/]+\/versions(\/\d+)?$/, scope: "projects:read" },
+  { method: "POST", path: /^\/api\/projects\/[^/]+\/versions\/\d+\/restore$/, scope: "projects:write" },
+  { method: "GET", path: /^\/api\/projects\/[^/]+\/git\/(status|log|branches|diff|export)$/, scope: "projects:read" },
+  { method: "POST", path: /^\/api\/projects\/[^/]+\/git\/(init|commit|branches|checkout)$/, scope: "projects:write" },
+  { method: "GET", path: /^\/api\/search\/code$/, scope: "projects:read" },
+  { method: "GET", path: /^\/api\/templates(\/[^/]+)?$/, scope: "projects:read" },
+  { method: "POST", path: /^\/api\/templates$/, scope: "projects:write" },
+  { method: "PATCH", path: /^\/api\/templates\/[^/]+$/, scope: "projects:write" },
+  { method: "DELETE", path: /^\/api\/templates\/[^/]+$/, scope: "projects:write" },
+  { method: "POST", path: /^\/api\/run$/, scope: "run:execute" },
+  { method: "POST", path: /^\/api\/build$/, scope: "build:generate" },
+  { method: "POST", path: /^\/api\/assistant\/chat$/, scope: "assistant:chat" },
+  { method: "POST", path: /^\/api\/assistant\/code-action$/, scope: "assistant:chat" },
+  { method: "POST", path: /^\/api\/assistant\/complete$/, scope: "assistant:chat" },
+];
+
+function requiredScope(method: string, path: string): ApiTokenScope | undefined {
+  return API_TOKEN_ROUTES.find((r) => r.method === method && r.path.test(path))?.scope;
+}
+
+// ========================================================
+// LOGIN THROTTLING
+// Failed logins are counted per IP and per username inside a
+// sliding window; hitting the limit locks that key out for a
+// while. In-memory, so limits reset when the server restarts.
+// ========================================================
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const LOGIN_LOCKOUT_MS = (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000;
+const MAX_FAILURES_PER_USERNAME = Number(process.env.LOGIN_MAX_ATTEMPTS) || 5;
+// Several people can share one IP (offices, NAT) - allow more attempts there
+const MAX_FAILURES_PER_IP = MAX_FAILURES_PER_USERNAME * 4;
+
+interface LoginAttempts {
+  failures: number;
+  windowStart: number;
+  lockedUntil: number;
+}
+
+const loginAttempts = new Map<string, LoginAttempts>();
+
+function throttleKeys(ip: string, username: string): [string, number][] {
+  return [
+    [`ip:${ip}`, MAX_FAILURES_PER_IP],
+    [`user:${username.toLowerCase()}`, MAX_FAILURES_PER_USERNAME],
+  ];
+}
+
+// Milliseconds until this IP/username may try again; 0 when not locked
+export function loginLockRemaining(ip: string, username: string): number {
+  const now = Date.now();
+  return Math.max(
+    0,
+    ...throttleKeys(ip, username).map(([key]) => (loginAttempts.get(key)?.lockedUntil ?? 0) - now),
+  );
+}
+
+export function recordLoginFailure(ip: string, username: string): void {
+  const now = Date.now();
+  for (const [key, max] of throttleKeys(ip, username)) {
+    let attempts = loginAttempts.get(key);
+    if (!attempts || now - attempts.windowStart > LOGIN_WINDOW_MS) {
+      attempts = { failures: 0, windowStart: now, lockedUntil: 0 };
+      loginAttempts.set(key, attempts);
+    }
+    attempts.failures++;
+    if (attempts.failures >= max) {
+      attempts.lockedUntil = now + LOGIN_LOCKOUT_MS;
+      attempts.failures = 0;
+      attempts.windowStart = now;
+    }
+  }
+}
+
+// A successful login clears the username's counter; the IP's keeps counting
+// so one valid account can't be used to reset guesses against others
+export function clearLoginFailures(username: string): void {
+  loginAttempts.delete(`user:${username.toLowerCase()}`);
+}
+
+export function pruneLoginAttempts(): void {
+  const now = Date.now();
+  loginAttempts.forEach((attempts, key) => {
+    if (attempts.lockedUntil <= now && now - attempts.windowStart > LOGIN_WINDOW_MS) {
+      loginAttempts.delete(key);
+    }
+  });
+}
+
+// ========================================================
+// AUTH MIDDLEWARE
+// Mounted on /api - everything except the allow-list below
+// requires a valid bearer token.
+// ========================================================
+const PUBLIC_API_ROUTES = new Set([
+  "/api/health",
+  "/api/auth/login",
+  "/api/auth/signup",
+  "/api/auth/setup",
+  "/api/auth/oidc/login",
+  "/api/auth/oidc/callback",
+  "/api/auth/oidc/exchange",
+]);
+
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const fullPath = req.baseUrl + req.path;
+  if (PUBLIC_API_ROUTES.has(fullPath)) {
+    return next();
+  }
+
+  try {
+    const token = getBearerToken(req.headers.authorization);
+
+    if (token?.startsWith(API_TOKEN_PREFIX)) {
+      const auth = await resolveApiToken(token);
+      if (!auth) {
+        return res.status(401).json({ error: "Invalid API token" });
+      }
+      const scope = requiredScope(req.method, fullPath);
+      if (!scope) {
+        return res.status(403).json({ error: "This endpoint is not available to API tokens" });
+      }
+      if (!auth.apiToken.scopes.includes(scope)) {
+        return res.status(403).json({ error: `API token is missing the "${scope}" scope` });
+      }
+      req.auth = auth;
+      return next();
+    }
+
+    const auth = await resolveSession(token);
+    if (!auth) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    req.auth = auth;
+    next();
+  } catch (error) {
+    console.error("Auth middleware error:", error);
+    res.status(500).json({ error: "Failed to authenticate request" });
+  }
+}
+
+// Only valid behind requireAuth
+export function currentUser(req: Request): User {
+  if (!req.auth) {
+    throw new Error("currentUser() called on an unauthenticated request");
+  }
+  return req.auth.user;
+}
+
+// Mount after requireAuth on routes reserved for instance admins
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.auth?.user.role !== "admin") {
+    return res.status(403).json({ error: "Admin access required" });
+  }
+  next();
+}
+
+// Only valid on routes API tokens cannot reach
+export function currentSession(req: Request): Session {
+  if (!req.auth?.session) {
+    throw new Error("currentSession() called on a request without a browser session");
+  }
+  return req.auth.session;
+}
+
+// ========================================================
+// FIRST ADMIN BOOTSTRAP
+// If the users table is empty and ADMIN_USERNAME / ADMIN_PASSWORD
+// are set, create that account as the first admin. Otherwise the
+// first person to sign up through Login.tsx becomes the admin.
+// Either way the first admin adopts rows that predate accounts.
+// ========================================================
+export async function bootstrapAdmin(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  try {
+    if ((await storage.countUsers()) > 0) return;
+    const admin = await storage.createUser({
+      username,
+      password: await hashPassword(password),
+      role: "admin",
+    });
+    await storage.adoptUnownedRecords(admin.id);
+    console.log(`Bootstrapped admin account "${username}"`);
+  } catch (err) {
+    console.error("Admin bootstrap error:", err);
+  }
+}
+
+// ========================================================
+// SSO ACCOUNTS
+// An OIDC identity (issuer + subject) maps to exactly one user.
+// OIDC_LINK_EXISTING=true attaches a new identity to an unlinked
+// account with the same username - only enable it if the IdP's
+// usernames are trusted. Otherwise new identities get a fresh
+// account, but only while signup is open or OIDC_AUTO_PROVISION
+// is set - anyone the IdP lets in could sign up otherwise.
+// ========================================================
+function usernameFromIdentity(identity: OidcIdentity): string {
+  const raw = identity.preferredUsername || identity.email?.split("@")[0] || identity.subject;
+  const cleaned = raw.replace(/[^a-zA-Z0-9_.-]/g, "").slice(0, 32);
+  return cleaned.length >= 3 ? cleaned : `sso-${crypto.randomBytes(3).toString("hex")}`;
+}
+
+export async function findOrCreateOidcUser(identity: OidcIdentity): Promise<User> {
+  const linked = await storage.getUserByOidcIdentity(identity.issuer, identity.subject);
+  if (linked) return linked;
+
+  const base = usernameFromIdentity(identity);
+  let taken = await storage.getUserByUsername(base);
+  if (taken && !taken.oidcSubject && process.env.OIDC_LINK_EXISTING === "true") {
+    return storage.linkOidcIdentity(taken.id, identity.issuer, identity.subject);
+  }
+  if (!oidcProvisioningEnabled()) {
+    throw new OidcError("No account is linked to this SSO login - ask an admin to set one up for you");
+  }
+
+  let username = base;
+  for (let n = 2; taken; n++) {
+    username = `${base.slice(0, 28)}-${n}`;
+    taken = await storage.getUserByUsername(username);
+  }
+
+  const isFirstUser = (await storage.countUsers()) === 0;
+  const user = await storage.createUser({
+    username,
+    password: null,
+    role: isFirstUser ? "admin" : "member",
+    oidcIssuer: identity.issuer,
+    oidcSubject: identity.subject,
+  });
+  if (isFirstUser) {
+    await storage.adoptUnownedRecords(user.id);
+  }
+  return user;
+}
+
+// Closed unless opted in - a signed-up account can run code on the server.
+// The first account is always allowed; after that admins create accounts.
+export function signupEnabled(): boolean {
+  return process.env.ALLOW_SIGNUP === "true";
+}
+
+function oidcProvisioningEnabled(): boolean {
+  return signupEnabled() || process.env.OIDC_AUTO_PROVISION === "true";
+}
@@ -0,0 +1,157 @@
+import { RE2JS } from "re2js";
+import type { CodeSearchMatch, CodeSearchQuery } from "@shared/schema";
+
+// ========================================================
+// CODE SEARCH
+// Postgres narrows the files down with plain substring filters
+// (trigram index on content); every match, regex or not, is
+// found here. The database never runs a user's regex - its
+// dialect treats ^, $ and \b differently from RE2.
+// ========================================================
+export class CodeSearchError extends Error {}
+
+// Minified files can have megabyte-long lines - show a window around the hit
+const MAX_LINE_CHARS = 300;
+
+// Candidate files read per database round trip, and at most per search
+export const CODE_SEARCH_BATCH_FILES = 200;
+export const CODE_SEARCH_MAX_FILES = 5000;
+
+// First hit in a line, if any
+export type SearchPattern = (line: string) => { index: number; length: number } | null;
+
+// User regexes run on RE2, which matches in linear time - a backtracking
+// pattern like (a+)+$ can't stall the server. Literal text is escaped and safe
+// as a plain RegExp.
+export function compileSearchPattern(query: CodeSearchQuery): SearchPattern {
+  if (!query.regex) {
+    const literal = new RegExp(query.q.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), query.caseSensitive ? "" : "i");
+    return (line) => {
+      const hit = literal.exec(line);
+      return hit && { index: hit.index, length: hit[0].length };
+    };
+  }
+
+  let pattern: RE2JS;
+  try {
+    pattern = RE2JS.compile(query.q, query.caseSensitive ? 0 : RE2JS.CASE_INSENSITIVE);
+  } catch (error: any) {
+    // e.g. "error parsing regexp: missing closing ): `(`"
+    throw new CodeSearchError(`Invalid regular expression: ${error.message}`);
+  }
+  return (line) => {
+    const matcher = pattern.matcher(line);
+    return matcher.find() ? { index: matcher.start(), length: matcher.end() - matcher.start() } : null;
+  };
+}
+
+// Shorter fragments can't use the trigram index
+const MIN_TERM_CHARS = 3;
+const MAX_TERMS = 3;
+
+// Literal runs every match of an RE2 pattern must contain, for the database
+// prefilter. Conservative: anything unclear ends the current run, and
+// alternation (or \Q...\E quoting) gives no terms - the files are then scanned.
+function requiredLiterals(pattern: string): string[] {
+  if (pattern.includes("|") || pattern.includes("\\Q")) return [];
+
+  const runs: string[] = [];
+  let run = "";
+  let depth = 0;
+  const flush = () => {
+    if (run) runs.push(run);
+    run = "";
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    let literal: string | null = null;
+
+    if (char === "\\") {
+      const next = pattern[++i] ?? "";
+      if (/[^A-Za-z0-9]/.test(next)) {
+        literal = next;
+      } else if ((next === "p" || next === "P" || next === "x") && pattern[i + 1] === "{") {
+        i = Math.max(i, pattern.indexOf("}", i));
+      } else if (next === "p" || next === "P") {
+        i += 1;
+      } else if (next === "x") {
+        i += 2;
+      } else {
+        while (/[0-9]/.test(pattern[i + 1] ?? "")) i++;
+      }
+    } else if (char === "[") {
+      // Skip the class; "]" right after "[" or "[^" is a member, not the end
+      let j = i + 1;
+      if (pattern[j] === "^") j++;
+      if (pattern[j] === "]") j++;
+      while (j < pattern.length && pattern[j] !== "]") j += pattern[j] === "\\" ? 2 : 1;
+      i = j;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth = Math.max(0, depth - 1);
+    } else if (char === "?" || char === "*" || char === "{") {
+      // The previous character is optional
+      run = run.slice(0, -1);
+      if (char === "{") {
+        const repeat = /^\{\d+(,\d*)?\}/.exec(pattern.slice(i));
+        if (repeat) i += repeat[0].length - 1;
+      }
+    } else if (char !== "+" && char !== "." && char !== "^" && char !== "$") {
+      literal = char;
+    }
+
+    if (literal !== null && depth === 0) {
+      run += literal;
+    } else {
+      // "+" keeps the character but what follows may repeat it
+      flush();
+    }
+    if (/[?*+}]/.test(char) && pattern[i + 1] === "?") i++;
+  }
+  flush();
+
+  return runs
+    .filter((term) => term.length >= MIN_TERM_CHARS)
+    .sort((a, b) => b.length - a.length)
+    .slice(0, MAX_TERMS);
+}
+
+// Substrings a file must contain to be worth scanning; [] means scan every file
+export function searchTerms(query: CodeSearchQuery): string[] {
+  return query.regex ? requiredLiterals(query.q) : [query.q];
+}
+
+// The clipped line and where `start` ended up in it
+function clip(line: string, start = 0): [string, number] {
+  if (line.length <= MAX_LINE_CHARS) return [line, start];
+  const from = Math.max(0, Math.min(start - MAX_LINE_CHARS / 3, line.length - MAX_LINE_CHARS));
+  const prefix = from > 0 ? "…" : "";
+  const suffix = from + MAX_LINE_CHARS < line.length ? "…" : "";
+  return [prefix + line.slice(from, from + MAX_LINE_CHARS) + suffix, start - from + prefix.length];
+}
+
+// First hit on each matching line, up to `max` lines
+export function findMatches(content: string, pattern: SearchPattern, context: number, max: number): CodeSearchMatch[] {
+  const lines = content.split(/\r?\n/);
+  const matches: CodeSearchMatch[] = [];
+
+  for (let i = 0; i < lines.length && matches.length < max; i++) {
+    const hit = pattern(lines[i]);
+    // Zero-width matches (e.g. "^") would flag every line
+    if (!hit || hit.length === 0) continue;
+
+    const [text, textStart] = clip(lines[i], hit.index);
+    matches.push({
+      line: i + 1,
+      column: hit.index + 1,
+      length: hit.length,
+      text,
+      textStart,
+      before: lines.slice(Math.max(0, i - context), i).map((l) => clip(l)[0]),
+      after: lines.slice(i + 1, i + 1 + context).map((l) => clip(l)[0]),
+    });
+  }
+  return matches;
+}
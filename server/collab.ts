@@ -0,0 +1,537 @@
+import crypto from "crypto";
+import type { Server } from "http";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { z } from "zod";
+import * as Y from "yjs";
+import * as syncProtocol from "y-protocols/sync";
+import * as awarenessProtocol from "y-protocols/awareness";
+import * as encoding from "lib0/encoding";
+import * as decoding from "lib0/decoding";
+import {
+  COLLAB_CLOSE_FORBIDDEN,
+  COLLAB_CLOSE_NOT_FOUND,
+  COLLAB_CLOSE_SESSION_ROTATED,
+  COLLAB_CLOSE_UNAUTHORIZED,
+  collabClientMessageSchema,
+  hasProjectRole,
+  languageForPath,
+  projectFilePathSchema,
+  type CollabPeer,
+  type CollabServerMessage,
+  type ProjectAccessRole,
+  type ProjectFile,
+  type User,
+} from "@shared/schema";
+import { resolveSession } from "./auth";
+import { storage } from "./storage";
+
+// ========================================================
+// REAL-TIME COLLABORATION
+// Everyone with a project open in the editor shares one room:
+// a Yjs doc with a Y.Text per file, synced over a WebSocket.
+// The room is the only writer of buffer edits - it saves them
+// once editing goes quiet, on request, and when the last person
+// leaves. REST writes to the same files go through collabWrite
+// so the room saves first and then merges the result back in.
+// ========================================================
+const COLLAB_PATH = /^\/api\/collab\/([^/]+)$/;
+const AUTH_TIMEOUT_MS = 10_000;
+const SAVE_DELAY_MS = 2000;
+// A reconnecting client sends every edit it made offline in one frame
+const MAX_PAYLOAD_BYTES = 8 * 1024 * 1024;
+// Longest delay setTimeout accepts
+const MAX_TIMER_MS = 2 ** 31 - 1;
+// An empty room stays in memory this long so people who drop off briefly can
+// rejoin the same doc and have their offline edits merged
+const ROOM_IDLE_MS = 10 * 60 * 1000;
+// Must match the .collab-color-* classes in client/src/index.css
+const CURSOR_COLORS = 8;
+
+// Binary frame tags, as used by y-websocket
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+// Transaction origin for changes that came from storage rather than a client
+const STORAGE_ORIGIN = Symbol("storage");
+
+interface CollabClient {
+  user: User;
+  role: ProjectAccessRole;
+  // The session the socket signed in with - closed with it
+  sessionId: string;
+  sessionExpiresAt: Date;
+  expiryTimer: NodeJS.Timeout | null;
+  // The only awareness (cursor) state this socket may set, dropped when it leaves
+  clientId: number;
+}
+
+interface Room {
+  // New for every room - tells clients whether their doc still belongs to it
+  id: string;
+  projectId: string;
+  doc: Y.Doc;
+  files: Y.Map<Y.Text>;
+  awareness: awarenessProtocol.Awareness;
+  clients: Map<WebSocket, CollabClient>;
+  // What storage holds, by path
+  stored: Map<string, ProjectFile>;
+  // Author of the edits waiting to be saved
+  lastEditor: string | null;
+  saveTimer: NodeJS.Timeout | null;
+  closeTimer: NodeJS.Timeout | null;
+  // Saves and reloads run one at a time
+  queue: Promise<void>;
+}
+
+const rooms = new Map<string, Room>();
+const loadingRooms = new Map<string, Promise<Room>>();
+
+function cursorColor(userId: string): number {
+  let hash = 0;
+  for (const char of userId) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return Math.abs(hash) % CURSOR_COLORS;
+}
+
+function send(ws: WebSocket, message: CollabServerMessage | Uint8Array) {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  ws.send(message instanceof Uint8Array ? message : JSON.stringify(message));
+}
+
+function broadcast(room: Room, message: CollabServerMessage | Uint8Array, except?: WebSocket) {
+  room.clients.forEach((_client, ws) => {
+    if (ws !== except) send(ws, message);
+  });
+}
+
+function syncFrame(write: (encoder: encoding.Encoder) => void): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_SYNC);
+  write(encoder);
+  return encoding.toUint8Array(encoder);
+}
+
+function awarenessFrame(room: Room, clientIds: number[]): Uint8Array {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+  encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(room.awareness, clientIds));
+  return encoding.toUint8Array(encoder);
+}
+
+function peers(room: Room): CollabPeer[] {
+  return Array.from(room.clients.values(), (client) => ({
+    clientId: client.clientId,
+    userId: client.user.id,
+    username: client.user.username,
+    color: cursorColor(client.user.id),
+  }));
+}
+
+function storedContent(files: Iterable<ProjectFile>): Record<string, string> {
+  return Object.fromEntries(Array.from(files, (f) => [f.path, f.content]));
+}
+
+// Rewrites only the span that differs, so edits elsewhere in the file survive
+function replaceText(text: Y.Text, next: string) {
+  const current = text.toString();
+  let start = 0;
+  while (start < current.length && start < next.length && current[start] === next[start]) start++;
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < next.length - start &&
+    current[current.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+  if (current.length - start - end > 0) text.delete(start, current.length - start - end);
+  if (next.length - start - end > 0) text.insert(start, next.slice(start, next.length - end));
+}
+
+// Clients can put anything into the shared map; only Y.Text values under
+// paths the REST routes would accept count as files
+function isFileEntry(path: string, value: unknown): value is Y.Text {
+  const parsed = projectFilePathSchema.safeParse(path);
+  return value instanceof Y.Text && parsed.success && parsed.data === path;
+}
+
+function enqueue(room: Room, task: () => Promise<void>): Promise<void> {
+  const result = room.queue.then(task);
+  room.queue = result.catch(() => {});
+  return result;
+}
+
+async function loadRoom(projectId: string): Promise<Room> {
+  const stored = await storage.getProjectFiles(projectId);
+  const doc = new Y.Doc();
+  const files = doc.getMap<Y.Text>("files");
+  doc.transact(() => {
+    for (const file of stored) files.set(file.path, new Y.Text(file.content));
+  }, STORAGE_ORIGIN);
+
+  const awareness = new awarenessProtocol.Awareness(doc);
+  // The server has no cursor of its own
+  awareness.setLocalState(null);
+
+  const room: Room = {
+    id: crypto.randomUUID(),
+    projectId,
+    doc,
+    files,
+    awareness,
+    clients: new Map(),
+    stored: new Map(stored.map((f) => [f.path, f])),
+    lastEditor: null,
+    saveTimer: null,
+    closeTimer: null,
+    queue: Promise.resolve(),
+  };
+
+  files.observe((event, transaction) => {
+    if (transaction.origin === STORAGE_ORIGIN) return;
+    const invalid = Array.from(event.keysChanged).filter((path) => files.has(path) && !isFileEntry(path, files.get(path)));
+    if (invalid.length === 0) return;
+    // Removing them here syncs the removal back to every client, including the sender
+    doc.transact(() => invalid.forEach((path) => files.delete(path)), STORAGE_ORIGIN);
+  });
+
+  doc.on("update", (update: Uint8Array, origin: unknown) => {
+    const sender = origin instanceof WebSocket ? origin : undefined;
+    broadcast(room, syncFrame((encoder) => syncProtocol.writeUpdate(encoder, update)), sender);
+    if (origin === STORAGE_ORIGIN) return;
+    room.lastEditor = (sender && room.clients.get(sender)?.user.id) ?? room.lastEditor;
+    scheduleSave(room);
+  });
+
+  awareness.on("update", ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }) => {
+    broadcast(room, awarenessFrame(room, [...added, ...updated, ...removed]));
+  });
+
+  return room;
+}
+
+async function getRoom(projectId: string): Promise<Room> {
+  const open = rooms.get(projectId);
+  if (open) return open;
+
+  let loading = loadingRooms.get(projectId);
+  if (!loading) {
+    loading = loadRoom(projectId)
+      .then((room) => {
+        rooms.set(projectId, room);
+        return room;
+      })
+      .finally(() => loadingRooms.delete(projectId));
+    loadingRooms.set(projectId, loading);
+  }
+  return loading;
+}
+
+function scheduleSave(room: Room) {
+  if (room.saveTimer) clearTimeout(room.saveTimer);
+  room.saveTimer = setTimeout(() => {
+    room.saveTimer = null;
+    saveRoom(room).catch((error) => {
+      console.error("Collaboration save error:", error);
+      broadcast(room, { type: "error", error: "Failed to save changes - they are kept in the session" });
+    });
+  }, SAVE_DELAY_MS);
+}
+
+// Writes every buffer that differs from storage, and every stored file no longer
+// in the doc, as one version
+function saveRoom(room: Room, request?: { ws: WebSocket; message?: string }): Promise<void> {
+  if (room.saveTimer) {
+    clearTimeout(room.saveTimer);
+    room.saveTimer = null;
+  }
+
+  return enqueue(room, async () => {
+    const requester = request && room.clients.get(request.ws);
+    const changed: ProjectFile[] = [];
+    room.files.forEach((text, path) => {
+      if (!isFileEntry(path, text)) return;
+      const content = text.toString();
+      const before = room.stored.get(path);
+      if (before?.content !== content) {
+        changed.push({ path, content, language: before?.language ?? languageForPath(path) });
+      }
+    });
+    const deleted = Array.from(room.stored.keys()).filter((path) => !isFileEntry(path, room.files.get(path)));
+
+    const userId = requester?.user.id ?? room.lastEditor;
+    if ((changed.length === 0 && deleted.length === 0) || !userId) {
+      if (request && requester) send(request.ws, { type: "saved", files: {}, deleted: [], by: requester.clientId });
+      return;
+    }
+
+    const message = request ? request.message : "Autosaved edits";
+    await storage.saveProjectFiles(room.projectId, { files: changed, deleted, message, autosave: !request }, userId);
+    for (const file of changed) room.stored.set(file.path, file);
+    for (const path of deleted) room.stored.delete(path);
+    broadcast(room, { type: "saved", files: storedContent(changed), deleted, by: requester?.clientId ?? null });
+  });
+}
+
+// Merges what storage now holds into the buffers, as edits on top of whatever is there
+function reloadRoom(room: Room): Promise<void> {
+  return enqueue(room, async () => {
+    const stored = await storage.getProjectFiles(room.projectId);
+    const next = new Map(stored.map((f) => [f.path, f]));
+    const changed = stored.filter((f) => room.stored.get(f.path)?.content !== f.content);
+    const deleted = Array.from(room.stored.keys()).filter((path) => !next.has(path));
+
+    room.doc.transact(() => {
+      for (const file of changed) {
+        const text = room.files.get(file.path);
+        if (text && isFileEntry(file.path, text)) replaceText(text, file.content);
+        else room.files.set(file.path, new Y.Text(file.content));
+      }
+      for (const path of deleted) room.files.delete(path);
+    }, STORAGE_ORIGIN);
+
+    room.stored = next;
+    if (changed.length || deleted.length) {
+      broadcast(room, { type: "saved", files: storedContent(changed), deleted, by: null });
+    }
+  });
+}
+
+async function join(ws: WebSocket, projectId: string, token: string, clientId: number): Promise<Room | null> {
+  const auth = await resolveSession(token);
+  if (!auth) {
+    ws.close(COLLAB_CLOSE_UNAUTHORIZED, "Authentication required");
+    return null;
+  }
+  const access = await storage.getProjectAccess(auth.user.id, projectId);
+  if (!access) {
+    ws.close(COLLAB_CLOSE_NOT_FOUND, "Project not found");
+    return null;
+  }
+
+  const room = await getRoom(projectId);
+  // Gave up while the room was loading
+  if (ws.readyState !== WebSocket.OPEN) return null;
+
+  for (const [other, client] of Array.from(room.clients)) {
+    if (client.clientId !== clientId) continue;
+    if (client.user.id !== auth.user.id) {
+      ws.close(COLLAB_CLOSE_FORBIDDEN, "Client id already in use");
+      return null;
+    }
+    // The same editor reconnecting before its old socket was noticed as gone
+    other.close(1000, "Replaced by a new connection");
+  }
+
+  if (room.closeTimer) {
+    clearTimeout(room.closeTimer);
+    room.closeTimer = null;
+  }
+  const client: CollabClient = {
+    user: auth.user,
+    role: access.role,
+    sessionId: auth.session.id,
+    sessionExpiresAt: auth.session.expiresAt,
+    expiryTimer: null,
+    clientId,
+  };
+  room.clients.set(ws, client);
+  watchExpiry(ws, client);
+  send(ws, { type: "ready", roomId: room.id, role: access.role, saved: storedContent(room.stored.values()) });
+  send(ws, syncFrame((encoder) => syncProtocol.writeSyncStep1(encoder, room.doc)));
+  const cursors = Array.from(room.awareness.getStates().keys());
+  if (cursors.length) send(ws, awarenessFrame(room, cursors));
+  broadcast(room, { type: "presence", peers: peers(room) });
+  return room;
+}
+
+async function leave(room: Room, ws: WebSocket) {
+  const client = room.clients.get(ws);
+  if (!client) return;
+  room.clients.delete(ws);
+  if (client.expiryTimer) clearTimeout(client.expiryTimer);
+  // Unless a newer socket of the same editor has taken the cursor over
+  if (!Array.from(room.clients.values()).some((other) => other.clientId === client.clientId)) {
+    awarenessProtocol.removeAwarenessStates(room.awareness, [client.clientId], null);
+  }
+  broadcast(room, { type: "presence", peers: peers(room) });
+  if (room.clients.size > 0) return;
+
+  try {
+    await saveRoom(room);
+  } catch (error) {
+    console.error("Collaboration save error:", error);
+  }
+  // Someone may have joined while the last edits were saved
+  if (room.clients.size > 0 || room.closeTimer) return;
+  room.closeTimer = setTimeout(() => {
+    if (room.clients.size === 0 && rooms.get(room.projectId) === room) closeRoom(room);
+  }, ROOM_IDLE_MS);
+}
+
+// Closes the socket once the session it signed in with runs out
+function watchExpiry(ws: WebSocket, client: CollabClient) {
+  const remaining = client.sessionExpiresAt.getTime() - Date.now();
+  if (remaining <= 0) {
+    client.expiryTimer = null;
+    ws.close(COLLAB_CLOSE_UNAUTHORIZED, "Session expired");
+    return;
+  }
+  client.expiryTimer = setTimeout(() => watchExpiry(ws, client), Math.min(remaining, MAX_TIMER_MS));
+}
+
+// Awareness updates are a list of (clientId, clock, state) entries; only the
+// sender's own entry is kept so nobody can move or clear someone else's cursor
+function ownAwarenessUpdate(update: Uint8Array, clientId: number): Uint8Array | null {
+  const decoder = decoding.createDecoder(update);
+  const entries: { clock: number; state: string }[] = [];
+  const count = decoding.readVarUint(decoder);
+  for (let i = 0; i < count; i++) {
+    const id = decoding.readVarUint(decoder);
+    const clock = decoding.readVarUint(decoder);
+    const state = decoding.readVarString(decoder);
+    if (id === clientId) entries.push({ clock, state });
+  }
+  if (entries.length === 0) return null;
+
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, entries.length);
+  for (const { clock, state } of entries) {
+    encoding.writeVarUint(encoder, clientId);
+    encoding.writeVarUint(encoder, clock);
+    encoding.writeVarString(encoder, state);
+  }
+  return encoding.toUint8Array(encoder);
+}
+
+function closeRoom(room: Room) {
+  rooms.delete(room.projectId);
+  if (room.saveTimer) clearTimeout(room.saveTimer);
+  if (room.closeTimer) clearTimeout(room.closeTimer);
+  room.doc.destroy();
+}
+
+function receive(room: Room, ws: WebSocket, data: Uint8Array) {
+  const client = room.clients.get(ws);
+  if (!client) return;
+
+  const decoder = decoding.createDecoder(data);
+  const tag = decoding.readVarUint(decoder);
+  if (tag === MESSAGE_SYNC) {
+    const syncType = decoding.readVarUint(decoder);
+    if (syncType === syncProtocol.messageYjsSyncStep1) {
+      send(ws, syncFrame((encoder) => syncProtocol.readSyncStep1(decoder, encoder, room.doc)));
+    } else if (hasProjectRole(client.role, "editor")) {
+      // Step 2 and updates carry edits - viewers' are ignored
+      if (syncType === syncProtocol.messageYjsSyncStep2) syncProtocol.readSyncStep2(decoder, room.doc, ws);
+      else syncProtocol.readUpdate(decoder, room.doc, ws);
+    }
+  } else if (tag === MESSAGE_AWARENESS) {
+    const update = ownAwarenessUpdate(decoding.readVarUint8Array(decoder), client.clientId);
+    if (update) awarenessProtocol.applyAwarenessUpdate(room.awareness, update, ws);
+  }
+}
+
+function toBytes(data: RawData): Uint8Array {
+  if (Array.isArray(data)) return Buffer.concat(data);
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+}
+
+function handleConnection(ws: WebSocket, projectId: string) {
+  let room: Room | null = null;
+  let joining = false;
+  const authTimer = setTimeout(() => ws.close(COLLAB_CLOSE_UNAUTHORIZED, "Authentication timed out"), AUTH_TIMEOUT_MS);
+
+  ws.on("message", async (data, isBinary) => {
+    try {
+      if (isBinary) {
+        if (room) receive(room, ws, toBytes(data));
+        return;
+      }
+
+      const message = collabClientMessageSchema.parse(JSON.parse(data.toString()));
+      if (message.type === "auth") {
+        if (joining) return;
+        joining = true;
+        clearTimeout(authTimer);
+        room = await join(ws, projectId, message.token, message.clientId);
+      } else if (room) {
+        const client = room.clients.get(ws);
+        if (!client || !hasProjectRole(client.role, "editor")) {
+          return send(ws, { type: "error", error: "You have view-only access to this project" });
+        }
+        await saveRoom(room, { ws, message: message.message });
+      }
+    } catch (error) {
+      if (error instanceof SyntaxError || error instanceof z.ZodError) {
+        return send(ws, { type: "error", error: "Invalid message" });
+      }
+      console.error("Collaboration error:", error);
+      send(ws, { type: "error", error: room ? "Failed to save changes" : "Failed to open the session" });
+      if (!room) ws.close(1011, "Server error");
+    }
+  });
+
+  ws.on("close", () => {
+    clearTimeout(authTimer);
+    if (room) void leave(room, ws);
+  });
+}
+
+export function setupCollaboration(httpServer: Server): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    const match = COLLAB_PATH.exec(new URL(req.url ?? "/", "http://localhost").pathname);
+    // Not ours - e.g. Vite's HMR socket in development
+    if (!match) return;
+    wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, decodeURIComponent(match[1])));
+  });
+}
+
+// Runs a REST write to a project's files without losing edits from an open session:
+// pending buffer edits are saved first, then the stored result is merged back in
+export async function collabWrite<T>(projectId: string, write: () => Promise<T>): Promise<T> {
+  const before = rooms.get(projectId) ?? (await loadingRooms.get(projectId)?.catch(() => undefined));
+  if (before) await saveRoom(before);
+  const result = await write();
+  const after = rooms.get(projectId);
+  if (after) await reloadRoom(after);
+  return result;
+}
+
+// Membership changed - drop people who lost access, and reconnect the rest with their new role
+export async function refreshCollabAccess(projectId: string): Promise<void> {
+  const room = rooms.get(projectId);
+  if (!room) return;
+  for (const [ws, client] of Array.from(room.clients)) {
+    const access = await storage.getProjectAccess(client.user.id, projectId);
+    if (!access) ws.close(COLLAB_CLOSE_FORBIDDEN, "Access removed");
+    else if (access.role !== client.role) {
+      client.role = access.role;
+      send(ws, { type: "ready", roomId: room.id, role: access.role, saved: storedContent(room.stored.values()) });
+    }
+  }
+}
+
+export function closeCollabProject(projectId: string): void {
+  const room = rooms.get(projectId);
+  if (!room) return;
+  const sockets = Array.from(room.clients.keys());
+  room.clients.forEach((client) => {
+    if (client.expiryTimer) clearTimeout(client.expiryTimer);
+  });
+  room.clients.clear();
+  sockets.forEach((ws) => ws.close(COLLAB_CLOSE_NOT_FOUND, "Project deleted"));
+  closeRoom(room);
+}
+
+// Signed out (or the token was swapped) - close the sockets opened with those sessions
+export function closeCollabSessions(userId: string, sessionId?: string, rotated = false): void {
+  rooms.forEach((room) => {
+    room.clients.forEach((client, ws) => {
+      if (client.user.id !== userId || (sessionId && client.sessionId !== sessionId)) return;
+      if (rotated) ws.close(COLLAB_CLOSE_SESSION_ROTATED, "Session token changed");
+      else ws.close(COLLAB_CLOSE_UNAUTHORIZED, "Signed out");
+    });
+  });
+}
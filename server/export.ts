@@ -0,0 +1,97 @@
+import zlib from "zlib";
+import AdmZip from "adm-zip";
+import type { Project, ProjectFile } from "@shared/schema";
+
+// ========================================================
+// PROJECT EXPORT
+// Archives a saved project's files under one top-level folder.
+// The tar writer is minimal ustar (plus pax headers for long or
+// non-ASCII paths) - plenty for text files, no dependency needed.
+// ========================================================
+export type ExportEntry = { path: string; content: string };
+
+// Adds a README.md describing the project unless it already has one
+export function withGeneratedReadme(project: Project, files: ProjectFile[]): ExportEntry[] {
+  if (files.some((f) => f.path.toLowerCase() === "readme.md")) return files;
+
+  const readme = [
+    `# ${project.name}`,
+    "",
+    ...(project.description ? [project.description, ""] : []),
+    "## Files",
+    "",
+    ...files.map((f) => `- \`${f.path}\``),
+    "",
+    `_Exported from VipuDevAI Studio on ${new Date().toISOString().slice(0, 10)}._`,
+    "",
+  ].join("\n");
+  return [{ path: "README.md", content: readme }, ...files];
+}
+
+export function buildZip(root: string, entries: ExportEntry[]): Buffer {
+  const zip = new AdmZip();
+  for (const entry of entries) {
+    zip.addFile(`${root}/${entry.path}`, Buffer.from(entry.content, "utf8"));
+  }
+  return zip.toBuffer();
+}
+
+const BLOCK = 512;
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  header.write(value.toString(8).padStart(length - 1, "0") + "\0", offset, length, "ascii");
+}
+
+function tarHeader(name: string, size: number, mtime: number, type: "0" | "x"): Buffer {
+  const header = Buffer.alloc(BLOCK);
+  header.write(name, 0, 100, "utf8");
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  header.fill(" ", 148, 156);
+  header.write(type, 156, 1, "ascii");
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8, "ascii");
+  return header;
+}
+
+// "<length> path=<path>\n", where length counts its own digits
+function paxPathRecord(path: string): Buffer {
+  const body = ` path=${path}\n`;
+  const bodyLength = Buffer.byteLength(body);
+  let length = bodyLength + 1;
+  while (String(length).length + bodyLength !== length) length++;
+  return Buffer.from(`${length}${body}`, "utf8");
+}
+
+const padding = (size: number) => Buffer.alloc((BLOCK - (size % BLOCK)) % BLOCK);
+
+// Writes a gzipped tarball to `out` and ends it
+export function streamTarGz(root: string, entries: ExportEntry[], out: NodeJS.WritableStream): void {
+  const gzip = zlib.createGzip();
+  gzip.pipe(out);
+  const mtime = Math.floor(Date.now() / 1000);
+
+  for (const entry of entries) {
+    const name = `${root}/${entry.path}`;
+    const data = Buffer.from(entry.content, "utf8");
+
+    if (Buffer.byteLength(name) > 100 || /[^\x20-\x7e]/.test(name)) {
+      const record = paxPathRecord(name);
+      gzip.write(tarHeader("PaxHeader", record.length, mtime, "x"));
+      gzip.write(record);
+      gzip.write(padding(record.length));
+    }
+    gzip.write(tarHeader(name.slice(0, 100), data.length, mtime, "0"));
+    gzip.write(data);
+    gzip.write(padding(data.length));
+  }
+
+  // Two empty blocks mark the end of the archive
+  gzip.end(Buffer.alloc(BLOCK * 2));
+}
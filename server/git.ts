@@ -0,0 +1,291 @@
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import AdmZip from "adm-zip";
+import { languageForPath, type ProjectFile } from "@shared/schema";
+
+// ========================================================
+// GIT REPOSITORIES
+// Git-enabled projects get a real repository on local disk.
+// project_files stays the source of truth for the editor: the
+// working tree is rewritten from it before every git operation,
+// and read back into it after a checkout. Runs the git CLI
+// directly (no shell) with a timeout.
+// ========================================================
+export class GitError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitChange {
+  path: string;
+  // Two-letter porcelain code, e.g. " M", "??", "D "
+  status: string;
+}
+
+export interface GitCommit {
+  sha: string;
+  author: string;
+  email: string;
+  date: string;
+  message: string;
+}
+
+const REPOS_DIR = process.env.GIT_REPOS_DIR || path.join(process.cwd(), "data", "git-repos");
+const GIT_TIMEOUT_MS = 30 * 1000;
+const MAX_OUTPUT_BYTES = 20 * 1024 * 1024;
+const DEFAULT_BRANCH = "main";
+
+// Branch names we accept from clients - a safe subset of git's own rules
+const BRANCH_NAME = /^(?!-)(?!.*\.\.)(?!.*\/\/)(?!.*@\{)[A-Za-z0-9._/-]{1,100}(?<![./])(?<!\.lock)$/;
+// Anything that may name a commit: branch, tag, sha, HEAD~2
+const REVISION = /^(?!-)[A-Za-z0-9._/~^-]{1,100}$/;
+
+function run(cwd: string, args: string[], env: Record<string, string> = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      ["-c", "core.quotepath=off", ...args],
+      {
+        cwd,
+        timeout: GIT_TIMEOUT_MS,
+        maxBuffer: MAX_OUTPUT_BYTES,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0", ...env },
+      },
+      (error, stdout, stderr) => {
+        if (!error) return resolve(stdout);
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+          return reject(new GitError("git is not installed on the server", 500));
+        }
+        reject(new GitError(stderr.trim().replace(/^(fatal|error): /, "") || error.message));
+      },
+    );
+  });
+}
+
+export function repoDir(projectId: string): string {
+  return path.join(REPOS_DIR, projectId);
+}
+
+export async function repoExists(projectId: string): Promise<boolean> {
+  return fs.stat(path.join(repoDir(projectId), ".git")).then(() => true, () => false);
+}
+
+// A deleted project's repository goes with it
+export async function removeRepo(projectId: string): Promise<void> {
+  await fs.rm(repoDir(projectId), { recursive: true, force: true });
+}
+
+// Operations on one repository run one at a time
+const repoLocks = new Map<string, Promise<unknown>>();
+
+export function withRepoLock<T>(projectId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = repoLocks.get(projectId) ?? Promise.resolve();
+  const current = previous.catch(() => undefined).then(fn);
+  repoLocks.set(projectId, current);
+  current.finally(() => {
+    if (repoLocks.get(projectId) === current) repoLocks.delete(projectId);
+  }).catch(() => undefined);
+  return current;
+}
+
+export function validateBranchName(name: string): string {
+  if (!BRANCH_NAME.test(name)) throw new GitError(`"${name}" is not a valid branch name`);
+  return name;
+}
+
+export function validateRevision(rev: string): string {
+  if (!REVISION.test(rev)) throw new GitError(`"${rev}" is not a valid revision`);
+  return rev;
+}
+
+// Project files may never reach into the repository's own metadata
+function isGitMetadata(filePath: string): boolean {
+  return filePath.split("/")[0].toLowerCase() === ".git";
+}
+
+async function hasCommits(dir: string): Promise<boolean> {
+  return run(dir, ["rev-parse", "--verify", "--quiet", "HEAD"]).then(() => true, () => false);
+}
+
+function authorEnv(author: GitAuthor): Record<string, string> {
+  return {
+    GIT_AUTHOR_NAME: author.name,
+    GIT_AUTHOR_EMAIL: author.email,
+    GIT_COMMITTER_NAME: author.name,
+    GIT_COMMITTER_EMAIL: author.email,
+  };
+}
+
+// Always starts from an empty directory - a half-created repo is discarded
+export async function initRepo(dir: string): Promise<void> {
+  await fs.rm(dir, { recursive: true, force: true });
+  await fs.mkdir(dir, { recursive: true });
+  await run(dir, ["init", "--quiet"]);
+  await run(dir, ["symbolic-ref", "HEAD", `refs/heads/${DEFAULT_BRANCH}`]);
+}
+
+// Make the working tree match the project's files exactly
+export async function writeWorkingTree(dir: string, files: ProjectFile[]): Promise<void> {
+  for (const entry of await fs.readdir(dir)) {
+    if (entry !== ".git") await fs.rm(path.join(dir, entry), { recursive: true, force: true });
+  }
+  for (const file of files) {
+    if (isGitMetadata(file.path)) continue;
+    const target = path.resolve(dir, file.path);
+    if (!target.startsWith(path.resolve(dir) + path.sep)) throw new GitError(`"${file.path}" is outside the repository`);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.content, "utf8");
+  }
+}
+
+// Regular files only - symlinks and .git are never read back
+export async function readWorkingTree(dir: string): Promise<ProjectFile[]> {
+  const files: ProjectFile[] = [];
+  const walk = async (relative: string) => {
+    for (const entry of await fs.readdir(path.join(dir, relative), { withFileTypes: true })) {
+      const filePath = relative ? `${relative}/${entry.name}` : entry.name;
+      if (isGitMetadata(filePath)) continue;
+      if (entry.isDirectory()) {
+        await walk(filePath);
+      } else if (entry.isFile()) {
+        const content = await fs.readFile(path.join(dir, filePath), "utf8");
+        files.push({ path: filePath, content, language: languageForPath(filePath) });
+      }
+    }
+  };
+  await walk("");
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export async function currentBranch(dir: string): Promise<string | null> {
+  return run(dir, ["symbolic-ref", "--short", "--quiet", "HEAD"]).then((out) => out.trim(), () => null);
+}
+
+export async function getStatus(dir: string): Promise<GitChange[]> {
+  const out = await run(dir, ["status", "--porcelain=v1", "-z", "--untracked-files=all"]);
+  return out
+    .split("\0")
+    .filter(Boolean)
+    .map((entry) => ({ status: entry.slice(0, 2), path: entry.slice(3) }));
+}
+
+// Stages everything and commits; returns the new commit sha
+export async function commitAll(dir: string, message: string, author: GitAuthor): Promise<string> {
+  await run(dir, ["add", "--all"]);
+  if ((await getStatus(dir)).length === 0) throw new GitError("Nothing to commit", 409);
+  await run(dir, ["commit", "--quiet", "--no-verify", "-m", message], authorEnv(author));
+  return (await run(dir, ["rev-parse", "HEAD"])).trim();
+}
+
+export async function getLog(dir: string, ref: string | undefined, limit: number): Promise<GitCommit[]> {
+  if (!(await hasCommits(dir))) return [];
+  const out = await run(dir, [
+    "log",
+    `--max-count=${limit}`,
+    "--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1e",
+    ref ? validateRevision(ref) : "HEAD",
+    "--",
+  ]);
+  return out
+    .split("\x1e")
+    .map((record) => record.trim())
+    .filter(Boolean)
+    .map((record) => {
+      const [sha, author, email, date, message] = record.split("\x1f");
+      return { sha, author, email, date, message };
+    });
+}
+
+export async function listBranches(dir: string): Promise<{ current: string | null; branches: string[] }> {
+  const out = await run(dir, ["for-each-ref", "--format=%(refname:short)", "refs/heads/"]);
+  return { current: await currentBranch(dir), branches: out.split("\n").filter(Boolean) };
+}
+
+export async function createBranch(dir: string, name: string, from?: string): Promise<void> {
+  if (!(await hasCommits(dir))) throw new GitError("Commit at least once before creating branches", 409);
+  await run(dir, ["branch", "--", validateBranchName(name), ...(from ? [validateRevision(from)] : [])]);
+}
+
+// Switches branches; force discards uncommitted changes first
+export async function checkoutBranch(dir: string, name: string, force: boolean): Promise<void> {
+  validateBranchName(name);
+  const exists = await run(dir, ["show-ref", "--verify", "--quiet", `refs/heads/${name}`]).then(() => true, () => false);
+  if (!exists) throw new GitError(`Branch "${name}" does not exist`, 404);
+  await run(dir, ["checkout", "--quiet", ...(force ? ["--force"] : []), name, "--"]);
+  if (force) await run(dir, ["clean", "--force", "-d", "--quiet"]);
+}
+
+// Without revisions: uncommitted changes. With only `from`: working tree against it.
+export async function getDiff(dir: string, from?: string, to?: string): Promise<{ diff: string; files: GitChange[] }> {
+  const range = [from, to].filter((rev): rev is string => !!rev).map(validateRevision);
+  let args: string[];
+  if (range.length === 2) {
+    args = range;
+  } else {
+    // Stage so new files show up; the next commit stages everything anyway
+    await run(dir, ["add", "--all"]);
+    args = ["--cached", ...(range.length ? range : (await hasCommits(dir)) ? ["HEAD"] : [])];
+  }
+
+  const [diff, nameStatus] = await Promise.all([
+    run(dir, ["diff", "--no-color", ...args, "--"]),
+    run(dir, ["diff", "--name-status", ...args, "--"]),
+  ]);
+  const files = nameStatus
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [status, ...paths] = line.split("\t");
+      return { status, path: paths[paths.length - 1] };
+    });
+  return { diff, files };
+}
+
+// ========================================================
+// REPOSITORY EXPORT
+// ========================================================
+export type RepoExportFormat = "bundle" | "zip";
+
+export async function exportRepo(dir: string, format: RepoExportFormat): Promise<Buffer> {
+  if (format === "zip") {
+    const zip = new AdmZip();
+    zip.addLocalFolder(dir);
+    return zip.toBuffer();
+  }
+
+  if (!(await hasCommits(dir))) throw new GitError("Commit at least once before exporting a bundle", 409);
+  const tmp = await fs.mkdtemp(path.join(os.tmpdir(), "vipu-bundle-"));
+  try {
+    const bundlePath = path.join(tmp, "repo.bundle");
+    await run(dir, ["bundle", "create", "--quiet", bundlePath, "--all"]);
+    return await fs.readFile(bundlePath);
+  } finally {
+    await fs.rm(tmp, { recursive: true, force: true });
+  }
+}
+
+// One-commit repository for files that aren't a saved project (Builder output)
+export async function exportFilesAsRepo(
+  files: ProjectFile[],
+  message: string,
+  author: GitAuthor,
+  format: RepoExportFormat,
+): Promise<Buffer> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "vipu-repo-"));
+  try {
+    await initRepo(dir);
+    await writeWorkingTree(dir, files);
+    await commitAll(dir, message, author);
+    return await exportRepo(dir, format);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
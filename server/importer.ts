@@ -0,0 +1,212 @@
+import AdmZip from "adm-zip";
+import {
+  IMPORT_EXCLUDED_DIRS,
+  IMPORT_MAX_FILE_BYTES,
+  IMPORT_MAX_FILES,
+  languageForPath,
+  projectFilePathSchema,
+  type ImportSkipReason,
+  type ProjectFile,
+  type SkippedImportFile,
+} from "@shared/schema";
+
+// ========================================================
+// PROJECT IMPORT
+// Turns an uploaded archive or folder into project files. Only
+// UTF-8 text is kept; dependency/VCS folders and anything the
+// upload's own .gitignore files exclude are skipped and reported.
+// ========================================================
+export class ImportError extends Error {}
+
+// How many skipped paths are listed individually; the rest are only counted
+const MAX_REPORTED_SKIPS = 200;
+const EXCLUDED_DIRS = new Set(IMPORT_EXCLUDED_DIRS);
+
+interface IgnoreRule {
+  // Directory holding the .gitignore ("" for the root)
+  base: string;
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+}
+
+function escapeRegex(char: string): string {
+  return /[.*+?^${}()|[\]\\/]/.test(char) ? `\\${char}` : char;
+}
+
+// Translates one gitignore glob into a regex body
+function globToRegex(glob: string): string {
+  let out = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atSegmentStart = i === 0 || glob[i - 1] === "/";
+        if (atSegmentStart && glob[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else {
+          out += ".*";
+          i += 1;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (char === "?") {
+      out += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        out += "\\[";
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\");
+        out += `[${body}]`;
+        i = end;
+      }
+    } else if (char === "\\" && i + 1 < glob.length) {
+      out += escapeRegex(glob[++i]);
+    } else {
+      out += escapeRegex(char);
+    }
+  }
+  return out;
+}
+
+function parseGitignore(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    let pattern = line.replace(/(?<!\\)\s+$/, "");
+    if (!pattern || pattern.startsWith("#")) continue;
+
+    const negate = pattern.startsWith("!");
+    if (negate) pattern = pattern.slice(1);
+    else if (pattern.startsWith("\\!") || pattern.startsWith("\\#")) pattern = pattern.slice(1);
+
+    const dirOnly = pattern.endsWith("/");
+    if (dirOnly) pattern = pattern.slice(0, -1);
+    // A slash anywhere but the end ties the pattern to the .gitignore's directory
+    const anchored = pattern.includes("/");
+    pattern = pattern.replace(/^\//, "");
+    if (!pattern) continue;
+
+    const body = globToRegex(pattern);
+    rules.push({ base, negate, dirOnly, regex: new RegExp(anchored ? `^${body}$` : `^(?:.*/)?${body}$`) });
+  }
+  return rules;
+}
+
+// Last matching rule wins, as in git
+function matchesIgnore(rules: IgnoreRule[], filePath: string, isDir: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.dirOnly && !isDir) continue;
+    if (rule.base && !filePath.startsWith(`${rule.base}/`)) continue;
+    const relative = rule.base ? filePath.slice(rule.base.length + 1) : filePath;
+    if (rule.regex.test(relative)) ignored = !rule.negate;
+  }
+  return ignored;
+}
+
+function ancestors(filePath: string): string[] {
+  const parts = filePath.split("/").slice(0, -1);
+  return parts.map((_, i) => parts.slice(0, i + 1).join("/"));
+}
+
+const utf8 = new TextDecoder("utf-8", { fatal: true });
+
+// NUL bytes or invalid UTF-8 mean we can't show it in the editor
+function decodeText(data: Buffer): string | null {
+  if (data.subarray(0, 8000).includes(0)) return null;
+  try {
+    // Decoding also drops a leading byte order mark
+    return utf8.decode(data);
+  } catch {
+    return null;
+  }
+}
+
+// One uploaded file - a ZIP entry or a file from a picked folder
+export interface ImportEntry {
+  // Relative path as uploaded, possibly under one wrapping folder
+  path: string;
+  size: number;
+  read(): Buffer;
+}
+
+export interface ImportResult {
+  files: ProjectFile[];
+  skipped: SkippedImportFile[];
+  // Files skipped in total; folders appear once in `skipped`
+  skippedCount: number;
+  // More paths were skipped than `skipped` lists
+  truncated: boolean;
+}
+
+export function extractZipFiles(zipPath: string): ImportResult {
+  let entries: AdmZip.IZipEntry[];
+  try {
+    entries = new AdmZip(zipPath).getEntries().filter((e) => !e.isDirectory);
+  } catch {
+    throw new ImportError("Not a valid ZIP file");
+  }
+  return collectProjectFiles(
+    entries.map((entry) => ({ path: entry.entryName, size: entry.header.size, read: () => entry.getData() })),
+  );
+}
+
+export function collectProjectFiles(entries: ImportEntry[]): ImportResult {
+  // Archives made from a folder (or GitHub's "Download ZIP") and picked folders wrap everything in one directory
+  const names = entries.map((e) => e.path.replace(/\\/g, "/").replace(/^\/+/, ""));
+  const roots = new Set(names.map((n) => (n.includes("/") ? n.split("/")[0] : "")));
+  const [onlyRoot] = Array.from(roots);
+  const prefix = roots.size === 1 && onlyRoot && !EXCLUDED_DIRS.has(onlyRoot) ? `${onlyRoot}/` : "";
+  const paths = names.map((n) => n.slice(prefix.length));
+
+  const rules = entries
+    .map((entry, i) => ({ entry, path: paths[i] }))
+    .filter(({ path }) => path === ".gitignore" || path.endsWith("/.gitignore"))
+    // Shallower files first so nested .gitignore rules override them
+    .sort((a, b) => a.path.split("/").length - b.path.split("/").length)
+    .flatMap(({ entry, path }) => {
+      const content = decodeText(entry.read());
+      return content === null ? [] : parseGitignore(content, path.split("/").slice(0, -1).join("/"));
+    });
+
+  const files: ProjectFile[] = [];
+  const reported = new Set<string>();
+  const skipped: SkippedImportFile[] = [];
+  let skippedCount = 0;
+  let truncated = false;
+
+  const skip = (path: string, reason: ImportSkipReason) => {
+    skippedCount++;
+    // Whole folders are reported once rather than file by file
+    if (reported.has(path)) return;
+    reported.add(path);
+    if (skipped.length < MAX_REPORTED_SKIPS) skipped.push({ path, reason });
+    else truncated = true;
+  };
+
+  entries.forEach((entry, i) => {
+    const filePath = paths[i];
+    const dirs = ancestors(filePath);
+
+    const excludedDir = dirs.find((dir) => EXCLUDED_DIRS.has(dir.split("/").pop()!));
+    if (excludedDir) return skip(`${excludedDir}/`, "excluded folder");
+    const ignoredDir = dirs.find((dir) => matchesIgnore(rules, dir, true));
+    if (ignoredDir) return skip(`${ignoredDir}/`, "gitignored");
+    if (matchesIgnore(rules, filePath, false)) return skip(filePath, "gitignored");
+
+    const parsedPath = projectFilePathSchema.safeParse(filePath);
+    if (!parsedPath.success) return skip(filePath, "invalid path");
+    if (entry.size > IMPORT_MAX_FILE_BYTES) return skip(filePath, "too large");
+    if (files.length >= IMPORT_MAX_FILES) return skip(filePath, "file limit");
+
+    const content = decodeText(entry.read());
+    if (content === null) return skip(filePath, "binary");
+    files.push({ path: parsedPath.data, content, language: languageForPath(parsedPath.data) });
+  });
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  return { files, skipped, skippedCount, truncated };
+}
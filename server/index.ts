@@ -6,6 +6,15 @@ import { createServer } from "http";
 const app = express();
 const httpServer = createServer(app);
 
+// Behind a proxy (Replit and Render add one hop) set TRUST_PROXY so req.ip is the
+// real client address - login throttling and the audit log depend on it. Off by
+// default: with no proxy in front, clients could pick their own X-Forwarded-For.
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy && trustProxy !== "false") {
+  // A hop count, "true" for one hop, or Express's address list syntax
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === "true" ? 1 : trustProxy);
+}
+
 declare module "http" {
   interface IncomingMessage {
     rawBody: unknown;
@@ -33,6 +42,14 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Session tokens (login, rotate, SSO exchange) and new API tokens come back in
+// response bodies - they must never reach the logs
+const REDACTED_LOG_FIELDS = new Set(["token", "accessToken", "refreshToken", "idToken", "apiKey", "password", "secret"]);
+
+function redactSecrets(key: string, value: unknown) {
+  return REDACTED_LOG_FIELDS.has(key) && typeof value === "string" ? "[redacted]" : value;
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -49,7 +66,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactSecrets)}`;
       }
 
       log(logLine);
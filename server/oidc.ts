@@ -0,0 +1,245 @@
+import crypto from "crypto";
+
+// ========================================================
+// OPENID CONNECT (authorization code flow + PKCE)
+// Protocol only - mapping identities to users lives in auth.ts.
+// Configured from env; plain http discovery URLs are allowed so
+// the flow can be exercised against a local mock provider.
+// ========================================================
+export class OidcError extends Error {}
+
+export interface OidcConfig {
+  discoveryUrl: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri?: string;
+  scopes: string;
+  providerName: string;
+}
+
+export interface OidcIdentity {
+  issuer: string;
+  subject: string;
+  preferredUsername?: string;
+  email?: string;
+  name?: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingLogin {
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  createdAt: number;
+}
+
+const METADATA_TTL_MS = 60 * 60 * 1000;
+export const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_S = 60;
+
+const SIGNING_ALGORITHMS: Record<string, { hash: string; ec?: boolean }> = {
+  RS256: { hash: "sha256" },
+  RS384: { hash: "sha384" },
+  RS512: { hash: "sha512" },
+  ES256: { hash: "sha256", ec: true },
+  ES384: { hash: "sha384", ec: true },
+  ES512: { hash: "sha512", ec: true },
+};
+
+let metadataCache: { url: string; metadata: ProviderMetadata; fetchedAt: number } | null = null;
+const jwksCache = new Map<string, crypto.JsonWebKey[]>();
+const pendingLogins = new Map<string, PendingLogin>();
+
+export function getOidcConfig(): OidcConfig | null {
+  const discoveryUrl = process.env.OIDC_DISCOVERY_URL;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const clientSecret = process.env.OIDC_CLIENT_SECRET;
+  if (!discoveryUrl || !clientId || !clientSecret) return null;
+
+  return {
+    discoveryUrl,
+    clientId,
+    clientSecret,
+    redirectUri: process.env.OIDC_REDIRECT_URI || undefined,
+    scopes: process.env.OIDC_SCOPES || "openid profile email",
+    providerName: process.env.OIDC_PROVIDER_NAME || "SSO",
+  };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function base64url(buf: Buffer): string {
+  return buf.toString("base64url");
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const message = body.error_description || body.error || res.statusText;
+    throw new OidcError(`OIDC request to ${new URL(url).pathname} failed: ${message}`);
+  }
+  return body as T;
+}
+
+// Accepts either the issuer URL or the full .well-known document URL
+async function discover(config: OidcConfig): Promise<ProviderMetadata> {
+  const url = config.discoveryUrl.includes("/.well-known/")
+    ? config.discoveryUrl
+    : config.discoveryUrl.replace(/\/$/, "") + "/.well-known/openid-configuration";
+
+  if (metadataCache?.url === url && Date.now() - metadataCache.fetchedAt < METADATA_TTL_MS) {
+    return metadataCache.metadata;
+  }
+
+  const metadata = await fetchJson<ProviderMetadata>(url);
+  for (const field of ["issuer", "authorization_endpoint", "token_endpoint", "jwks_uri"] as const) {
+    if (!metadata[field]) throw new OidcError(`OIDC discovery document is missing "${field}"`);
+  }
+  metadataCache = { url, metadata, fetchedAt: Date.now() };
+  return metadata;
+}
+
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  const find = (keys: crypto.JsonWebKey[]) =>
+    kid ? keys.find((k) => k.kid === kid) : keys.length === 1 ? keys[0] : undefined;
+
+  let jwk = find(jwksCache.get(jwksUri) ?? []);
+  if (!jwk) {
+    // Unknown kid usually means the provider rotated keys - refetch once
+    const { keys } = await fetchJson<{ keys: crypto.JsonWebKey[] }>(jwksUri);
+    jwksCache.set(jwksUri, keys);
+    jwk = find(keys);
+  }
+  if (!jwk) throw new OidcError("No matching signing key for ID token");
+  return crypto.createPublicKey({ key: jwk, format: "jwk" });
+}
+
+async function verifyIdToken(
+  idToken: string,
+  metadata: ProviderMetadata,
+  config: OidcConfig,
+  nonce: string,
+): Promise<Record<string, unknown>> {
+  const parts = idToken.split(".");
+  if (parts.length !== 3) throw new OidcError("Malformed ID token");
+  const [encodedHeader, encodedPayload, encodedSignature] = parts;
+
+  const header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString("utf8"));
+  const algorithm = SIGNING_ALGORITHMS[header.alg];
+  if (!algorithm) throw new OidcError(`Unsupported ID token algorithm "${header.alg}"`);
+
+  const key = await getSigningKey(metadata.jwks_uri, header.kid);
+  const valid = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    algorithm.ec ? { key, dsaEncoding: "ieee-p1363" } : key,
+    Buffer.from(encodedSignature, "base64url"),
+  );
+  if (!valid) throw new OidcError("ID token signature is invalid");
+
+  const claims = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8"));
+  const audience: unknown[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Math.floor(Date.now() / 1000);
+
+  if (claims.iss !== metadata.issuer) throw new OidcError("ID token issuer mismatch");
+  if (!audience.includes(config.clientId)) throw new OidcError("ID token audience mismatch");
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_S < now) {
+    throw new OidcError("ID token has expired");
+  }
+  if (claims.nonce !== nonce) throw new OidcError("ID token nonce mismatch");
+  if (typeof claims.sub !== "string" || !claims.sub) throw new OidcError("ID token has no subject");
+
+  return claims;
+}
+
+// Returns the provider URL to send the browser to, and the state the caller
+// must tie to that browser (a cookie) so the callback can't be replayed in another
+export async function beginOidcLogin(config: OidcConfig, redirectUri: string): Promise<{ url: string; state: string }> {
+  const metadata = await discover(config);
+
+  const state = base64url(crypto.randomBytes(24));
+  const nonce = base64url(crypto.randomBytes(24));
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash("sha256").update(codeVerifier).digest());
+  pendingLogins.set(state, { nonce, codeVerifier, redirectUri, createdAt: Date.now() });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  }).toString();
+  return { url: url.toString(), state };
+}
+
+// `browserState` is the state remembered by the browser that started the login
+export async function completeOidcLogin(
+  config: OidcConfig,
+  code: string,
+  state: string,
+  browserState: string | undefined,
+): Promise<OidcIdentity> {
+  const pending = pendingLogins.get(state);
+  pendingLogins.delete(state);
+  if (!pending || Date.now() - pending.createdAt > PENDING_LOGIN_TTL_MS) {
+    throw new OidcError("Login request expired - please try again");
+  }
+  // Otherwise an attacker could send someone a callback link that logs them into the attacker's account
+  if (!browserState || !safeEqual(browserState, state)) {
+    throw new OidcError("Login was started in a different browser - please try again");
+  }
+
+  const metadata = await discover(config);
+  const basic = Buffer.from(
+    `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`,
+  ).toString("base64");
+
+  const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      Authorization: `Basic ${basic}`,
+    },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: pending.redirectUri,
+      code_verifier: pending.codeVerifier,
+    }).toString(),
+  });
+  if (!tokens.id_token) throw new OidcError("Token response did not include an ID token");
+
+  const claims = await verifyIdToken(tokens.id_token, metadata, config, pending.nonce);
+  const optional = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+
+  return {
+    issuer: metadata.issuer,
+    subject: claims.sub as string,
+    preferredUsername: optional(claims.preferred_username),
+    email: optional(claims.email),
+    name: optional(claims.name),
+  };
+}
+
+export function pruneOidcState(): void {
+  const now = Date.now();
+  pendingLogins.forEach((pending, state) => {
+    if (now - pending.createdAt > PENDING_LOGIN_TTL_MS) pendingLogins.delete(state);
+  });
+}
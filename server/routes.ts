@@ -1,14 +1,51 @@
-import type { Express, Request, Response } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import type { Server } from "http";
 import { storage } from "./storage";
 import {
   insertProjectSchema,
+  updateProjectPreferencesSchema,
+  createProjectSchema,
+  projectListQuerySchema,
+  duplicateProjectSchema,
+  createTemplateSchema,
+  updateTemplateSchema,
   insertChatMessageSchema,
   insertCodeExecutionSchema,
   insertUserConfigSchema,
+  signupSchema,
+  createApiTokenSchema,
+  inviteProjectMemberSchema,
+  updateProjectMemberSchema,
+  hasProjectRole,
+  auditQuerySchema,
+  projectFilePathSchema,
+  writeProjectFileSchema,
+  renameProjectFileSchema,
+  saveProjectFilesSchema,
+  projectFileSchema,
+  gitCommitSchema,
+  gitBranchSchema,
+  gitCheckoutSchema,
+  gitLogQuerySchema,
+  gitDiffQuerySchema,
+  gitExportFormatSchema,
+  projectExportQuerySchema,
+  codeSearchQuerySchema,
+  type CodeSearchResult,
+  codeActionRequestSchema,
+  type CodeAction,
+  type CodeActionResult,
+  completionRequestSchema,
+  languageForPath,
+  IMPORT_MAX_FILES,
+  FOLDER_IMPORT_MAX_BYTES,
+  type ProjectAccessRole,
+  type InsertUserConfig,
+  type PublicUserConfig,
+  type UserConfig,
+  type User,
 } from "@shared/schema";
 import { z } from "zod";
-import crypto from "crypto";
 import OpenAI from "openai";
 import fs from "fs";
 import os from "os";
@@ -16,26 +53,150 @@ import path from "path";
 import { exec } from "child_process";
 import multer from "multer";
 import AdmZip from "adm-zip";
+import {
+  hashPassword,
+  verifyPassword,
+  toPublicUser,
+  bootstrapAdmin,
+  signupEnabled,
+  createSession,
+  rotateSession,
+  requireAuth,
+  currentUser,
+  currentSession,
+  generateApiToken,
+  hashToken,
+  requireAdmin,
+  loginLockRemaining,
+  recordLoginFailure,
+  clearLoginFailures,
+  pruneLoginAttempts,
+  createLoginHandoff,
+  redeemLoginHandoff,
+  pruneLoginHandoffs,
+  findOrCreateOidcUser,
+} from "./auth";
+import {
+  getOidcConfig,
+  beginOidcLogin,
+  completeOidcLogin,
+  pruneOidcState,
+  PENDING_LOGIN_TTL_MS,
+  OidcError,
+  type OidcConfig,
+} from "./oidc";
+import { clientIp, recordAuditEvent } from "./audit";
+import { extractZipFiles, collectProjectFiles, ImportError, type ImportResult } from "./importer";
+import { withGeneratedReadme, buildZip, streamTarGz } from "./export";
+import { listTemplates, findTemplate, isBuiltInTemplate } from "./templates";
+import {
+  compileSearchPattern,
+  findMatches,
+  searchTerms,
+  CodeSearchError,
+  CODE_SEARCH_BATCH_FILES,
+  CODE_SEARCH_MAX_FILES,
+} from "./codeSearch";
+import {
+  setupCollaboration,
+  collabWrite,
+  refreshCollabAccess,
+  closeCollabProject,
+  closeCollabSessions,
+} from "./collab";
+import {
+  GitError,
+  repoDir,
+  repoExists,
+  removeRepo,
+  withRepoLock,
+  initRepo,
+  writeWorkingTree,
+  readWorkingTree,
+  currentBranch,
+  getStatus,
+  commitAll,
+  getLog,
+  listBranches,
+  createBranch,
+  checkoutBranch,
+  getDiff,
+  exportRepo,
+  exportFilesAsRepo,
+  type GitAuthor,
+} from "./git";
+import {
+  encryptSecret,
+  decryptSecret,
+  isEncrypted,
+  maskSecret,
+  SecretsNotConfiguredError,
+} from "./secrets";
 
 // ========================================================
 // AUTH CONFIG
 // ========================================================
-const ADMIN_USERNAME = process.env.ADMIN_USERNAME || "admin";
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || "admin123";
+const SESSION_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+function startSessionCleanup() {
+  const cleanup = () => {
+    pruneLoginAttempts();
+    pruneLoginHandoffs();
+    pruneOidcState();
+    storage.deleteExpiredSessions().catch((err) => console.error("Session cleanup error:", err));
+  };
+  cleanup();
+  setInterval(cleanup, SESSION_CLEANUP_INTERVAL_MS).unref();
+}
 
-const tokens = new Set<string>();
-function generateToken(): string {
-  return crypto.randomBytes(32).toString("hex");
+// The provider must have this exact URL registered as a redirect URI
+function oidcRedirectUri(req: Request, config: OidcConfig): string {
+  return config.redirectUri || `${req.protocol}://${req.get("host")}/api/auth/oidc/callback`;
+}
+
+// Remembers which browser started an SSO login; only sent back to the callback
+const OIDC_STATE_COOKIE = "vipudev_oidc_state";
+const OIDC_COOKIE_PATH = "/api/auth/oidc";
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+// Failures land back on the SPA, which shows the message on the login screen
+function redirectWithOidcError(res: Response, message: string) {
+  res.redirect(`/?oidc_error=${encodeURIComponent(message)}`);
 }
 
 // ========================================================
 // OPENAI CONFIG - Supports both Replit AI Integrations & Own Key
 // ========================================================
-function getOpenAI(customKey?: string): OpenAI | null {
-  // Priority: Custom key > Replit AI Integrations > Env key
+async function getStoredOpenAIKey(userId: string): Promise<string | null> {
+  try {
+    const config = await storage.getConfig(userId);
+    return config?.apiKey ? decryptSecret(config.apiKey) : null;
+  } catch (err) {
+    console.error("Stored OpenAI key error:", err);
+    return null;
+  }
+}
+
+function hasServerOpenAIKey(): boolean {
+  return !!(process.env.AI_INTEGRATIONS_OPENAI_BASE_URL || process.env.OPENAI_API_KEY);
+}
+
+async function getOpenAI(userId: string, customKey?: string): Promise<OpenAI | null> {
+  // Priority: Custom key > User's stored key > Replit AI Integrations > Env key
   if (customKey) {
     return new OpenAI({ apiKey: customKey });
   }
+  const storedKey = await getStoredOpenAIKey(userId);
+  if (storedKey) {
+    return new OpenAI({ apiKey: storedKey });
+  }
   if (process.env.AI_INTEGRATIONS_OPENAI_BASE_URL) {
     return new OpenAI({
       baseURL: process.env.AI_INTEGRATIONS_OPENAI_BASE_URL,
@@ -48,6 +209,161 @@ function getOpenAI(customKey?: string): OpenAI | null {
   return null;
 }
 
+// Rejects a request-body `apiKey` when the user has turned client-supplied keys off
+async function enforceClientKeyPolicy(req: Request, res: Response, next: NextFunction) {
+  if (!req.body?.apiKey) return next();
+  try {
+    const config = await storage.getConfig(currentUser(req).id);
+    if (config && !config.allowClientKeys) {
+      return res.status(403).json({
+        error: "Client-supplied API keys are disabled for your account",
+        hint: "Remove apiKey from the request - your stored key is used automatically",
+      });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// ========================================================
+// CONFIG SECRETS - Provider keys are encrypted at rest and
+// only ever leave the server in masked form
+// ========================================================
+const SECRET_CONFIG_FIELDS = ["apiKey", "perplexityKey"] as const;
+
+function describeSecret(stored: string | null): { set: boolean; masked: string | null } {
+  if (!stored) return { set: false, masked: null };
+  try {
+    return { set: true, masked: maskSecret(decryptSecret(stored)) };
+  } catch {
+    // Master key missing or changed - the key exists but can't be shown
+    return { set: true, masked: null };
+  }
+}
+
+function toPublicConfig(config: UserConfig | undefined): PublicUserConfig {
+  const apiKey = describeSecret(config?.apiKey ?? null);
+  const perplexityKey = describeSecret(config?.perplexityKey ?? null);
+  return {
+    backendUrl: config?.backendUrl ?? null,
+    apiKeySet: apiKey.set,
+    apiKeyMasked: apiKey.masked,
+    perplexityKeySet: perplexityKey.set,
+    perplexityKeyMasked: perplexityKey.masked,
+    allowClientKeys: config?.allowClientKeys ?? true,
+    inlineCompletions: config?.inlineCompletions ?? false,
+    serverKeyAvailable: hasServerOpenAIKey(),
+    updatedAt: config?.updatedAt ?? null,
+  };
+}
+
+// undefined leaves a key untouched, null/"" clears it, anything else replaces it
+function encryptConfigSecrets(data: InsertUserConfig): InsertUserConfig {
+  const result = { ...data };
+  for (const field of SECRET_CONFIG_FIELDS) {
+    const value = data[field];
+    if (value === undefined) continue;
+    result[field] = value && value.trim() ? encryptSecret(value.trim()) : null;
+  }
+  return result;
+}
+
+async function encryptLegacyConfigSecrets() {
+  if (!process.env.CONFIG_ENCRYPTION_KEY) {
+    console.warn("CONFIG_ENCRYPTION_KEY is not set - provider keys cannot be saved");
+    return;
+  }
+  try {
+    for (const config of await storage.getAllConfigs()) {
+      const secrets = { apiKey: config.apiKey, perplexityKey: config.perplexityKey };
+      let changed = false;
+      for (const field of SECRET_CONFIG_FIELDS) {
+        const value = secrets[field];
+        if (value && !isEncrypted(value)) {
+          secrets[field] = encryptSecret(value);
+          changed = true;
+        }
+      }
+      if (changed) await storage.setConfigSecrets(config.id, secrets);
+    }
+  } catch (err) {
+    console.error("Legacy secret encryption error:", err);
+  }
+}
+
+// ========================================================
+// PROJECT FILES
+// ========================================================
+async function migrateLegacyProjectFiles() {
+  try {
+    const { migrated, unmigrated } = await storage.migrateLegacyProjectFiles();
+    if (migrated > 0) console.log(`Moved files of ${migrated} project(s) into project_files`);
+    for (const { projectId, path } of unmigrated) {
+      console.warn(`Legacy file ${path} of project ${projectId} has an invalid path - left in projects.files`);
+    }
+    const flagged = await storage.migrateLegacyProjectPreferences();
+    if (flagged > 0) console.log(`Moved star/archive flags of ${flagged} project(s) to their owners`);
+    const backfilled = await storage.backfillProjectVersions();
+    if (backfilled > 0) console.log(`Recorded initial versions for ${backfilled} project(s)`);
+  } catch (err) {
+    console.error("Project files migration error:", err);
+  }
+}
+
+// Resolves the caller's access to :id, or answers 404/403 and returns null
+async function requireProjectAccess(req: Request, res: Response, required: ProjectAccessRole) {
+  const access = await storage.getProjectAccess(currentUser(req).id, req.params.id);
+  if (!access) {
+    res.status(404).json({ error: "Project not found" });
+    return null;
+  }
+  if (!hasProjectRole(access.role, required)) {
+    res.status(403).json({ error: "You have view-only access to this project" });
+    return null;
+  }
+  return access;
+}
+
+// ========================================================
+// GIT
+// ========================================================
+// Commits are attributed to the VipuDevAI account; there are no user emails
+function gitAuthor(user: User): GitAuthor {
+  return { name: user.username, email: `${user.username}@users.noreply.vipudev.ai` };
+}
+
+// Like requireProjectAccess, but the project must also have its repository
+async function requireGitProject(req: Request, res: Response, required: ProjectAccessRole) {
+  const access = await requireProjectAccess(req, res, required);
+  if (!access) return null;
+  if (!access.project.gitEnabled || !(await repoExists(access.project.id))) {
+    res.status(409).json({ error: "This project is not a git repository yet" });
+    return null;
+  }
+  return access;
+}
+
+// Rewrites the working tree from project_files; call inside withRepoLock
+async function syncWorkingTree(projectId: string) {
+  await writeWorkingTree(repoDir(projectId), await storage.getProjectFiles(projectId));
+}
+
+function sendGitError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof GitError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+function downloadName(name: string): string {
+  return name.replace(/[^\w\-]/g, "-") || "vipudev-project";
+}
+
 // ========================================================
 // FILE UPLOAD (MULTER)
 // ========================================================
@@ -60,6 +376,16 @@ interface MulterRequest extends Request {
   file?: Express.Multer.File;
 }
 
+// Project import takes a ZIP as `file`, or a folder as `files` with each file's
+// relative path in a matching `paths` field (multipart filenames lose directories)
+const importUpload = multer({
+  dest: path.join(os.tmpdir(), "vipu-uploads"),
+  limits: { fileSize: 10 * 1024 * 1024, files: IMPORT_MAX_FILES },
+}).fields([
+  { name: "file", maxCount: 1 },
+  { name: "files", maxCount: IMPORT_MAX_FILES },
+]);
+
 // ========================================================
 // VIPU SYSTEM PROMPT - Empathetic AI Assistant (for Chat)
 // Named after Balaji's daughter Vipu - SHORT. SHARP. MEMORABLE.
@@ -98,6 +424,60 @@ const VIPU_SYSTEM_PROMPT = `You are VipuDevAI - an empathetic, highly intelligen
 
 Remember: You're not just an AI - you're VipuDevAI, built with love by Balaji for developers worldwide. Make every interaction meaningful! 💚`;
 
+// ========================================================
+// CODE ACTION PROMPTS - Editor context-menu actions
+// Added to VIPU_SYSTEM_PROMPT; the reply is JSON so the
+// editor can show the code as a diff
+// ========================================================
+const CODE_ACTION_PROMPTS: Record<CodeAction, string> = {
+  explain:
+    "Explain what the selected code does, step by step, and point out anything surprising or risky. Set `code` to null.",
+  fix:
+    "Find and fix the bugs in the selected code. Return the corrected code in `code`; in `explanation` say what was wrong and what you changed. If nothing needs fixing, return the code unchanged and say so.",
+  tests:
+    "Write unit tests for the selected code with the test framework the project already uses (or the usual one for the language). Return the complete test file in `code` and its path in `path` - a new file that fits the project's layout. Summarise what the tests cover in `explanation`.",
+  refactor:
+    "Refactor the selected code for readability and maintainability without changing its behaviour. Return the refactored code in `code` and explain the changes in `explanation`.",
+  jsdoc:
+    "Add JSDoc comments (or the language's usual doc comments, e.g. docstrings in Python) to the functions, classes and exported values in the selected code without changing the code itself. Return the documented code in `code` and summarise in `explanation`.",
+};
+
+const CODE_ACTION_REPLY_FORMAT = `Reply with a JSON object: {"explanation": string, "code": string | null, "path": string | null}.
+- "code" is plain code without markdown fences
+- Unless asked for a test file, "code" replaces exactly the selected code: keep its indentation and don't repeat code from outside the selection
+- "path" is only used for test files; otherwise null`;
+
+const codeActionReplySchema = z.object({
+  explanation: z.string().default(""),
+  code: z.string().nullish(),
+  path: z.string().nullish(),
+});
+
+// Models sometimes wrap code in a fence despite being told not to
+function stripCodeFence(code: string): string {
+  const match = code.match(/^\s*```[\w+-]*\n([\s\S]*?)\n?```\s*$/);
+  return match ? match[1] : code;
+}
+
+// Fallback location for generated tests: src/foo.ts -> src/foo.test.ts
+function defaultTestPath(filePath: string): string {
+  const dot = filePath.lastIndexOf(".");
+  return dot > filePath.lastIndexOf("/") ? `${filePath.slice(0, dot)}.test${filePath.slice(dot)}` : `${filePath}.test`;
+}
+
+// ========================================================
+// INLINE COMPLETION PROMPT - Ghost text while typing
+// Kept terse: the reply is inserted at the cursor as-is
+// ========================================================
+const COMPLETION_SYSTEM_PROMPT = `You are a code completion engine inside a code editor.
+The user message shows a file with <CURSOR> marking where the user is typing.
+Reply with only the text to insert at <CURSOR>:
+- No explanations and no markdown fences
+- Don't repeat code that is already before or after the cursor
+- Keep it short: finish the current line or statement, at most a few lines
+- Match the file's indentation and style
+- If nothing sensible fits, reply with nothing`;
+
 // ========================================================
 // VIPU APP BUILDER PROMPT - Generative Developer Agent
 // Generates complete full-stack applications with file structures
@@ -202,6 +582,7 @@ Generate the ENTIRE application. No shortcuts. No explanations. Just CODE.`;
 // MEMORY BUILDER - Contextual Conversation
 // ========================================================
 async function buildConversation(
+  userId: string,
   userMessages: { role: "user" | "assistant" | "system"; content: string }[],
   codeContext?: string,
   projectId?: string | null
@@ -209,7 +590,7 @@ async function buildConversation(
   let memoryText = "";
 
   try {
-    const history = await storage.getChatMessages(30, projectId ?? null);
+    const history = await storage.getChatMessages(userId, 30, projectId ?? null);
     memoryText = history
       .slice(-20) // Last 20 messages for context
       .map((m) => `${m.role.toUpperCase()}: ${m.content.slice(0, 500)}`)
@@ -377,207 +758,1316 @@ async function performIntelligentSearch(query: string): Promise<SearchSource[]>
       });
     }
 
-    if (data.Answer) {
-      sources.push({
-        title: "Direct Answer",
-        snippet: data.Answer,
+    if (data.Answer) {
+      sources.push({
+        title: "Direct Answer",
+        snippet: data.Answer,
+      });
+    }
+
+    // Add related topics as sources
+    if (data.RelatedTopics?.length > 0) {
+      data.RelatedTopics.slice(0, 5).forEach((topic: any) => {
+        if (topic.Text) {
+          sources.push({
+            title: topic.FirstURL ? topic.FirstURL.split('/').pop()?.replace(/_/g, ' ') || "Related" : "Related Topic",
+            snippet: topic.Text,
+            url: topic.FirstURL
+          });
+        }
+      });
+    }
+
+    // Search Wikipedia for additional context
+    try {
+      const wikiResponse = await fetch(
+        `https://en.wikipedia.org/api/rest_v1/page/summary/${encoded}`
+      );
+      if (wikiResponse.ok) {
+        const wikiData = await wikiResponse.json();
+        if (wikiData.extract && !sources.some(s => s.snippet === wikiData.extract)) {
+          sources.push({
+            title: wikiData.title || "Wikipedia",
+            snippet: wikiData.extract,
+            url: wikiData.content_urls?.desktop?.page
+          });
+        }
+      }
+    } catch {}
+
+  } catch (err) {
+    console.error("Intelligent search error:", err);
+  }
+
+  return sources;
+}
+
+async function processNLUQuery(
+  query: string,
+  openai: OpenAI,
+  searchResults: SearchSource[]
+): Promise<any> {
+  try {
+    const searchContext = searchResults.length > 0
+      ? searchResults.map((s, i) => `[${i + 1}] ${s.title}: ${s.snippet}`).join("\n\n")
+      : "No external search results available.";
+
+    const completion = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        { role: "system", content: NLU_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: `User Query: "${query}"
+
+Search Results:
+${searchContext}
+
+Analyze this query and provide a comprehensive, well-structured answer in the JSON format specified.`
+        }
+      ],
+      temperature: 0.3,
+      max_tokens: 2000,
+      response_format: { type: "json_object" }
+    });
+
+    const content = completion.choices[0]?.message?.content || "{}";
+    return JSON.parse(content);
+  } catch (err) {
+    console.error("NLU processing error:", err);
+    return {
+      rewrittenQuery: query,
+      intent: "General information request",
+      reasoning: "Processing the query directly.",
+      answer: "I encountered an issue processing your query. Please try again.",
+      keyPoints: [],
+      sources: [],
+      confidence: 0.5,
+      followUpQuestions: []
+    };
+  }
+}
+
+// ========================================================
+// ROUTES
+// ========================================================
+export async function registerRoutes(
+  httpServer: Server,
+  app: Express
+): Promise<Server> {
+  await bootstrapAdmin();
+  await encryptLegacyConfigSecrets();
+  await migrateLegacyProjectFiles();
+  startSessionCleanup();
+
+  // Every /api route below requires a bearer token unless allow-listed in requireAuth
+  app.use("/api", requireAuth);
+
+  // ======================================================
+  // HEALTH CHECK
+  // ======================================================
+  app.get("/api/health", (_req, res) => {
+    res.json({
+      status: "ok",
+      service: "VipuDevAI",
+      version: "2.0.0",
+      timestamp: new Date().toISOString(),
+    });
+  });
+
+  // ======================================================
+  // AUTH ROUTES
+  // ======================================================
+  app.get("/api/auth/setup", async (_req, res) => {
+    try {
+      const userCount = await storage.countUsers();
+      const oidc = getOidcConfig();
+      res.json({
+        needsSetup: userCount === 0,
+        signupEnabled: signupEnabled(),
+        sso: oidc ? { providerName: oidc.providerName } : null,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch setup status" });
+    }
+  });
+
+  app.post("/api/auth/signup", async (req, res) => {
+    try {
+      const { username, password } = signupSchema.parse(req.body);
+
+      // The very first account is always allowed and becomes the admin
+      const isFirstUser = (await storage.countUsers()) === 0;
+      if (!isFirstUser && !signupEnabled()) {
+        return res.status(403).json({ error: "Signup is disabled. Ask an admin for an account." });
+      }
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "Username already taken" });
+      }
+
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+        role: isFirstUser ? "admin" : "member",
+      });
+      if (isFirstUser) {
+        await storage.adoptUnownedRecords(user.id);
+      }
+
+      const { token, session } = await createSession(user.id, req.headers["user-agent"]);
+      await recordAuditEvent(req, "auth.login", { user, details: { method: "signup" } });
+      res.status(201).json({
+        token,
+        expiresAt: session.expiresAt,
+        user: toPublicUser(user),
+        message: "Welcome to VipuDevAI! 💚",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid data", details: error.errors });
+      }
+      console.error("Signup error:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    const { username, password } = req.body;
+
+    if (typeof username !== "string" || typeof password !== "string") {
+      return res.status(400).json({ error: "Username and password are required" });
+    }
+
+    const ip = clientIp(req);
+    const name = username.trim();
+
+    const lockedForMs = loginLockRemaining(ip, name);
+    if (lockedForMs > 0) {
+      await recordAuditEvent(req, "auth.login_failed", {
+        user: null,
+        username: name,
+        details: { reason: "locked_out" },
+      });
+      const retryAfter = Math.ceil(lockedForMs / 1000);
+      res.setHeader("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        error: `Too many failed login attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s).`,
+        retryAfter,
+      });
+    }
+
+    try {
+      const user = await storage.getUserByUsername(name);
+      // SSO-only accounts have no password and can't use this form
+      if (user?.password && (await verifyPassword(password, user.password))) {
+        clearLoginFailures(name);
+        const { token, session } = await createSession(user.id, req.headers["user-agent"]);
+        await recordAuditEvent(req, "auth.login", { user, details: { method: "password" } });
+        return res.json({
+          token,
+          expiresAt: session.expiresAt,
+          user: toPublicUser(user),
+          message: "Welcome to VipuDevAI! 💚",
+        });
+      }
+
+      recordLoginFailure(ip, name);
+      await recordAuditEvent(req, "auth.login_failed", {
+        user: user ?? null,
+        username: name,
+        details: { reason: "invalid_credentials" },
+      });
+      res.status(401).json({ error: "Invalid credentials" });
+    } catch (error) {
+      console.error("Login error:", error);
+      res.status(500).json({ error: "Login failed" });
+    }
+  });
+
+  // OIDC: send the browser to the identity provider
+  app.get("/api/auth/oidc/login", async (req, res) => {
+    const config = getOidcConfig();
+    if (!config) {
+      return res.status(404).json({ error: "SSO is not configured" });
+    }
+    try {
+      const { url, state } = await beginOidcLogin(config, oidcRedirectUri(req, config));
+      // Lax so it survives the top-level redirect back from the provider
+      res.cookie(OIDC_STATE_COOKIE, state, {
+        httpOnly: true,
+        secure: req.secure,
+        sameSite: "lax",
+        path: OIDC_COOKIE_PATH,
+        maxAge: PENDING_LOGIN_TTL_MS,
+      });
+      res.redirect(url);
+    } catch (error: any) {
+      console.error("OIDC login error:", error);
+      redirectWithOidcError(res, "Could not reach the SSO provider");
+    }
+  });
+
+  // OIDC: provider redirects back here with ?code&state
+  app.get("/api/auth/oidc/callback", async (req, res) => {
+    const config = getOidcConfig();
+    if (!config) {
+      return res.status(404).json({ error: "SSO is not configured" });
+    }
+
+    const browserState = readCookie(req, OIDC_STATE_COOKIE);
+    res.clearCookie(OIDC_STATE_COOKIE, { path: OIDC_COOKIE_PATH });
+
+    const { code, state, error, error_description } = req.query;
+    if (typeof error === "string") {
+      await recordAuditEvent(req, "auth.login_failed", {
+        user: null,
+        details: { reason: "oidc_error", error },
+      });
+      return redirectWithOidcError(res, typeof error_description === "string" ? error_description : error);
+    }
+    if (typeof code !== "string" || typeof state !== "string") {
+      return redirectWithOidcError(res, "Invalid SSO response");
+    }
+
+    try {
+      const identity = await completeOidcLogin(config, code, state, browserState);
+      const user = await findOrCreateOidcUser(identity);
+      const { token, session } = await createSession(user.id, req.headers["user-agent"]);
+      await recordAuditEvent(req, "auth.login", { user, details: { method: "oidc", issuer: identity.issuer } });
+      res.redirect(`/?oidc_code=${createLoginHandoff(token, session, user)}`);
+    } catch (error: any) {
+      console.error("OIDC callback error:", error);
+      await recordAuditEvent(req, "auth.login_failed", {
+        user: null,
+        details: { reason: "oidc_error", error: error.message },
+      });
+      redirectWithOidcError(res, error instanceof OidcError ? error.message : "SSO login failed");
+    }
+  });
+
+  // OIDC: swap the one-time code from the callback redirect for a session token
+  app.post("/api/auth/oidc/exchange", (req, res) => {
+    const { code } = req.body;
+    const handoff = typeof code === "string" ? redeemLoginHandoff(code) : null;
+    if (!handoff) {
+      return res.status(400).json({ error: "SSO login expired - please try again" });
+    }
+    res.json({
+      token: handoff.token,
+      expiresAt: handoff.session.expiresAt,
+      user: toPublicUser(handoff.user),
+      message: "Welcome to VipuDevAI! 💚",
+    });
+  });
+
+  app.get("/api/auth/verify", (req, res) => {
+    const user = currentUser(req);
+    const session = currentSession(req);
+    res.json({
+      valid: true,
+      user: toPublicUser(user),
+      expiresAt: session.expiresAt,
+    });
+  });
+
+  // Swap the current token for a new one with a fresh expiry
+  app.post("/api/auth/rotate", async (req, res) => {
+    try {
+      const previous = currentSession(req);
+      const { token, session } = await rotateSession(previous, req.headers["user-agent"]);
+      closeCollabSessions(previous.userId, previous.id, true);
+      res.json({ token, expiresAt: session.expiresAt });
+    } catch (error) {
+      console.error("Token rotation error:", error);
+      res.status(500).json({ error: "Failed to rotate token" });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const session = currentSession(req);
+      await storage.deleteSession(session.id);
+      closeCollabSessions(session.userId, session.id);
+    } catch (error) {
+      console.error("Logout error:", error);
+    }
+    res.json({ message: "Goodbye! Come back soon! 💚" });
+  });
+
+  app.post("/api/auth/logout-all", async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const revoked = await storage.deleteUserSessions(user.id);
+      closeCollabSessions(user.id);
+      res.json({ revoked, message: "Logged out from all devices 💚" });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to log out all devices" });
+    }
+  });
+
+  // ======================================================
+  // ACCOUNTS - Admins create accounts while signup is closed
+  // ======================================================
+  app.get("/api/users", requireAdmin, async (_req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json({ users: users.map(toPublicUser) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch accounts" });
+    }
+  });
+
+  app.post("/api/users", requireAdmin, async (req, res) => {
+    try {
+      const { username, password } = signupSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "Username already taken" });
+      }
+
+      const user = await storage.createUser({ username, password: await hashPassword(password), role: "member" });
+      await recordAuditEvent(req, "user.create", { details: { userId: user.id, username: user.username } });
+      res.status(201).json({ user: toPublicUser(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid data", details: error.errors });
+      }
+      console.error("Create account error:", error);
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  // ======================================================
+  // API TOKENS - Personal access tokens for scripts & CI
+  // ======================================================
+  app.get("/api/tokens", async (req, res) => {
+    try {
+      const tokens = await storage.getApiTokens(currentUser(req).id);
+      res.json({ tokens: tokens.map(({ tokenHash: _hash, ...rest }) => rest) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/tokens", async (req, res) => {
+    try {
+      const { name, scopes } = createApiTokenSchema.parse(req.body);
+      const token = generateApiToken();
+      const { tokenHash: _hash, ...apiToken } = await storage.createApiToken({
+        userId: currentUser(req).id,
+        name,
+        scopes,
+        tokenHash: hashToken(token),
+        tokenPrefix: token.slice(0, 12),
+      });
+      // The plaintext token is only ever returned here
+      res.status(201).json({ token, apiToken });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0]?.message || "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/tokens/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteApiToken(currentUser(req).id, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "API token not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke API token" });
+    }
+  });
+
+  // ======================================================
+  // AUDIT LOG - Admin only
+  // ======================================================
+  app.get("/api/audit", requireAdmin, async (req, res) => {
+    try {
+      const query = auditQuerySchema.parse(req.query);
+      const { events, total } = await storage.getAuditEvents(query);
+      res.json({ events, total, limit: query.limit, offset: query.offset });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid audit filter", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch audit log" });
+    }
+  });
+
+  // ======================================================
+  // PROJECT CRUD
+  // ======================================================
+  app.get("/api/projects", async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+      const query = projectListQuerySchema.parse(req.query);
+      const [owned, shared, tags] = await Promise.all([
+        storage.getProjects(userId, query),
+        storage.getSharedProjects(userId, query),
+        storage.getProjectTags(userId),
+      ]);
+      res.json({
+        projects: owned.projects,
+        sharedProjects: shared.projects,
+        total: owned.total,
+        sharedTotal: shared.total,
+        tags,
+        limit: query.limit ?? null,
+        offset: query.offset,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid project filter", details: error.errors });
+      }
+      console.error("Error fetching projects:", error);
+      res.status(500).json({ error: "Failed to fetch projects" });
+    }
+  });
+
+  app.get("/api/projects/:id", async (req, res) => {
+    try {
+      const access = await storage.getProjectAccess(currentUser(req).id, req.params.id);
+      if (!access) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      const files = await storage.getProjectFiles(access.project.id);
+      res.json({ project: access.project, role: access.role, files });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch project" });
+    }
+  });
+
+  app.post("/api/projects", async (req, res) => {
+    try {
+      const { templateId, ...data } = createProjectSchema.parse(req.body);
+      if (templateId && !data.files) {
+        const template = await findTemplate(templateId);
+        if (!template) {
+          return res.status(400).json({ error: "Unknown template" });
+        }
+        data.files = template.files;
+      }
+      const project = await storage.createProject(currentUser(req).id, data);
+      res.status(201).json({ project });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create project" });
+    }
+  });
+
+  // New project from an uploaded ZIP or folder (multipart: file | files + paths, name?, description?)
+  app.post("/api/projects/import", importUpload, async (req, res) => {
+    // .fields() always fills req.files keyed by field name
+    const uploaded = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const zip = uploaded?.file?.[0];
+    const folder = uploaded?.files ?? [];
+    const uploads = zip ? [zip, ...folder] : folder;
+    if (uploads.length === 0) {
+      return res.status(400).json({ error: "A ZIP file or folder is required" });
+    }
+
+    try {
+      let result: ImportResult;
+      let defaultName: string;
+      if (zip) {
+        result = extractZipFiles(zip.path);
+        defaultName = zip.originalname.replace(/\.zip$/i, "");
+      } else {
+        const paths: unknown[] = [req.body.paths ?? []].flat();
+        if (paths.length !== folder.length || !paths.every((p) => typeof p === "string")) {
+          return res.status(400).json({ error: "Every uploaded file needs a path" });
+        }
+        if (folder.reduce((total, f) => total + f.size, 0) > FOLDER_IMPORT_MAX_BYTES) {
+          return res.status(400).json({
+            error: `Folder is over ${FOLDER_IMPORT_MAX_BYTES / 1024 / 1024} MB - import it as a ZIP instead`,
+          });
+        }
+        const entries = folder.map((f, i) => ({ path: paths[i] as string, size: f.size, read: () => fs.readFileSync(f.path) }));
+        result = collectProjectFiles(entries);
+        // Browsers prefix every path with the picked folder's name
+        defaultName = entries[0].path.includes("/") ? entries[0].path.split("/")[0] : "";
+      }
+
+      const { files, ...report } = result;
+      if (files.length === 0) {
+        return res.status(400).json({ error: `No text files found in ${zip ? "ZIP" : "folder"}`, ...report });
+      }
+
+      const data = insertProjectSchema.parse({
+        name: req.body.name?.trim() || defaultName || "Imported Project",
+        description: req.body.description?.trim() || null,
+        files,
+      });
+      const project = await storage.createProject(currentUser(req).id, data);
+      res.status(201).json({ project, imported: files.length, ...report });
+    } catch (error) {
+      if (error instanceof ImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      console.error("Project import error:", error);
+      res.status(500).json({ error: "Failed to import project" });
+    } finally {
+      for (const upload of uploads) fs.promises.unlink(upload.path).catch(() => {});
+    }
+  });
+
+  app.patch("/api/projects/:id", async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+      const access = await storage.getProjectAccess(userId, req.params.id);
+      if (!access) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (!hasProjectRole(access.role, "editor")) {
+        return res.status(403).json({ error: "You have view-only access to this project" });
+      }
+
+      const data = insertProjectSchema.partial().parse(req.body);
+      const update = () => storage.updateProject(userId, req.params.id, data);
+      const project = data.files ? await collabWrite(req.params.id, update) : await update();
+      if (!project) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      res.json({ project });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update project" });
+    }
+  });
+
+  // Star/archive for the caller only, so view access is enough
+  app.patch("/api/projects/:id/preferences", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "viewer");
+      if (!access) return;
+
+      const prefs = updateProjectPreferencesSchema.parse(req.body);
+      const preferences = await storage.setProjectPreferences(currentUser(req).id, access.project.id, prefs);
+      res.json({ preferences });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update project preferences" });
+    }
+  });
+
+  app.delete("/api/projects/:id", async (req, res) => {
+    try {
+      const userId = currentUser(req).id;
+      const access = await storage.getProjectAccess(userId, req.params.id);
+      if (!access) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      if (!hasProjectRole(access.role, "admin")) {
+        return res.status(403).json({ error: "Only the owner or a project admin can delete this project" });
+      }
+
+      const deleted = await storage.deleteProject(userId, req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Project not found" });
+      }
+      closeCollabProject(req.params.id);
+      // Queued behind any running git operation; the row is already gone, so a failure only leaves a stray directory
+      await withRepoLock(req.params.id, () => removeRepo(req.params.id)).catch((err) =>
+        console.error(`Failed to remove repository of deleted project ${req.params.id}:`, err),
+      );
+      await recordAuditEvent(req, "project.delete", {
+        details: { projectId: access.project.id, name: access.project.name, ownerId: access.project.userId },
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete project" });
+    }
+  });
+
+  // New project owned by the caller with a copy of the files; read access is enough
+  app.post("/api/projects/:id/duplicate", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "viewer");
+      if (!access) return;
+      const { name, includeChat } = duplicateProjectSchema.parse(req.body ?? {});
+
+      const project = await storage.duplicateProject(currentUser(req).id, access.project, {
+        name: name ?? `${access.project.name} (copy)`,
+        includeChat,
+      });
+      res.status(201).json({ project });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to duplicate project" });
+    }
+  });
+
+  // Download the saved files as an archive (?format=zip|tar.gz&readme=true)
+  app.get("/api/projects/:id/export", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "viewer");
+      if (!access) return;
+      const { format, readme } = projectExportQuerySchema.parse(req.query);
+
+      const files = await storage.getProjectFiles(access.project.id);
+      const entries = readme ? withGeneratedReadme(access.project, files) : files;
+      const name = downloadName(access.project.name);
+
+      if (format === "tar.gz") {
+        res.set({
+          "Content-Type": "application/gzip",
+          "Content-Disposition": `attachment; filename="${name}.tar.gz"`,
+        });
+        return streamTarGz(name, entries, res);
+      }
+
+      res.set({
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${name}.zip"`,
+      });
+      res.send(buildZip(name, entries));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid export options", details: error.errors });
+      }
+      console.error("Project export error:", error);
+      res.status(500).json({ error: "Failed to export project" });
+    }
+  });
+
+  // ======================================================
+  // PROJECT FILES - One file at a time, addressed by path
+  // ======================================================
+  app.get("/api/projects/:id/files", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "viewer");
+      if (!access) return;
+      res.json({ files: await storage.getProjectFiles(access.project.id) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch files" });
+    }
+  });
+
+  // Batch save (the editor's Save button) - one version for all changes
+  app.patch("/api/projects/:id/files", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "editor");
+      if (!access) return;
+      const changes = saveProjectFilesSchema.parse(req.body);
+      const { files, version } = await collabWrite(access.project.id, () =>
+        storage.saveProjectFiles(access.project.id, changes, currentUser(req).id),
+      );
+      res.json({ files, version: { id: version.id, version: version.version, message: version.message, createdAt: version.createdAt } });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid files", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save files" });
+    }
+  });
+
+  app.get("/api/projects/:id/files/:path(*)", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "viewer");
+      if (!access) return;
+      const path = projectFilePathSchema.parse(req.params.path);
+      const file = await storage.getProjectFile(access.project.id, path);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      res.json({ file });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid file path", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to fetch file" });
+    }
+  });
+
+  // Create or overwrite
+  app.put("/api/projects/:id/files/:path(*)", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "editor");
+      if (!access) return;
+      const path = projectFilePathSchema.parse(req.params.path);
+      const { content, language, message } = writeProjectFileSchema.parse(req.body);
+
+      const existing = await storage.getProjectFile(access.project.id, path);
+      const file = await collabWrite(access.project.id, () =>
+        storage.upsertProjectFile(
+          access.project.id,
+          { path, content, language: language ?? existing?.language ?? languageForPath(path) },
+          currentUser(req).id,
+          message,
+        ),
+      );
+      res.status(existing ? 200 : 201).json({ file });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid file", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save file" });
+    }
+  });
+
+  // Rename / move
+  app.patch("/api/projects/:id/files/:path(*)", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "editor");
+      if (!access) return;
+      const path = projectFilePathSchema.parse(req.params.path);
+      const { newPath, message } = renameProjectFileSchema.parse(req.body);
+
+      if (newPath !== path && (await storage.getProjectFile(access.project.id, newPath))) {
+        return res.status(409).json({ error: `"${newPath}" already exists` });
+      }
+      const file = await collabWrite(access.project.id, () =>
+        storage.renameProjectFile(access.project.id, path, newPath, currentUser(req).id, message),
+      );
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      res.json({ file });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid file path", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to rename file" });
+    }
+  });
+
+  // Rename / move a folder - every file under it, as one version
+  app.patch("/api/projects/:id/folders/:path(*)", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "editor");
+      if (!access) return;
+      const path = projectFilePathSchema.parse(req.params.path).replace(/\/+$/, "");
+      const { newPath: target, message } = renameProjectFileSchema.parse(req.body);
+      const newPath = target.replace(/\/+$/, "");
+
+      if (newPath === path || newPath.startsWith(`${path}/`)) {
+        return res.status(400).json({ error: "A folder can't be moved into itself" });
+      }
+      const paths = new Set((await storage.getProjectFiles(access.project.id)).map((f) => f.path));
+      const conflict = Array.from(paths).find(
+        (p) => p.startsWith(`${path}/`) && paths.has(newPath + p.slice(path.length)),
+      );
+      if (conflict) {
+        return res.status(409).json({ error: `"${newPath + conflict.slice(path.length)}" already exists` });
+      }
+      if (paths.has(newPath)) {
+        return res.status(409).json({ error: `A file named "${newPath}" already exists` });
+      }
+
+      const moved = await collabWrite(access.project.id, () =>
+        storage.moveProjectFolder(access.project.id, path, newPath, currentUser(req).id, message),
+      );
+      if (moved === 0) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      res.json({ moved });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid folder path", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to move folder" });
+    }
+  });
+
+  app.delete("/api/projects/:id/files/:path(*)", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "editor");
+      if (!access) return;
+      const path = projectFilePathSchema.parse(req.params.path);
+      const deleted = await collabWrite(access.project.id, () =>
+        storage.deleteProjectFile(access.project.id, path, currentUser(req).id),
+      );
+      if (!deleted) {
+        return res.status(404).json({ error: "File not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid file path", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to delete file" });
+    }
+  });
+
+  // ======================================================
+  // PROJECT VERSIONS - Immutable snapshots, one per save
+  // ======================================================
+  app.get("/api/projects/:id/versions", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "viewer");
+      if (!access) return;
+      res.json({ versions: await storage.getProjectVersions(access.project.id) });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch versions" });
+    }
+  });
+
+  app.get("/api/projects/:id/versions/:version(\\d+)", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "viewer");
+      if (!access) return;
+      const version = await storage.getProjectVersion(access.project.id, Number(req.params.version));
+      if (!version) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      res.json({ version });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch version" });
+    }
+  });
+
+  app.post("/api/projects/:id/versions/:version(\\d+)/restore", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "editor");
+      if (!access) return;
+      const version = await collabWrite(access.project.id, () =>
+        storage.restoreProjectVersion(access.project.id, Number(req.params.version), currentUser(req).id),
+      );
+      if (!version) {
+        return res.status(404).json({ error: "Version not found" });
+      }
+      res.json({ version });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to restore version" });
+    }
+  });
+
+  // ======================================================
+  // PROJECT GIT - Local repository mirroring the project files
+  // Saved files are the working tree; nothing is pushed anywhere
+  // ======================================================
+  app.post("/api/projects/:id/git/init", async (req, res) => {
+    try {
+      const access = await requireProjectAccess(req, res, "editor");
+      if (!access) return;
+      const projectId = access.project.id;
+      if (access.project.gitEnabled && (await repoExists(projectId))) {
+        return res.status(409).json({ error: "This project is already a git repository" });
+      }
+
+      const user = currentUser(req);
+      const commit = await withRepoLock(projectId, async () => {
+        const dir = repoDir(projectId);
+        await initRepo(dir);
+        await syncWorkingTree(projectId);
+        return (await getStatus(dir)).length > 0 ? commitAll(dir, "Initial commit", gitAuthor(user)) : null;
+      });
+      await storage.setProjectGitEnabled(projectId, true);
+      res.status(201).json({ branch: await currentBranch(repoDir(projectId)), commit });
+    } catch (error) {
+      sendGitError(res, error, "Failed to initialize repository");
+    }
+  });
+
+  app.get("/api/projects/:id/git/status", async (req, res) => {
+    try {
+      const access = await requireGitProject(req, res, "viewer");
+      if (!access) return;
+      const projectId = access.project.id;
+      const status = await withRepoLock(projectId, async () => {
+        await syncWorkingTree(projectId);
+        const dir = repoDir(projectId);
+        return { branch: await currentBranch(dir), changes: await getStatus(dir) };
+      });
+      res.json(status);
+    } catch (error) {
+      sendGitError(res, error, "Failed to read repository status");
+    }
+  });
+
+  app.post("/api/projects/:id/git/commit", async (req, res) => {
+    try {
+      const access = await requireGitProject(req, res, "editor");
+      if (!access) return;
+      const { message } = gitCommitSchema.parse(req.body);
+      const projectId = access.project.id;
+      const user = currentUser(req);
+      const sha = await withRepoLock(projectId, async () => {
+        await syncWorkingTree(projectId);
+        return commitAll(repoDir(projectId), message, gitAuthor(user));
+      });
+      res.status(201).json({ commit: { sha, message } });
+    } catch (error) {
+      sendGitError(res, error, "Failed to commit");
+    }
+  });
+
+  app.get("/api/projects/:id/git/log", async (req, res) => {
+    try {
+      const access = await requireGitProject(req, res, "viewer");
+      if (!access) return;
+      const { ref, limit } = gitLogQuerySchema.parse(req.query);
+      const commits = await withRepoLock(access.project.id, () => getLog(repoDir(access.project.id), ref, limit));
+      res.json({ commits });
+    } catch (error) {
+      sendGitError(res, error, "Failed to read commit log");
+    }
+  });
+
+  app.get("/api/projects/:id/git/branches", async (req, res) => {
+    try {
+      const access = await requireGitProject(req, res, "viewer");
+      if (!access) return;
+      res.json(await withRepoLock(access.project.id, () => listBranches(repoDir(access.project.id))));
+    } catch (error) {
+      sendGitError(res, error, "Failed to list branches");
+    }
+  });
+
+  app.post("/api/projects/:id/git/branches", async (req, res) => {
+    try {
+      const access = await requireGitProject(req, res, "editor");
+      if (!access) return;
+      const { name, from } = gitBranchSchema.parse(req.body);
+      await withRepoLock(access.project.id, () => createBranch(repoDir(access.project.id), name, from));
+      res.status(201).json({ branch: name });
+    } catch (error) {
+      sendGitError(res, error, "Failed to create branch");
+    }
+  });
+
+  // Switching branches rewrites the project's files (recorded as a new version)
+  app.post("/api/projects/:id/git/checkout", async (req, res) => {
+    try {
+      const access = await requireGitProject(req, res, "editor");
+      if (!access) return;
+      const { branch, force } = gitCheckoutSchema.parse(req.body);
+      const projectId = access.project.id;
+      const userId = currentUser(req).id;
+
+      const result = await collabWrite(projectId, () => withRepoLock(projectId, async () => {
+        const dir = repoDir(projectId);
+        await syncWorkingTree(projectId);
+        const changes = await getStatus(dir);
+        if (changes.length > 0 && !force) return { changes };
+
+        await checkoutBranch(dir, branch, force);
+        const files = await readWorkingTree(dir);
+        const version = await storage.setProjectFiles(projectId, files, userId, `Checked out ${branch}`);
+        return { files, version };
+      }));
+
+      if ("changes" in result) {
+        return res.status(409).json({
+          error: "Commit or discard your uncommitted changes before switching branches",
+          changes: result.changes,
+        });
+      }
+      res.json({ branch, files: result.files, version: result.version.version });
+    } catch (error) {
+      sendGitError(res, error, "Failed to check out branch");
+    }
+  });
+
+  app.get("/api/projects/:id/git/diff", async (req, res) => {
+    try {
+      const access = await requireGitProject(req, res, "viewer");
+      if (!access) return;
+      const { from, to } = gitDiffQuerySchema.parse(req.query);
+      const projectId = access.project.id;
+      const diff = await withRepoLock(projectId, async () => {
+        await syncWorkingTree(projectId);
+        return getDiff(repoDir(projectId), from, to);
+      });
+      res.json(diff);
+    } catch (error) {
+      sendGitError(res, error, "Failed to diff");
+    }
+  });
+
+  // The whole repository: a git bundle (clone with `git clone x.bundle`) or a zip including .git
+  app.get("/api/projects/:id/git/export", async (req, res) => {
+    try {
+      const access = await requireGitProject(req, res, "viewer");
+      if (!access) return;
+      const format = gitExportFormatSchema.parse(req.query.format ?? "bundle");
+      const projectId = access.project.id;
+      const buffer = await withRepoLock(projectId, async () => {
+        await syncWorkingTree(projectId);
+        return exportRepo(repoDir(projectId), format);
       });
-    }
 
-    // Add related topics as sources
-    if (data.RelatedTopics?.length > 0) {
-      data.RelatedTopics.slice(0, 5).forEach((topic: any) => {
-        if (topic.Text) {
-          sources.push({
-            title: topic.FirstURL ? topic.FirstURL.split('/').pop()?.replace(/_/g, ' ') || "Related" : "Related Topic",
-            snippet: topic.Text,
-            url: topic.FirstURL
-          });
-        }
+      const name = downloadName(access.project.name);
+      res.set({
+        "Content-Type": format === "zip" ? "application/zip" : "application/octet-stream",
+        "Content-Disposition": `attachment; filename="${name}${format === "zip" ? "-git.zip" : ".bundle"}"`,
       });
+      res.send(buffer);
+    } catch (error) {
+      sendGitError(res, error, "Failed to export repository");
     }
+  });
 
-    // Search Wikipedia for additional context
+  // ======================================================
+  // PROJECT MEMBERS - Sharing & Roles
+  // Admins manage viewers/editors; only the owner manages admins
+  // ======================================================
+  app.get("/api/projects/:id/members", async (req, res) => {
     try {
-      const wikiResponse = await fetch(
-        `https://en.wikipedia.org/api/rest_v1/page/summary/${encoded}`
-      );
-      if (wikiResponse.ok) {
-        const wikiData = await wikiResponse.json();
-        if (wikiData.extract && !sources.some(s => s.snippet === wikiData.extract)) {
-          sources.push({
-            title: wikiData.title || "Wikipedia",
-            snippet: wikiData.extract,
-            url: wikiData.content_urls?.desktop?.page
-          });
-        }
+      const access = await storage.getProjectAccess(currentUser(req).id, req.params.id);
+      if (!access) {
+        return res.status(404).json({ error: "Project not found" });
       }
-    } catch {}
 
-  } catch (err) {
-    console.error("Intelligent search error:", err);
-  }
+      const members = await storage.getProjectMembers(req.params.id);
+      const owner = access.project.userId ? await storage.getUser(access.project.userId) : undefined;
+      res.json({
+        owner: owner ? { userId: owner.id, username: owner.username, role: "owner" } : null,
+        members,
+        role: access.role,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch members" });
+    }
+  });
 
-  return sources;
-}
+  app.post("/api/projects/:id/members", async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const access = await storage.getProjectAccess(user.id, req.params.id);
+      if (!access) {
+        return res.status(404).json({ error: "Project not found" });
+      }
 
-async function processNLUQuery(
-  query: string,
-  openai: OpenAI,
-  searchResults: SearchSource[]
-): Promise<any> {
-  try {
-    const searchContext = searchResults.length > 0
-      ? searchResults.map((s, i) => `[${i + 1}] ${s.title}: ${s.snippet}`).join("\n\n")
-      : "No external search results available.";
+      const { username, role } = inviteProjectMemberSchema.parse(req.body);
+      if (!hasProjectRole(access.role, role === "admin" ? "owner" : "admin")) {
+        return res.status(403).json({ error: "You don't have permission to share this project with that role" });
+      }
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: NLU_SYSTEM_PROMPT },
-        {
-          role: "user",
-          content: `User Query: "${query}"
+      const invitee = await storage.getUserByUsername(username);
+      if (!invitee) {
+        return res.status(404).json({ error: `No user named "${username}"` });
+      }
+      if (invitee.id === access.project.userId) {
+        return res.status(409).json({ error: "That user already owns this project" });
+      }
+      if (await storage.getProjectMember(req.params.id, invitee.id)) {
+        return res.status(409).json({ error: "That user is already a member" });
+      }
 
-Search Results:
-${searchContext}
+      await storage.addProjectMember(req.params.id, invitee.id, role, user.id);
+      res.status(201).json({ member: { userId: invitee.id, username: invitee.username, role } });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to add member" });
+    }
+  });
 
-Analyze this query and provide a comprehensive, well-structured answer in the JSON format specified.`
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 2000,
-      response_format: { type: "json_object" }
-    });
+  app.patch("/api/projects/:id/members/:userId", async (req, res) => {
+    try {
+      const access = await storage.getProjectAccess(currentUser(req).id, req.params.id);
+      if (!access) {
+        return res.status(404).json({ error: "Project not found" });
+      }
 
-    const content = completion.choices[0]?.message?.content || "{}";
-    return JSON.parse(content);
-  } catch (err) {
-    console.error("NLU processing error:", err);
-    return {
-      rewrittenQuery: query,
-      intent: "General information request",
-      reasoning: "Processing the query directly.",
-      answer: "I encountered an issue processing your query. Please try again.",
-      keyPoints: [],
-      sources: [],
-      confidence: 0.5,
-      followUpQuestions: []
-    };
-  }
-}
+      const { role } = updateProjectMemberSchema.parse(req.body);
+      const member = await storage.getProjectMember(req.params.id, req.params.userId);
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
 
-// ========================================================
-// ROUTES
-// ========================================================
-export async function registerRoutes(
-  httpServer: Server,
-  app: Express
-): Promise<Server> {
-  // ======================================================
-  // HEALTH CHECK
-  // ======================================================
-  app.get("/api/health", (_req, res) => {
-    res.json({
-      status: "ok",
-      service: "VipuDevAI",
-      version: "2.0.0",
-      timestamp: new Date().toISOString(),
-    });
+      const touchesAdmin = role === "admin" || member.role === "admin";
+      if (!hasProjectRole(access.role, touchesAdmin ? "owner" : "admin")) {
+        return res.status(403).json({ error: "You don't have permission to change this member's role" });
+      }
+
+      const updated = await storage.updateProjectMemberRole(req.params.id, req.params.userId, role);
+      await refreshCollabAccess(req.params.id);
+      res.json({ member: updated });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update member" });
+    }
   });
 
-  // ======================================================
-  // AUTH ROUTES
-  // ======================================================
-  app.post("/api/auth/login", (req, res) => {
-    const { username, password } = req.body;
+  app.delete("/api/projects/:id/members/:userId", async (req, res) => {
+    try {
+      const user = currentUser(req);
+      const access = await storage.getProjectAccess(user.id, req.params.id);
+      if (!access) {
+        return res.status(404).json({ error: "Project not found" });
+      }
 
-    if (username === ADMIN_USERNAME && password === ADMIN_PASSWORD) {
-      const token = generateToken();
-      tokens.add(token);
-      return res.json({ token, message: "Welcome to VipuDevAI! 💚" });
-    }
+      const member = await storage.getProjectMember(req.params.id, req.params.userId);
+      if (!member) {
+        return res.status(404).json({ error: "Member not found" });
+      }
 
-    res.status(401).json({ error: "Invalid credentials" });
-  });
+      // Anyone may leave a project; removing others needs admin (owner for admins)
+      const isSelf = member.userId === user.id;
+      if (!isSelf && !hasProjectRole(access.role, member.role === "admin" ? "owner" : "admin")) {
+        return res.status(403).json({ error: "You don't have permission to remove this member" });
+      }
 
-  app.get("/api/auth/verify", (req, res) => {
-    const token = req.headers.authorization?.replace("Bearer ", "");
-    if (token && tokens.has(token)) {
-      return res.json({ valid: true });
+      await storage.removeProjectMember(req.params.id, req.params.userId);
+      await refreshCollabAccess(req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to remove member" });
     }
-    res.status(401).json({ error: "Invalid token" });
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    const token = req.headers.authorization?.replace("Bearer ", "");
-    if (token) tokens.delete(token);
-    res.json({ message: "Goodbye! Come back soon! 💚" });
+  // ======================================================
+  // CODE SEARCH - Literal or regex search over saved files
+  // in every project the user can read
+  // ======================================================
+  app.get("/api/search/code", async (req, res) => {
+    try {
+      const query = codeSearchQuerySchema.parse(req.query);
+      const pattern = compileSearchPattern(query);
+      // Regex searches may have no literal to filter on, so candidates are read in
+      // batches until enough hits turn up or the scan limit is reached
+      const filter = {
+        projectId: query.projectId,
+        terms: searchTerms(query),
+        caseSensitive: query.caseSensitive && !query.regex,
+      };
+
+      const results: CodeSearchResult[] = [];
+      let matchCount = 0;
+      let scanned = 0;
+      let exhausted = false;
+      while (matchCount < query.limit && scanned < CODE_SEARCH_MAX_FILES) {
+        const batch = await storage.searchProjectFiles(currentUser(req).id, filter, CODE_SEARCH_BATCH_FILES, scanned);
+        scanned += batch.length;
+        for (const { content, ...file } of batch) {
+          const matches = findMatches(content, pattern, query.context, query.limit - matchCount);
+          if (matches.length === 0) continue;
+          results.push({ ...file, matches });
+          matchCount += matches.length;
+          if (matchCount >= query.limit) break;
+        }
+        if (batch.length < CODE_SEARCH_BATCH_FILES) {
+          exhausted = true;
+          break;
+        }
+      }
+
+      res.json({ results, matchCount, truncated: matchCount >= query.limit || !exhausted });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid search", details: error.errors });
+      }
+      if (error instanceof CodeSearchError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Code search error:", error);
+      res.status(500).json({ error: "Search failed" });
+    }
   });
 
   // ======================================================
-  // PROJECT CRUD
+  // PROJECT TEMPLATES - Starter file sets for new projects
+  // Everyone can browse; only admins add, edit or remove.
+  // Built-in templates are read-only.
   // ======================================================
-  app.get("/api/projects", async (_req, res) => {
+  app.get("/api/templates", async (req, res) => {
     try {
-      const projects = await storage.getProjects();
-      res.json({ projects });
+      const templates = await listTemplates();
+      res.json({ templates, canManage: currentUser(req).role === "admin" });
     } catch (error) {
-      console.error("Error fetching projects:", error);
-      res.status(500).json({ error: "Failed to fetch projects" });
+      res.status(500).json({ error: "Failed to fetch templates" });
     }
   });
 
-  app.get("/api/projects/:id", async (req, res) => {
+  app.get("/api/templates/:id", async (req, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
-      if (!project) {
-        return res.status(404).json({ error: "Project not found" });
+      const template = await findTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
       }
-      res.json({ project });
+      res.json({ template });
     } catch (error) {
-      res.status(500).json({ error: "Failed to fetch project" });
+      res.status(500).json({ error: "Failed to fetch template" });
     }
   });
 
-  app.post("/api/projects", async (req, res) => {
+  // Body: { name, description?, files } or { name, description?, projectId }
+  // to save an existing project's current files as a template
+  app.post("/api/templates", requireAdmin, async (req, res) => {
     try {
-      const data = insertProjectSchema.parse(req.body);
-      const project = await storage.createProject(data);
-      res.status(201).json({ project });
+      const user = currentUser(req);
+      const { projectId, files, ...data } = createTemplateSchema.parse(req.body);
+
+      let templateFiles = files;
+      if (projectId) {
+        const access = await storage.getProjectAccess(user.id, projectId);
+        if (!access) {
+          return res.status(404).json({ error: "Project not found" });
+        }
+        templateFiles = await storage.getProjectFiles(projectId);
+        if (templateFiles.length === 0) {
+          return res.status(400).json({ error: "Project has no files" });
+        }
+      }
+
+      const template = await storage.createTemplate({
+        name: data.name,
+        description: data.description ?? null,
+        files: templateFiles!,
+        createdBy: user.id,
+      });
+      res.status(201).json({ template });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      res.status(500).json({ error: "Failed to create project" });
+      res.status(500).json({ error: "Failed to create template" });
     }
   });
 
-  app.patch("/api/projects/:id", async (req, res) => {
+  app.patch("/api/templates/:id", requireAdmin, async (req, res) => {
+    if (isBuiltInTemplate(req.params.id)) {
+      return res.status(403).json({ error: "Built-in templates can't be changed" });
+    }
+
     try {
-      const data = insertProjectSchema.partial().parse(req.body);
-      const project = await storage.updateProject(req.params.id, data);
-      if (!project) {
-        return res.status(404).json({ error: "Project not found" });
+      const data = updateTemplateSchema.parse(req.body);
+      const template = await storage.updateTemplate(req.params.id, data);
+      if (!template) {
+        return res.status(404).json({ error: "Template not found" });
       }
-      res.json({ project });
+      res.json({ template });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Invalid data", details: error.errors });
       }
-      res.status(500).json({ error: "Failed to update project" });
+      res.status(500).json({ error: "Failed to update template" });
     }
   });
 
-  app.delete("/api/projects/:id", async (req, res) => {
+  app.delete("/api/templates/:id", requireAdmin, async (req, res) => {
+    if (isBuiltInTemplate(req.params.id)) {
+      return res.status(403).json({ error: "Built-in templates can't be deleted" });
+    }
+
     try {
-      const deleted = await storage.deleteProject(req.params.id);
+      const deleted = await storage.deleteTemplate(req.params.id);
       if (!deleted) {
-        return res.status(404).json({ error: "Project not found" });
+        return res.status(404).json({ error: "Template not found" });
       }
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ error: "Failed to delete project" });
+      res.status(500).json({ error: "Failed to delete template" });
     }
   });
 
@@ -588,7 +2078,7 @@ export async function registerRoutes(
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
       const projectId = (req.query.projectId as string) || null;
-      const messages = await storage.getChatMessages(limit, projectId);
+      const messages = await storage.getChatMessages(currentUser(req).id, limit, projectId);
       res.json({ messages });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch chat history" });
@@ -598,7 +2088,7 @@ export async function registerRoutes(
   app.post("/api/chat", async (req, res) => {
     try {
       const data = insertChatMessageSchema.parse(req.body);
-      const message = await storage.createChatMessage(data);
+      const message = await storage.createChatMessage(currentUser(req).id, data);
       res.status(201).json({ message });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -611,7 +2101,7 @@ export async function registerRoutes(
   app.delete("/api/chat/history", async (req, res) => {
     try {
       const projectId = (req.query.projectId as string) || null;
-      await storage.clearChatHistory(projectId);
+      await storage.clearChatHistory(currentUser(req).id, projectId);
       res.json({ success: true });
     } catch (error) {
       res.status(500).json({ error: "Failed to clear history" });
@@ -624,7 +2114,7 @@ export async function registerRoutes(
   app.get("/api/executions", async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
-      const executions = await storage.getCodeExecutions(limit);
+      const executions = await storage.getCodeExecutions(currentUser(req).id, limit);
       res.json({ executions });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch executions" });
@@ -634,7 +2124,7 @@ export async function registerRoutes(
   app.post("/api/executions", async (req, res) => {
     try {
       const data = insertCodeExecutionSchema.parse(req.body);
-      const execution = await storage.createCodeExecution(data);
+      const execution = await storage.createCodeExecution(currentUser(req).id, data);
       res.status(201).json({ execution });
     } catch (error) {
       res.status(400).json({ error: "Invalid execution data" });
@@ -644,10 +2134,10 @@ export async function registerRoutes(
   // ======================================================
   // CONFIG
   // ======================================================
-  app.get("/api/config", async (_req, res) => {
+  app.get("/api/config", async (req, res) => {
     try {
-      const config = await storage.getConfig();
-      res.json({ config: config || {} });
+      const config = await storage.getConfig(currentUser(req).id);
+      res.json({ config: toPublicConfig(config) });
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch config" });
     }
@@ -655,25 +2145,36 @@ export async function registerRoutes(
 
   app.post("/api/config", async (req, res) => {
     try {
-      const data = insertUserConfigSchema.parse(req.body);
-      const config = await storage.updateConfig(data);
-      res.json({ config });
+      const data = encryptConfigSecrets(insertUserConfigSchema.parse(req.body));
+      const config = await storage.updateConfig(currentUser(req).id, data);
+      // Field names only - never the (secret) values
+      await recordAuditEvent(req, "config.update", {
+        details: { fields: Object.keys(data).filter((key) => data[key as keyof InsertUserConfig] !== undefined) },
+      });
+      res.json({ config: toPublicConfig(config) });
     } catch (error) {
-      res.status(400).json({ error: "Invalid config" });
+      if (error instanceof SecretsNotConfiguredError) {
+        return res.status(500).json({ error: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid config" });
+      }
+      console.error("Config update error:", error);
+      res.status(500).json({ error: "Failed to save config" });
     }
   });
 
   // ======================================================
   // VIPU AI ASSISTANT - The Heart of VipuDevAI 💚
   // ======================================================
-  app.post("/api/assistant/chat", async (req, res) => {
+  app.post("/api/assistant/chat", enforceClientKeyPolicy, async (req, res) => {
     const { messages, codeContext, projectId, apiKey, searchEnabled } = req.body;
 
-    const openai = getOpenAI(apiKey);
+    const openai = await getOpenAI(currentUser(req).id, apiKey);
     if (!openai) {
       return res.status(400).json({
         error: "OpenAI API key required",
-        hint: "Please add your OpenAI API key in the Chat page",
+        hint: "Please add your OpenAI API key in Config",
       });
     }
 
@@ -729,6 +2230,7 @@ export async function registerRoutes(
 
       // Build conversation with memory
       const conversation = await buildConversation(
+        currentUser(req).id,
         messages || [],
         codeContext,
         projectId
@@ -778,12 +2280,12 @@ You have access to real-time data. Always use this information when users ask ab
       if (messages?.length > 0) {
         const lastUserMsg = messages[messages.length - 1];
         try {
-          await storage.createChatMessage({
+          await storage.createChatMessage(currentUser(req).id, {
             role: "user",
             content: lastUserMsg.content,
             projectId: projectId || null,
           });
-          await storage.createChatMessage({
+          await storage.createChatMessage(currentUser(req).id, {
             role: "assistant",
             content: reply,
             projectId: projectId || null,
@@ -807,21 +2309,130 @@ You have access to real-time data. Always use this information when users ask ab
     }
   });
 
+  // ======================================================
+  // CODE ACTIONS - Explain, fix, test, refactor or document
+  // the code selected in the editor
+  // ======================================================
+  app.post("/api/assistant/code-action", enforceClientKeyPolicy, async (req, res) => {
+    try {
+      const { action, code, path: filePath, language, fileContent, projectPaths } = codeActionRequestSchema.parse(req.body);
+
+      const openai = await getOpenAI(currentUser(req).id, req.body.apiKey);
+      if (!openai) {
+        return res.status(400).json({
+          error: "OpenAI API key required",
+          hint: "Please add your OpenAI API key in Config",
+        });
+      }
+
+      let context = `File: ${filePath}${language ? ` (${language})` : ""}`;
+      if (fileContent && fileContent !== code) {
+        context += `\n\nWhole file, for context:\n${fileContent}`;
+      }
+      if (action === "tests" && projectPaths?.length) {
+        context += `\n\nFiles in the project:\n${projectPaths.join("\n")}`;
+      }
+
+      const completion = await openai.chat.completions.create({
+        model: "gpt-4o",
+        messages: [
+          {
+            role: "system",
+            content: `${VIPU_SYSTEM_PROMPT}\n\nYou are working inside the user's code editor. ${CODE_ACTION_PROMPTS[action]}\n\n${CODE_ACTION_REPLY_FORMAT}`,
+          },
+          { role: "user", content: `${context}\n\nSelected code:\n${code}` },
+        ],
+        temperature: 0.2,
+        max_tokens: 4096,
+        response_format: { type: "json_object" },
+      });
+
+      const reply = codeActionReplySchema.safeParse(JSON.parse(completion.choices[0]?.message?.content || "{}"));
+      const replyCode = reply.success && reply.data.code ? stripCodeFence(reply.data.code) : null;
+      if (!reply.success || (action !== "explain" && !replyCode)) {
+        return res.status(502).json({ error: "The assistant didn't return usable code - please try again" });
+      }
+
+      let resultPath = filePath;
+      if (action === "tests") {
+        const suggested = projectFilePathSchema.safeParse(reply.data.path ?? "");
+        resultPath = suggested.success ? suggested.data : defaultTestPath(filePath);
+      }
+
+      const result: CodeActionResult = {
+        action,
+        explanation: reply.data.explanation,
+        code: action === "explain" ? null : replyCode,
+        path: resultPath,
+      };
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid code action", details: error.errors });
+      }
+      console.error("Code action error:", error);
+      res.status(500).json({ error: "Code action failed", details: error.message });
+    }
+  });
+
+  // ======================================================
+  // INLINE COMPLETIONS - Short suggestions at the cursor
+  // ======================================================
+  app.post("/api/assistant/complete", enforceClientKeyPolicy, async (req, res) => {
+    try {
+      const { path: filePath, language, prefix, suffix, neighbors } = completionRequestSchema.parse(req.body);
+
+      const openai = await getOpenAI(currentUser(req).id, req.body.apiKey);
+      if (!openai) {
+        return res.status(400).json({
+          error: "OpenAI API key required",
+          hint: "Please add your OpenAI API key in Config",
+        });
+      }
+
+      const related = neighbors.map((n) => `=== ${n.path} ===\n${n.content}`).join("\n\n");
+      const completion = await openai.chat.completions.create({
+        // Suggestions have to keep up with typing - the small model is fast enough
+        model: "gpt-4o-mini",
+        messages: [
+          { role: "system", content: COMPLETION_SYSTEM_PROMPT },
+          {
+            role: "user",
+            content: `${related ? `Other files in the project:\n${related}\n\n` : ""}=== ${filePath}${language ? ` (${language})` : ""} ===\n${prefix}<CURSOR>${suffix}`,
+          },
+        ],
+        temperature: 0.1,
+        max_tokens: 128,
+      });
+
+      let text = stripCodeFence(completion.choices[0]?.message?.content ?? "");
+      // Drop a suggestion that just repeats what follows the cursor
+      if (text.trim() && suffix.trimStart().startsWith(text.trim())) text = "";
+      res.json({ completion: text });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid completion request", details: error.errors });
+      }
+      console.error("Completion error:", error);
+      res.status(500).json({ error: "Completion failed", details: error.message });
+    }
+  });
+
   // ======================================================
   // INTELLIGENT SEARCH - Perplexity-style NLU Search 🔍
   // ======================================================
-  app.post("/api/assistant/search", async (req, res) => {
+  app.post("/api/assistant/search", enforceClientKeyPolicy, async (req, res) => {
     const { query, apiKey } = req.body;
 
     if (!query || query.trim().length === 0) {
       return res.status(400).json({ error: "Query is required" });
     }
 
-    const openai = getOpenAI(apiKey);
+    const openai = await getOpenAI(currentUser(req).id, apiKey);
     if (!openai) {
       return res.status(400).json({
         error: "OpenAI API key required",
-        hint: "Please add your OpenAI API key in the Chat page",
+        hint: "Please add your OpenAI API key in Config",
       });
     }
 
@@ -890,6 +2501,9 @@ You have access to real-time data. Always use this information when users ask ab
             fs.rmSync(tempDir, { recursive: true, force: true });
           } catch {}
 
+          recordAuditEvent(req, "code.execute", {
+            details: { language: isPython ? "python" : "javascript", exitCode: error?.code || 0, codeLength: code.length },
+          });
           res.json({
             stdout: stdout || "",
             stderr: stderr || "",
@@ -907,14 +2521,14 @@ You have access to real-time data. Always use this information when users ask ab
   // ======================================================
   // IMAGE GENERATION - DALL·E
   // ======================================================
-  app.post("/api/generate-image", async (req, res) => {
+  app.post("/api/generate-image", enforceClientKeyPolicy, async (req, res) => {
     const { prompt, size, apiKey } = req.body;
 
     if (!prompt) {
       return res.status(400).json({ error: "Prompt is required" });
     }
 
-    const openai = getOpenAI(apiKey);
+    const openai = await getOpenAI(currentUser(req).id, apiKey);
     if (!openai) {
       return res.status(400).json({ error: "OpenAI API key required" });
     }
@@ -980,13 +2594,13 @@ You have access to real-time data. Always use this information when users ask ab
   // ======================================================
   // ANALYZE ZIP - AI Code Review
   // ======================================================
-  app.post("/api/analyze-zip", upload.single("file"), async (req: MulterRequest, res) => {
+  app.post("/api/analyze-zip", upload.single("file"), enforceClientKeyPolicy, async (req: MulterRequest, res) => {
     if (!req.file) {
       return res.status(400).json({ error: "File is required" });
     }
 
     const apiKey = req.body.apiKey;
-    const openai = getOpenAI(apiKey);
+    const openai = await getOpenAI(currentUser(req).id, apiKey);
 
     if (!openai) {
       return res.status(400).json({ error: "OpenAI API key required" });
@@ -1071,23 +2685,30 @@ You have access to real-time data. Always use this information when users ask ab
   // APP BUILDER - Generative Developer Agent
   // Builds complete full-stack applications
   // ======================================================
-  app.post("/api/build", async (req, res) => {
-    const { prompt, techStack, apiKey } = req.body;
+  app.post("/api/build", enforceClientKeyPolicy, async (req, res) => {
+    const { prompt, techStack, templateId, apiKey } = req.body;
 
     if (!prompt) {
       return res.status(400).json({ error: "Project description is required" });
     }
 
-    const openai = getOpenAI(apiKey);
+    const openai = await getOpenAI(currentUser(req).id, apiKey);
     if (!openai) {
       return res.status(400).json({
         error: "OpenAI API key required",
-        hint: "Please add your OpenAI API key",
+        hint: "Please add your OpenAI API key in Config",
       });
     }
 
     try {
       const techStackInfo = techStack ? `\n\nUSER REQUESTED TECH STACK: ${techStack}` : "";
+
+      // A starter template is handed to the model as the code to build on
+      const template = typeof templateId === "string" ? await findTemplate(templateId) : undefined;
+      const starterInfo = template
+        ? `\n\nSTART FROM THIS "${template.name}" STARTER (extend or replace these files as needed):\n\n` +
+          template.files.map((f) => `FILE: ${f.path}\n\`\`\`${f.language}\n${f.content}\n\`\`\``).join("\n\n")
+        : "";
       
       const completion = await openai.chat.completions.create({
         model: "gpt-4o",
@@ -1098,7 +2719,7 @@ You have access to real-time data. Always use this information when users ask ab
           },
           {
             role: "user",
-            content: `Build me: ${prompt}\n\nGenerate ALL files for a complete, production-ready application. Start immediately with the file outputs.`,
+            content: `Build me: ${prompt}${starterInfo}\n\nGenerate ALL files for a complete, production-ready application. Start immediately with the file outputs.`,
           },
         ],
         temperature: 0.3,
@@ -1128,17 +2749,38 @@ You have access to real-time data. Always use this information when users ask ab
 
   // ======================================================
   // DOWNLOAD PROJECT - Create ZIP from generated files
+  // format "bundle" / "git-zip" wraps the files in a fresh
+  // one-commit git repository (GitHub-ready export)
   // ======================================================
-  app.post("/api/download-project", (req, res) => {
-    const { files, projectName } = req.body;
+  app.post("/api/download-project", async (req, res) => {
+    const { files, projectName, format = "zip" } = req.body;
 
     if (!files || !Array.isArray(files) || files.length === 0) {
       return res.status(400).json({ error: "Files are required" });
     }
+    if (!["zip", "bundle", "git-zip"].includes(format)) {
+      return res.status(400).json({ error: "format must be zip, bundle or git-zip" });
+    }
 
     try {
+      const safeName = downloadName(projectName || "vipudev-project");
+
+      if (format !== "zip") {
+        const repoFiles = z.array(projectFileSchema).parse(files);
+        const buffer = await exportFilesAsRepo(
+          repoFiles,
+          "Initial commit from VipuDevAI App Builder",
+          gitAuthor(currentUser(req)),
+          format === "bundle" ? "bundle" : "zip",
+        );
+        res.set({
+          "Content-Type": format === "bundle" ? "application/octet-stream" : "application/zip",
+          "Content-Disposition": `attachment; filename="${safeName}${format === "bundle" ? ".bundle" : "-git.zip"}"`,
+        });
+        return res.send(buffer);
+      }
+
       const zip = new AdmZip();
-      const safeName = (projectName || "vipudev-project").replace(/[^\w\-]/g, "-");
 
       for (const file of files) {
         if (file.path && file.content) {
@@ -1157,17 +2799,27 @@ You have access to real-time data. Always use this information when users ask ab
 
       res.send(buffer);
     } catch (error: any) {
+      if (error instanceof z.ZodError || error instanceof GitError) {
+        return sendGitError(res, error, "Failed to create repository");
+      }
       console.error("Download error:", error);
       res.status(500).json({ error: "Failed to create ZIP" });
     }
   });
 
+  setupCollaboration(httpServer);
+
   return httpServer;
 }
 
 // ========================================================
 // FILE PARSER - Extract files from AI response
 // ========================================================
+// Model output sometimes decorates paths: `src/app.ts`, ./src/app.ts, **/src/app.ts**
+function cleanGeneratedPath(raw: string): string {
+  return raw.trim().replace(/^[`*]+|[`*]+$/g, "").trim().replace(/^(\.\/|\/)+/, "");
+}
+
 function parseFilesFromResponse(response: string): { path: string; content: string; language: string }[] {
   const files: { path: string; content: string; language: string }[] = [];
   
@@ -1176,7 +2828,7 @@ function parseFilesFromResponse(response: string): { path: string; content: stri
   
   let match;
   while ((match = filePattern.exec(response)) !== null) {
-    const filePath = match[1].trim();
+    const filePath = cleanGeneratedPath(match[1]);
     const language = match[2] || detectLanguage(filePath);
     const content = match[3].trim();
     
@@ -1194,7 +2846,7 @@ function parseFilesFromResponse(response: string): { path: string; content: stri
     // Try: ### filename or ## filename followed by code block
     const altPattern = /(?:#{2,3}|####)\s*`?([^`\n]+)`?\n```(\w*)\n([\s\S]*?)```/g;
     while ((match = altPattern.exec(response)) !== null) {
-      const filePath = match[1].trim();
+      const filePath = cleanGeneratedPath(match[1]);
       const language = match[2] || detectLanguage(filePath);
       const content = match[3].trim();
       
@@ -0,0 +1,58 @@
+import crypto from "crypto";
+
+// ========================================================
+// SECRET ENCRYPTION (AES-256-GCM)
+// Provider keys in user_config are encrypted with a master key
+// from CONFIG_ENCRYPTION_KEY. Stored format:
+//   enc:v1:<iv b64>:<auth tag b64>:<ciphertext b64>
+// ========================================================
+const PREFIX = "enc:v1:";
+
+export class SecretsNotConfiguredError extends Error {
+  status = 500;
+  constructor() {
+    super("CONFIG_ENCRYPTION_KEY must be set to store provider keys");
+  }
+}
+
+function getMasterKey(): Buffer {
+  const secret = process.env.CONFIG_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new SecretsNotConfiguredError();
+  }
+  // Accept any string; derive a fixed-length 256-bit key from it
+  return crypto.createHash("sha256").update(secret).digest();
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getMasterKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `${PREFIX}${iv.toString("base64")}:${tag.toString("base64")}:${ciphertext.toString("base64")}`;
+}
+
+// Values written before encryption was introduced are returned as-is
+export function decryptSecret(stored: string): string {
+  if (!isEncrypted(stored)) return stored;
+
+  const [iv, tag, ciphertext] = stored.slice(PREFIX.length).split(":");
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getMasterKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+// sk-proj-abcdef...wxyz -> sk-…wxyz
+export function maskSecret(plaintext: string): string {
+  if (plaintext.length <= 8) return "…" + plaintext.slice(-2);
+  const dash = plaintext.indexOf("-");
+  const head = dash > 0 && dash <= 4 ? plaintext.slice(0, dash + 1) : plaintext.slice(0, 3);
+  return `${head}…${plaintext.slice(-4)}`;
+}
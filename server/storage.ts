@@ -1,49 +1,230 @@
 import { 
   type User, 
   type InsertUser,
+  type Session,
+  type InsertSession,
+  type ApiToken,
+  type InsertApiToken,
   type Project,
+  type ProjectSummary,
+  type ProjectPreferences,
   type InsertProject,
+  type ProjectListQuery,
+  type ProjectFile,
+  type ProjectFileRecord,
+  type ProjectVersion,
+  type ProjectVersionSummary,
+  type StoredProjectTemplate,
+  type ProjectAccessRole,
+  type ProjectRole,
+  type ProjectMember,
+  type ProjectMemberInfo,
+  type SharedProject,
   type ChatMessage,
   type InsertChatMessage,
   type CodeExecution,
   type InsertCodeExecution,
   type UserConfig,
   type InsertUserConfig,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type AuditQuery,
   users,
+  sessions,
+  apiTokens,
   projects,
+  projectMembers,
+  projectPreferences,
+  projectFiles,
+  projectFileSchema,
+  PROJECT_META_FIELDS,
+  projectVersions,
+  projectTemplates,
   chatMessages,
   codeExecutions,
-  userConfig
+  userConfig,
+  auditEvents
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, isNull, and } from "drizzle-orm";
+import { eq, desc, asc, isNull, isNotNull, and, or, lt, gte, lte, inArray, like, ilike, getTableColumns, type SQL } from "drizzle-orm";
 import { sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Every projects column except the legacy files blob and flags
+const {
+  legacyFiles: _legacyFiles,
+  legacyStarred: _legacyStarred,
+  legacyArchived: _legacyArchived,
+  ...projectColumns
+} = getTableColumns(projects);
+
+const fileCount = sql<number>`(select count(*)::int from ${projectFiles} where ${projectFiles.projectId} = ${projects.id})`;
+
+const forkSource = alias(projects, "fork_source");
+const forkedFromName = sql<string | null>`(select ${forkSource.name} from ${forkSource} where ${forkSource.id} = ${projects.forkedFrom})`;
+
+function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, "\\$&");
+}
+
+// LIKE pattern matching `text` anywhere
+function containsPattern(text: string): string {
+  return `%${escapeLike(text)}%`;
+}
+
+// Left-joins the caller's project_preferences row onto projects
+function preferencesOf(userId: string): SQL {
+  return and(eq(projectPreferences.projectId, projects.id), eq(projectPreferences.userId, userId))!;
+}
+
+// The caller's own star/archive flags; both are false until they set one
+const preferenceFlags = {
+  starred: sql<boolean>`coalesce(${projectPreferences.starred}, false)`,
+  archived: sql<boolean>`coalesce(${projectPreferences.archived}, false)`,
+};
+
+// WHERE clause for the Dashboard filters (needs the preferencesOf join); `q` also matches file contents
+function projectListFilter(query: ProjectListQuery): SQL | undefined {
+  const pattern = query.q ? containsPattern(query.q) : undefined;
+  return and(
+    eq(preferenceFlags.archived, query.archived),
+    query.starred === undefined ? undefined : eq(preferenceFlags.starred, query.starred),
+    query.tag ? sql`${query.tag} = any(${projects.tags})` : undefined,
+    pattern
+      ? or(
+          ilike(projects.name, pattern),
+          ilike(projects.description, pattern),
+          sql`exists (select 1 from ${projectFiles} where ${projectFiles.projectId} = ${projects.id} and ${projectFiles.content} ilike ${pattern})`,
+        )
+      : undefined,
+  );
+}
+
+// Starred first, then most recently edited
+const projectListOrder = [desc(preferenceFlags.starred), desc(projects.updatedAt)];
+
+export type CodeSearchCandidate = ProjectFile & { projectId: string; projectName: string };
+
+// Which files may hold a code search hit; the hits themselves are found in server/codeSearch.ts
+export interface CodeSearchFilter {
+  projectId?: string;
+  // Substrings the file must all contain; [] matches every file
+  terms: string[];
+  caseSensitive: boolean;
+}
+
+// How long one autosave version keeps absorbing later autosaves by the same author
+const AUTOSAVE_MERGE_WINDOW_MS = 10 * 60 * 1000;
+
+// A substring scan of every file can still be slow - give up rather than hold a connection
+const CODE_SEARCH_TIMEOUT = "5s";
+
+export interface LegacyMigrationResult {
+  // Projects whose files were moved into project_files
+  migrated: number;
+  // Entries left in projects.files because their path can't be made valid
+  unmigrated: { projectId: string; path: string }[];
+}
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  getUserByOidcIdentity(issuer: string, subject: string): Promise<User | undefined>;
+  linkOidcIdentity(userId: string, issuer: string, subject: string): Promise<User>;
+
+  // Session operations
+  createSession(session: InsertSession): Promise<Session>;
+  getSessionByTokenHash(tokenHash: string): Promise<Session | undefined>;
+  touchSession(id: string): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+  deleteUserSessions(userId: string): Promise<number>;
+  deleteExpiredSessions(): Promise<void>;
+
+  // API token operations
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  touchApiToken(id: string): Promise<void>;
+  deleteApiToken(userId: string, id: string): Promise<boolean>;
 
   // Project operations
-  getProjects(): Promise<Project[]>;
-  getProject(id: string): Promise<Project | undefined>;
-  createProject(project: InsertProject): Promise<Project>;
-  updateProject(id: string, project: Partial<InsertProject>): Promise<Project | undefined>;
-  deleteProject(id: string): Promise<boolean>;
+  getProjects(userId: string, query: ProjectListQuery): Promise<{ projects: ProjectSummary[]; total: number }>;
+  getProject(userId: string, id: string): Promise<Project | undefined>;
+  createProject(userId: string, project: InsertProject): Promise<Project>;
+  duplicateProject(userId: string, source: Project, options: { name: string; includeChat: boolean }): Promise<Project>;
+  updateProject(userId: string, id: string, project: Partial<InsertProject>): Promise<Project | undefined>;
+  deleteProject(userId: string, id: string): Promise<boolean>;
+  getProjectAccess(userId: string, id: string): Promise<{ project: Project; role: ProjectAccessRole } | undefined>;
+  getSharedProjects(userId: string, query: ProjectListQuery): Promise<{ projects: SharedProject[]; total: number }>;
+  getProjectTags(userId: string): Promise<string[]>;
+  setProjectPreferences(userId: string, projectId: string, prefs: Partial<ProjectPreferences>): Promise<ProjectPreferences>;
+  migrateLegacyProjectFiles(): Promise<LegacyMigrationResult>;
+  migrateLegacyProjectPreferences(): Promise<number>;
+
+  // Project file operations (access is checked by the caller).
+  // Every write records a new project version in the same transaction.
+  getProjectFiles(projectId: string): Promise<ProjectFile[]>;
+  searchProjectFiles(userId: string, filter: CodeSearchFilter, limit: number, offset: number): Promise<CodeSearchCandidate[]>;
+  getProjectFile(projectId: string, path: string): Promise<ProjectFileRecord | undefined>;
+  upsertProjectFile(projectId: string, file: ProjectFile, userId: string, message?: string): Promise<ProjectFileRecord>;
+  deleteProjectFile(projectId: string, path: string, userId: string): Promise<boolean>;
+  renameProjectFile(projectId: string, path: string, newPath: string, userId: string, message?: string): Promise<ProjectFileRecord | undefined>;
+  moveProjectFolder(projectId: string, path: string, newPath: string, userId: string, message?: string): Promise<number>;
+  saveProjectFiles(
+    projectId: string,
+    changes: { files: ProjectFile[]; deleted: string[]; message?: string; autosave?: boolean },
+    userId: string,
+  ): Promise<{ files: ProjectFile[]; version: ProjectVersion }>;
+  setProjectFiles(projectId: string, files: ProjectFile[], userId: string, message: string): Promise<ProjectVersion>;
+  setProjectGitEnabled(projectId: string, enabled: boolean): Promise<void>;
+
+  // Project version operations
+  getProjectVersions(projectId: string): Promise<ProjectVersionSummary[]>;
+  getProjectVersion(projectId: string, version: number): Promise<ProjectVersion | undefined>;
+  restoreProjectVersion(projectId: string, version: number, userId: string): Promise<ProjectVersion | undefined>;
+  backfillProjectVersions(): Promise<number>;
+
+  // Project template operations (built-in templates are not stored)
+  getTemplates(): Promise<StoredProjectTemplate[]>;
+  getTemplate(id: string): Promise<StoredProjectTemplate | undefined>;
+  createTemplate(template: Pick<StoredProjectTemplate, "name" | "description" | "files" | "createdBy">): Promise<StoredProjectTemplate>;
+  updateTemplate(id: string, template: Partial<Pick<StoredProjectTemplate, "name" | "description" | "files">>): Promise<StoredProjectTemplate | undefined>;
+  deleteTemplate(id: string): Promise<boolean>;
+
+  // Project member operations
+  getProjectMembers(projectId: string): Promise<ProjectMemberInfo[]>;
+  getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined>;
+  addProjectMember(projectId: string, userId: string, role: ProjectRole, invitedBy: string): Promise<ProjectMember>;
+  updateProjectMemberRole(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember | undefined>;
+  removeProjectMember(projectId: string, userId: string): Promise<boolean>;
 
   // Chat operations
-  getChatMessages(limit?: number, projectId?: string | null): Promise<ChatMessage[]>;
-  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
-  clearChatHistory(projectId?: string | null): Promise<void>;
+  getChatMessages(userId: string, limit?: number, projectId?: string | null): Promise<ChatMessage[]>;
+  createChatMessage(userId: string, message: InsertChatMessage): Promise<ChatMessage>;
+  clearChatHistory(userId: string, projectId?: string | null): Promise<void>;
 
   // Code execution operations
-  getCodeExecutions(limit?: number): Promise<CodeExecution[]>;
-  createCodeExecution(execution: InsertCodeExecution): Promise<CodeExecution>;
+  getCodeExecutions(userId: string, limit?: number): Promise<CodeExecution[]>;
+  createCodeExecution(userId: string, execution: InsertCodeExecution): Promise<CodeExecution>;
 
   // Config operations
-  getConfig(): Promise<UserConfig | undefined>;
-  updateConfig(config: InsertUserConfig): Promise<UserConfig>;
+  getConfig(userId: string): Promise<UserConfig | undefined>;
+  updateConfig(userId: string, config: InsertUserConfig): Promise<UserConfig>;
+  getAllConfigs(): Promise<UserConfig[]>;
+  setConfigSecrets(id: number, secrets: Pick<UserConfig, "apiKey" | "perplexityKey">): Promise<void>;
+
+  // Ownership
+  adoptUnownedRecords(userId: string): Promise<void>;
+
+  // Audit log
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(query: AuditQuery): Promise<{ events: AuditEvent[]; total: number }>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -63,82 +244,701 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUsers(): Promise<User[]> {
+    return db.select().from(users).orderBy(users.username);
+  }
+
+  async countUsers(): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(users);
+    return result?.count ?? 0;
+  }
+
+  async getUserByOidcIdentity(issuer: string, subject: string): Promise<User | undefined> {
+    const [user] = await db.select()
+      .from(users)
+      .where(and(eq(users.oidcIssuer, issuer), eq(users.oidcSubject, subject)))
+      .limit(1);
+    return user;
+  }
+
+  async linkOidcIdentity(userId: string, issuer: string, subject: string): Promise<User> {
+    const [user] = await db.update(users)
+      .set({ oidcIssuer: issuer, oidcSubject: subject })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Session operations
+  async createSession(session: InsertSession): Promise<Session> {
+    const [newSession] = await db.insert(sessions).values(session).returning();
+    return newSession;
+  }
+
+  async getSessionByTokenHash(tokenHash: string): Promise<Session | undefined> {
+    const [session] = await db.select().from(sessions).where(eq(sessions.tokenHash, tokenHash)).limit(1);
+    return session;
+  }
+
+  async touchSession(id: string): Promise<void> {
+    await db.update(sessions).set({ lastSeenAt: sql`NOW()` }).where(eq(sessions.id, id));
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    await db.delete(sessions).where(eq(sessions.id, id));
+  }
+
+  async deleteUserSessions(userId: string): Promise<number> {
+    const result = await db.delete(sessions).where(eq(sessions.userId, userId));
+    return result.rowCount ?? 0;
+  }
+
+  async deleteExpiredSessions(): Promise<void> {
+    await db.delete(sessions).where(lt(sessions.expiresAt, sql`NOW()`));
+  }
+
+  // API token operations
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash)).limit(1);
+    return token;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [newToken] = await db.insert(apiTokens).values(token).returning();
+    return newToken;
+  }
+
+  async touchApiToken(id: string): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt: sql`NOW()` }).where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(userId: string, id: string): Promise<boolean> {
+    const result = await db.delete(apiTokens).where(and(eq(apiTokens.id, id), eq(apiTokens.userId, userId)));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
   // Project operations
-  async getProjects(): Promise<Project[]> {
-    return db.select().from(projects).orderBy(desc(projects.updatedAt));
+  async getProjects(userId: string, query: ProjectListQuery): Promise<{ projects: ProjectSummary[]; total: number }> {
+    const where = and(eq(projects.userId, userId), projectListFilter(query));
+    const list = db.select({ ...projectColumns, ...preferenceFlags, fileCount, forkedFromName })
+      .from(projects)
+      .leftJoin(projectPreferences, preferencesOf(userId))
+      .where(where)
+      .orderBy(...projectListOrder)
+      .offset(query.offset)
+      .$dynamic();
+    const [rows, [{ count }]] = await Promise.all([
+      query.limit ? list.limit(query.limit) : list,
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(projects)
+        .leftJoin(projectPreferences, preferencesOf(userId))
+        .where(where),
+    ]);
+    return { projects: rows, total: count };
+  }
+
+  // Owners and any collaborator can read a project
+  async getProject(userId: string, id: string): Promise<Project | undefined> {
+    const access = await this.getProjectAccess(userId, id);
+    return access?.project;
+  }
+
+  async createProject(userId: string, { files, ...project }: InsertProject): Promise<Project> {
+    return db.transaction(async (tx) => {
+      const [newProject] = await tx.insert(projects).values({ ...project, userId }).returning(projectColumns);
+      if (files?.length) {
+        await this.replaceProjectFiles(tx, newProject.id, files, userId);
+      }
+      await this.snapshotProject(tx, newProject.id, userId, "Created project");
+      return newProject;
+    });
+  }
+
+  // Copies files and description into a new project owned by `userId`
+  async duplicateProject(userId: string, source: Project, { name, includeChat }: { name: string; includeChat: boolean }): Promise<Project> {
+    return db.transaction(async (tx) => {
+      const [copy] = await tx.insert(projects)
+        .values({
+          userId,
+          name,
+          description: source.description,
+          tags: source.tags,
+          builderSource: source.builderSource,
+          forkedFrom: source.id,
+        })
+        .returning(projectColumns);
+
+      const files = await tx.select({ path: projectFiles.path, content: projectFiles.content, language: projectFiles.language })
+        .from(projectFiles)
+        .where(eq(projectFiles.projectId, source.id));
+      await this.replaceProjectFiles(tx, copy.id, files, userId);
+      await this.snapshotProject(tx, copy.id, userId, `Forked from "${source.name}"`);
+
+      if (includeChat) {
+        const messages = await tx.select()
+          .from(chatMessages)
+          .where(and(eq(chatMessages.userId, userId), eq(chatMessages.projectId, source.id)))
+          .orderBy(chatMessages.createdAt);
+        if (messages.length) {
+          await tx.insert(chatMessages).values(messages.map(({ id: _id, ...m }) => ({ ...m, projectId: copy.id })));
+        }
+      }
+      return copy;
+    });
+  }
+
+  // Owners, editors and project admins can update
+  async updateProject(userId: string, id: string, { files, ...project }: Partial<InsertProject>): Promise<Project | undefined> {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(projects)
+        .set(isMetaOnlyUpdate(project, files) ? project : { ...project, updatedAt: sql`NOW()` })
+        .where(and(eq(projects.id, id), this.memberOrOwner(userId, ["editor", "admin"])))
+        .returning(projectColumns);
+      if (updated && files) {
+        await this.replaceProjectFiles(tx, id, files, userId);
+        await this.snapshotProject(tx, id, userId, "Replaced all files");
+      }
+      return updated;
+    });
+  }
+
+  // Owners and project admins can delete
+  async deleteProject(userId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(projects)
+      .where(and(eq(projects.id, id), this.memberOrOwner(userId, ["admin"])));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  async getProjectAccess(userId: string, id: string): Promise<{ project: Project; role: ProjectAccessRole } | undefined> {
+    const [row] = await db
+      .select({ project: projectColumns, memberRole: projectMembers.role })
+      .from(projects)
+      .leftJoin(projectMembers, and(eq(projectMembers.projectId, projects.id), eq(projectMembers.userId, userId)))
+      .where(and(eq(projects.id, id), or(eq(projects.userId, userId), isNotNull(projectMembers.id))))
+      .limit(1);
+    if (!row) return undefined;
+
+    const role = row.project.userId === userId ? "owner" : (row.memberRole as ProjectRole);
+    return { project: row.project, role };
+  }
+
+  async getSharedProjects(userId: string, query: ProjectListQuery): Promise<{ projects: SharedProject[]; total: number }> {
+    const where = and(eq(projectMembers.userId, userId), projectListFilter(query));
+    const list = db
+      .select({
+        project: { ...projectColumns, ...preferenceFlags, fileCount, forkedFromName },
+        role: projectMembers.role,
+        ownerUsername: users.username,
+      })
+      .from(projectMembers)
+      .innerJoin(projects, eq(projects.id, projectMembers.projectId))
+      .innerJoin(users, eq(users.id, projects.userId))
+      .leftJoin(projectPreferences, preferencesOf(userId))
+      .where(where)
+      .orderBy(...projectListOrder)
+      .offset(query.offset)
+      .$dynamic();
+    const [rows, [{ count }]] = await Promise.all([
+      query.limit ? list.limit(query.limit) : list,
+      db.select({ count: sql<number>`count(*)::int` })
+        .from(projectMembers)
+        .innerJoin(projects, eq(projects.id, projectMembers.projectId))
+        .leftJoin(projectPreferences, preferencesOf(userId))
+        .where(where),
+    ]);
+    return {
+      projects: rows.map((r) => ({ ...r.project, role: r.role as ProjectRole, ownerUsername: r.ownerUsername })),
+      total: count,
+    };
   }
 
-  async getProject(id: string): Promise<Project | undefined> {
-    const [project] = await db.select().from(projects).where(eq(projects.id, id)).limit(1);
-    return project;
+  // Access is checked by the caller - any collaborator may organise their own Dashboard
+  async setProjectPreferences(userId: string, projectId: string, prefs: Partial<ProjectPreferences>): Promise<ProjectPreferences> {
+    const [saved] = await db.insert(projectPreferences)
+      .values({ ...prefs, projectId, userId })
+      .onConflictDoUpdate({
+        target: [projectPreferences.projectId, projectPreferences.userId],
+        set: { ...prefs, updatedAt: sql`NOW()` },
+      })
+      .returning({ starred: projectPreferences.starred, archived: projectPreferences.archived });
+    return saved;
   }
 
-  async createProject(project: InsertProject): Promise<Project> {
-    const [newProject] = await db.insert(projects).values(project).returning();
-    return newProject;
+  // Every tag on a project the user can see, for the Dashboard filter chips
+  async getProjectTags(userId: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ tag: sql<string>`unnest(${projects.tags})` })
+      .from(projects)
+      .leftJoin(projectMembers, and(eq(projectMembers.projectId, projects.id), eq(projectMembers.userId, userId)))
+      .where(or(eq(projects.userId, userId), isNotNull(projectMembers.id)));
+    return rows.map((r) => r.tag).sort();
   }
 
-  async updateProject(id: string, project: Partial<InsertProject>): Promise<Project | undefined> {
-    const [updated] = await db
-      .update(projects)
-      .set({ ...project, updatedAt: sql`NOW()` })
-      .where(eq(projects.id, id))
+  // One-off move of the old projects.files blobs into project_files. Entries whose path
+  // still isn't valid after normalising stay in the blob, so nothing is lost.
+  async migrateLegacyProjectFiles(): Promise<LegacyMigrationResult> {
+    const rows = await db
+      .select({ id: projects.id, userId: projects.userId, legacyFiles: projects.legacyFiles })
+      .from(projects)
+      .where(sql`jsonb_array_length(${projects.legacyFiles}) > 0`);
+
+    const result: LegacyMigrationResult = { migrated: 0, unmigrated: [] };
+    for (const row of rows) {
+      const files: ProjectFile[] = [];
+      const leftovers: unknown[] = [];
+      for (const raw of row.legacyFiles) {
+        const parsed = projectFileSchema.safeParse(normalizeLegacyFile(raw));
+        if (parsed.success) files.push(parsed.data);
+        else leftovers.push(raw);
+      }
+      result.unmigrated.push(...leftovers.map((raw) => ({ projectId: row.id, path: legacyFilePath(raw) })));
+      // Only leftovers from an earlier run - nothing new to move
+      if (!files.length) continue;
+
+      await db.transaction(async (tx) => {
+        await tx.insert(projectFiles)
+          .values(dedupeByPath(files).map((f) => ({ ...f, projectId: row.id, updatedBy: row.userId })))
+          .onConflictDoNothing();
+        await tx.update(projects).set({ legacyFiles: leftovers }).where(eq(projects.id, row.id));
+      });
+      result.migrated++;
+    }
+    return result;
+  }
+
+  // One-off copy of the old shared star/archive flags to each project's owner.
+  // Unowned projects keep theirs until the first admin adopts them.
+  async migrateLegacyProjectPreferences(): Promise<number> {
+    return db.transaction(async (tx) => {
+      const rows = await tx
+        .select({ projectId: projects.id, userId: projects.userId, starred: projects.legacyStarred, archived: projects.legacyArchived })
+        .from(projects)
+        .where(and(isNotNull(projects.userId), or(eq(projects.legacyStarred, true), eq(projects.legacyArchived, true))));
+      if (!rows.length) return 0;
+
+      await tx.insert(projectPreferences)
+        .values(rows.map((r) => ({ projectId: r.projectId, userId: r.userId!, starred: r.starred, archived: r.archived })))
+        .onConflictDoNothing();
+      await tx.update(projects)
+        .set({ legacyStarred: false, legacyArchived: false })
+        .where(inArray(projects.id, rows.map((r) => r.projectId)));
+      return rows.length;
+    });
+  }
+
+  // Project file operations
+  async getProjectFiles(projectId: string): Promise<ProjectFile[]> {
+    return db.select({ path: projectFiles.path, content: projectFiles.content, language: projectFiles.language })
+      .from(projectFiles)
+      .where(eq(projectFiles.projectId, projectId))
+      .orderBy(asc(projectFiles.path));
+  }
+
+  // Files whose content matches, across every project the user can read
+  async searchProjectFiles(userId: string, filter: CodeSearchFilter, limit: number, offset: number): Promise<CodeSearchCandidate[]> {
+    const matchesTerm = filter.caseSensitive ? like : ilike;
+    return db.transaction(async (tx) => {
+      await tx.execute(sql.raw(`SET LOCAL statement_timeout = '${CODE_SEARCH_TIMEOUT}'`));
+      return tx
+        .select({
+          projectId: projects.id,
+          projectName: projects.name,
+          path: projectFiles.path,
+          content: projectFiles.content,
+          language: projectFiles.language,
+        })
+        .from(projectFiles)
+        .innerJoin(projects, eq(projects.id, projectFiles.projectId))
+        .leftJoin(projectMembers, and(eq(projectMembers.projectId, projects.id), eq(projectMembers.userId, userId)))
+        .where(and(
+          or(eq(projects.userId, userId), isNotNull(projectMembers.id)),
+          filter.projectId ? eq(projects.id, filter.projectId) : undefined,
+          ...filter.terms.map((term) => matchesTerm(projectFiles.content, containsPattern(term))),
+        ))
+        .orderBy(asc(projects.name), asc(projectFiles.path), asc(projectFiles.id))
+        .limit(limit)
+        .offset(offset);
+    });
+  }
+
+  async getProjectFile(projectId: string, path: string): Promise<ProjectFileRecord | undefined> {
+    const [file] = await db.select()
+      .from(projectFiles)
+      .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.path, path)))
+      .limit(1);
+    return file;
+  }
+
+  async upsertProjectFile(projectId: string, file: ProjectFile, userId: string, message?: string): Promise<ProjectFileRecord> {
+    return db.transaction(async (tx) => {
+      const saved = await this.writeProjectFile(tx, projectId, file, userId);
+      await this.touchProject(tx, projectId);
+      await this.snapshotProject(tx, projectId, userId, message || `Saved ${file.path}`);
+      return saved;
+    });
+  }
+
+  async deleteProjectFile(projectId: string, path: string, userId: string): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const result = await tx.delete(projectFiles)
+        .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.path, path)));
+      const deleted = result.rowCount !== null && result.rowCount > 0;
+      if (deleted) {
+        await this.touchProject(tx, projectId);
+        await this.snapshotProject(tx, projectId, userId, `Deleted ${path}`);
+      }
+      return deleted;
+    });
+  }
+
+  async renameProjectFile(projectId: string, path: string, newPath: string, userId: string, message?: string): Promise<ProjectFileRecord | undefined> {
+    return db.transaction(async (tx) => {
+      const [renamed] = await tx.update(projectFiles)
+        .set({ path: newPath, updatedBy: userId, updatedAt: sql`NOW()` })
+        .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.path, path)))
+        .returning();
+      if (renamed) {
+        await this.touchProject(tx, projectId);
+        await this.snapshotProject(tx, projectId, userId, message || `Renamed ${path} → ${newPath}`);
+      }
+      return renamed;
+    });
+  }
+
+  // Renames the folder prefix of every file under `path`; returns how many moved
+  async moveProjectFolder(projectId: string, path: string, newPath: string, userId: string, message?: string): Promise<number> {
+    return db.transaction(async (tx) => {
+      const result = await tx.update(projectFiles)
+        .set({
+          path: sql`${newPath} || substr(${projectFiles.path}, ${path.length + 1})`,
+          updatedBy: userId,
+          updatedAt: sql`NOW()`,
+        })
+        .where(and(eq(projectFiles.projectId, projectId), like(projectFiles.path, `${escapeLike(path)}/%`)));
+      const moved = result.rowCount ?? 0;
+      if (moved > 0) {
+        await this.touchProject(tx, projectId);
+        await this.snapshotProject(tx, projectId, userId, message || `Moved ${path}/ → ${newPath}/`);
+      }
+      return moved;
+    });
+  }
+
+  async saveProjectFiles(
+    projectId: string,
+    changes: { files: ProjectFile[]; deleted: string[]; message?: string; autosave?: boolean },
+    userId: string,
+  ): Promise<{ files: ProjectFile[]; version: ProjectVersion }> {
+    return db.transaction(async (tx) => {
+      for (const file of dedupeByPath(changes.files)) {
+        await this.writeProjectFile(tx, projectId, file, userId);
+      }
+      if (changes.deleted.length) {
+        await tx.delete(projectFiles)
+          .where(and(eq(projectFiles.projectId, projectId), inArray(projectFiles.path, changes.deleted)));
+      }
+      await this.touchProject(tx, projectId);
+
+      const count = changes.files.length + changes.deleted.length;
+      const version = await this.snapshotProject(
+        tx,
+        projectId,
+        userId,
+        changes.message || `Updated ${count} file${count === 1 ? "" : "s"}`,
+        changes.autosave,
+      );
+      return { files: version.files, version };
+    });
+  }
+
+  // Replaces every file at once, e.g. with a git checkout
+  async setProjectFiles(projectId: string, files: ProjectFile[], userId: string, message: string): Promise<ProjectVersion> {
+    return db.transaction(async (tx) => {
+      await this.replaceProjectFiles(tx, projectId, files, userId);
+      await this.touchProject(tx, projectId);
+      return this.snapshotProject(tx, projectId, userId, message);
+    });
+  }
+
+  async setProjectGitEnabled(projectId: string, enabled: boolean): Promise<void> {
+    await db.update(projects).set({ gitEnabled: enabled }).where(eq(projects.id, projectId));
+  }
+
+  // Project version operations
+  async getProjectVersions(projectId: string): Promise<ProjectVersionSummary[]> {
+    const { files: _files, ...versionColumns } = getTableColumns(projectVersions);
+    return db
+      .select({
+        ...versionColumns,
+        authorUsername: users.username,
+        fileCount: sql<number>`jsonb_array_length(${projectVersions.files})`,
+      })
+      .from(projectVersions)
+      .leftJoin(users, eq(users.id, projectVersions.authorId))
+      .where(eq(projectVersions.projectId, projectId))
+      .orderBy(desc(projectVersions.version));
+  }
+
+  async getProjectVersion(projectId: string, version: number): Promise<ProjectVersion | undefined> {
+    const [row] = await db.select()
+      .from(projectVersions)
+      .where(and(eq(projectVersions.projectId, projectId), eq(projectVersions.version, version)))
+      .limit(1);
+    return row;
+  }
+
+  // Restoring never rewrites history - it records the old files as a new version
+  async restoreProjectVersion(projectId: string, version: number, userId: string): Promise<ProjectVersion | undefined> {
+    const target = await this.getProjectVersion(projectId, version);
+    if (!target) return undefined;
+
+    return db.transaction(async (tx) => {
+      await this.replaceProjectFiles(tx, projectId, target.files, userId);
+      await this.touchProject(tx, projectId);
+      return this.snapshotProject(tx, projectId, userId, `Restored version ${version}`);
+    });
+  }
+
+  // Give projects that predate version history a starting snapshot
+  async backfillProjectVersions(): Promise<number> {
+    const result = await db.execute(sql`
+      INSERT INTO ${projectVersions} (project_id, version, files, message, author_id)
+      SELECT p.id, 1,
+        COALESCE(
+          (SELECT jsonb_agg(jsonb_build_object('path', f.path, 'content', f.content, 'language', f.language) ORDER BY f.path)
+           FROM ${projectFiles} f WHERE f.project_id = p.id),
+          '[]'::jsonb
+        ),
+        'Initial version', p.user_id
+      FROM ${projects} p
+      WHERE NOT EXISTS (SELECT 1 FROM ${projectVersions} v WHERE v.project_id = p.id)
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  private async writeProjectFile(tx: Tx, projectId: string, file: ProjectFile, userId: string): Promise<ProjectFileRecord> {
+    const [saved] = await tx.insert(projectFiles)
+      .values({ ...file, projectId, updatedBy: userId })
+      .onConflictDoUpdate({
+        target: [projectFiles.projectId, projectFiles.path],
+        set: { content: file.content, language: file.language, updatedBy: userId, updatedAt: sql`NOW()` },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Records the project's current files. Autosaves by the same author within
+  // AUTOSAVE_MERGE_WINDOW_MS of the last autosave version replace it instead of
+  // adding a full copy every few seconds of typing.
+  private async snapshotProject(
+    tx: Tx,
+    projectId: string,
+    authorId: string | null,
+    message: string,
+    autosave = false,
+  ): Promise<ProjectVersion> {
+    // Concurrent writes to one project take turns here, so each gets its own number
+    await tx.select({ id: projects.id }).from(projects).where(eq(projects.id, projectId)).for("update");
+
+    const files = await tx.select({ path: projectFiles.path, content: projectFiles.content, language: projectFiles.language })
+      .from(projectFiles)
+      .where(eq(projectFiles.projectId, projectId))
+      .orderBy(asc(projectFiles.path));
+    const [latest] = await tx
+      .select({
+        id: projectVersions.id,
+        version: projectVersions.version,
+        authorId: projectVersions.authorId,
+        autosave: projectVersions.autosave,
+        createdAt: projectVersions.createdAt,
+      })
+      .from(projectVersions)
+      .where(eq(projectVersions.projectId, projectId))
+      .orderBy(desc(projectVersions.version))
+      .limit(1);
+
+    if (
+      autosave &&
+      latest?.autosave &&
+      latest.authorId === authorId &&
+      Date.now() - latest.createdAt.getTime() < AUTOSAVE_MERGE_WINDOW_MS
+    ) {
+      const [merged] = await tx.update(projectVersions)
+        .set({ files, message })
+        .where(eq(projectVersions.id, latest.id))
+        .returning();
+      return merged;
+    }
+
+    const [version] = await tx.insert(projectVersions)
+      .values({ projectId, version: (latest?.version ?? 0) + 1, files, message, authorId, autosave })
+      .returning();
+    return version;
+  }
+
+  private async replaceProjectFiles(tx: Tx, projectId: string, files: ProjectFile[], userId: string): Promise<void> {
+    await tx.delete(projectFiles).where(eq(projectFiles.projectId, projectId));
+    if (files.length) {
+      await tx.insert(projectFiles).values(
+        dedupeByPath(files).map((f) => ({ ...f, projectId, updatedBy: userId })),
+      );
+    }
+  }
+
+  private async touchProject(tx: Tx, projectId: string): Promise<void> {
+    await tx.update(projects).set({ updatedAt: sql`NOW()` }).where(eq(projects.id, projectId));
+  }
+
+  // Project template operations
+  async getTemplates(): Promise<StoredProjectTemplate[]> {
+    return db.select().from(projectTemplates).orderBy(asc(projectTemplates.name));
+  }
+
+  async getTemplate(id: string): Promise<StoredProjectTemplate | undefined> {
+    const [template] = await db.select().from(projectTemplates).where(eq(projectTemplates.id, id)).limit(1);
+    return template;
+  }
+
+  async createTemplate(
+    template: Pick<StoredProjectTemplate, "name" | "description" | "files" | "createdBy">,
+  ): Promise<StoredProjectTemplate> {
+    const [created] = await db.insert(projectTemplates)
+      .values({ ...template, files: dedupeByPath(template.files) })
+      .returning();
+    return created;
+  }
+
+  async updateTemplate(
+    id: string,
+    template: Partial<Pick<StoredProjectTemplate, "name" | "description" | "files">>,
+  ): Promise<StoredProjectTemplate | undefined> {
+    const [updated] = await db.update(projectTemplates)
+      .set({
+        ...template,
+        ...(template.files ? { files: dedupeByPath(template.files) } : {}),
+        updatedAt: sql`NOW()`,
+      })
+      .where(eq(projectTemplates.id, id))
       .returning();
     return updated;
   }
 
-  async deleteProject(id: string): Promise<boolean> {
-    const result = await db.delete(projects).where(eq(projects.id, id));
+  async deleteTemplate(id: string): Promise<boolean> {
+    const result = await db.delete(projectTemplates).where(eq(projectTemplates.id, id));
     return result.rowCount !== null && result.rowCount > 0;
   }
 
+  // Project member operations
+  async getProjectMembers(projectId: string): Promise<ProjectMemberInfo[]> {
+    const rows = await db
+      .select({
+        userId: projectMembers.userId,
+        username: users.username,
+        role: projectMembers.role,
+        createdAt: projectMembers.createdAt,
+      })
+      .from(projectMembers)
+      .innerJoin(users, eq(users.id, projectMembers.userId))
+      .where(eq(projectMembers.projectId, projectId))
+      .orderBy(projectMembers.createdAt);
+    return rows.map((r) => ({ ...r, role: r.role as ProjectRole }));
+  }
+
+  async getProjectMember(projectId: string, userId: string): Promise<ProjectMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+      .limit(1);
+    return member;
+  }
+
+  async addProjectMember(projectId: string, userId: string, role: ProjectRole, invitedBy: string): Promise<ProjectMember> {
+    const [member] = await db.insert(projectMembers).values({ projectId, userId, role, invitedBy }).returning();
+    return member;
+  }
+
+  async updateProjectMemberRole(projectId: string, userId: string, role: ProjectRole): Promise<ProjectMember | undefined> {
+    const [member] = await db
+      .update(projectMembers)
+      .set({ role })
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+    return result.rowCount !== null && result.rowCount > 0;
+  }
+
+  // WHERE fragment: the user owns the project or is a member with one of the given roles
+  private memberOrOwner(userId: string, roles: ProjectRole[]) {
+    return or(
+      eq(projects.userId, userId),
+      inArray(
+        projects.id,
+        db.select({ id: projectMembers.projectId })
+          .from(projectMembers)
+          .where(and(eq(projectMembers.userId, userId), inArray(projectMembers.role, roles))),
+      ),
+    );
+  }
+
   // Chat operations with projectId support
-  async getChatMessages(limit: number = 50, projectId: string | null = null): Promise<ChatMessage[]> {
-    if (projectId) {
-      return db.select()
-        .from(chatMessages)
-        .where(eq(chatMessages.projectId, projectId))
-        .orderBy(chatMessages.createdAt)
-        .limit(limit);
-    }
+  async getChatMessages(userId: string, limit: number = 50, projectId: string | null = null): Promise<ChatMessage[]> {
     return db.select()
       .from(chatMessages)
-      .where(isNull(chatMessages.projectId))
+      .where(and(
+        eq(chatMessages.userId, userId),
+        projectId ? eq(chatMessages.projectId, projectId) : isNull(chatMessages.projectId),
+      ))
       .orderBy(chatMessages.createdAt)
       .limit(limit);
   }
 
-  async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
-    const [newMessage] = await db.insert(chatMessages).values(message).returning();
+  async createChatMessage(userId: string, message: InsertChatMessage): Promise<ChatMessage> {
+    const [newMessage] = await db.insert(chatMessages).values({ ...message, userId }).returning();
     return newMessage;
   }
 
-  async clearChatHistory(projectId: string | null = null): Promise<void> {
-    if (projectId) {
-      await db.delete(chatMessages).where(eq(chatMessages.projectId, projectId));
-    } else {
-      await db.delete(chatMessages).where(isNull(chatMessages.projectId));
-    }
+  async clearChatHistory(userId: string, projectId: string | null = null): Promise<void> {
+    await db.delete(chatMessages).where(and(
+      eq(chatMessages.userId, userId),
+      projectId ? eq(chatMessages.projectId, projectId) : isNull(chatMessages.projectId),
+    ));
   }
 
   // Code execution operations
-  async getCodeExecutions(limit: number = 20): Promise<CodeExecution[]> {
-    return db.select().from(codeExecutions).orderBy(desc(codeExecutions.createdAt)).limit(limit);
+  async getCodeExecutions(userId: string, limit: number = 20): Promise<CodeExecution[]> {
+    return db.select()
+      .from(codeExecutions)
+      .where(eq(codeExecutions.userId, userId))
+      .orderBy(desc(codeExecutions.createdAt))
+      .limit(limit);
   }
 
-  async createCodeExecution(execution: InsertCodeExecution): Promise<CodeExecution> {
-    const [newExecution] = await db.insert(codeExecutions).values(execution).returning();
+  async createCodeExecution(userId: string, execution: InsertCodeExecution): Promise<CodeExecution> {
+    const [newExecution] = await db.insert(codeExecutions).values({ ...execution, userId }).returning();
     return newExecution;
   }
 
   // Config operations
-  async getConfig(): Promise<UserConfig | undefined> {
-    const [config] = await db.select().from(userConfig).limit(1);
+  async getConfig(userId: string): Promise<UserConfig | undefined> {
+    const [config] = await db.select().from(userConfig).where(eq(userConfig.userId, userId)).limit(1);
     return config;
   }
 
-  async updateConfig(config: InsertUserConfig): Promise<UserConfig> {
-    const existing = await this.getConfig();
+  async updateConfig(userId: string, config: InsertUserConfig): Promise<UserConfig> {
+    const existing = await this.getConfig(userId);
     
     if (existing) {
       const [updated] = await db
@@ -148,10 +948,90 @@ export class DatabaseStorage implements IStorage {
         .returning();
       return updated;
     } else {
-      const [created] = await db.insert(userConfig).values(config).returning();
+      const [created] = await db.insert(userConfig).values({ ...config, userId }).returning();
       return created;
     }
   }
+
+  // Unscoped - only for maintenance tasks such as re-encrypting legacy secrets
+  async getAllConfigs(): Promise<UserConfig[]> {
+    return db.select().from(userConfig);
+  }
+
+  async setConfigSecrets(id: number, secrets: Pick<UserConfig, "apiKey" | "perplexityKey">): Promise<void> {
+    await db.update(userConfig).set(secrets).where(eq(userConfig.id, id));
+  }
+
+  // Ownership - hand rows created before multi-user accounts to the given user
+  async adoptUnownedRecords(userId: string): Promise<void> {
+    await db.update(projects).set({ userId }).where(isNull(projects.userId));
+    await db.update(chatMessages).set({ userId }).where(isNull(chatMessages.userId));
+    await db.update(codeExecutions).set({ userId }).where(isNull(codeExecutions.userId));
+
+    // Only one config row per user - adopt the legacy row if this user has none yet
+    if (!(await this.getConfig(userId))) {
+      const [legacy] = await db.select().from(userConfig).where(isNull(userConfig.userId)).limit(1);
+      if (legacy) {
+        await db.update(userConfig).set({ userId }).where(eq(userConfig.id, legacy.id));
+      }
+    }
+  }
+
+  // Audit log
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [created] = await db.insert(auditEvents).values(event).returning();
+    return created;
+  }
+
+  async getAuditEvents(query: AuditQuery): Promise<{ events: AuditEvent[]; total: number }> {
+    const where = and(
+      query.action ? eq(auditEvents.action, query.action) : undefined,
+      query.userId ? eq(auditEvents.userId, query.userId) : undefined,
+      query.username ? eq(auditEvents.username, query.username) : undefined,
+      query.ip ? eq(auditEvents.ip, query.ip) : undefined,
+      query.from ? gte(auditEvents.createdAt, query.from) : undefined,
+      query.to ? lte(auditEvents.createdAt, query.to) : undefined,
+    );
+
+    const events = await db.select()
+      .from(auditEvents)
+      .where(where)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(query.limit)
+      .offset(query.offset);
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(auditEvents)
+      .where(where);
+
+    return { events, total: count };
+  }
+}
+
+function isMetaOnlyUpdate(project: Omit<Partial<InsertProject>, "files">, files: unknown): boolean {
+  const keys = Object.keys(project);
+  return !files && keys.length > 0 && keys.every((key) => (PROJECT_META_FIELDS as readonly string[]).includes(key));
+}
+
+// The old blob accepted paths like "./src/x.js", "a//b" or "src\\x.js" that the schema now rejects
+function normalizeLegacyFile(raw: unknown): unknown {
+  if (!raw || typeof raw !== "object" || typeof (raw as { path?: unknown }).path !== "string") return raw;
+  const path = (raw as { path: string }).path
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((seg) => seg && seg !== ".")
+    .join("/");
+  return { ...raw, path };
+}
+
+function legacyFilePath(raw: unknown): string {
+  const path = raw && typeof raw === "object" ? (raw as { path?: unknown }).path : undefined;
+  return typeof path === "string" ? JSON.stringify(path) : "(no path)";
+}
+
+// Later entries win, matching how a client would have overwritten them
+function dedupeByPath(files: ProjectFile[]): ProjectFile[] {
+  return Array.from(new Map(files.map((f) => [f.path, f])).values());
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,207 @@
+import { languageForPath, type ProjectFile, type ProjectTemplate, type ProjectTemplateSummary, type StoredProjectTemplate } from "@shared/schema";
+import { storage } from "./storage";
+
+// ========================================================
+// PROJECT TEMPLATES
+// Built-in starters ship with the app and can't be edited;
+// admin-created templates are stored in project_templates.
+// Built-in ids are slugs, stored ids are UUIDs, so they never clash.
+// ========================================================
+function files(entries: Record<string, string>): ProjectFile[] {
+  return Object.entries(entries).map(([path, content]) => ({ path, content, language: languageForPath(path) }));
+}
+
+export const BUILT_IN_TEMPLATES: ProjectTemplate[] = [
+  {
+    id: "blank",
+    name: "Blank",
+    description: "A single JavaScript file",
+    builtIn: true,
+    files: files({ "main.js": "// Start coding here...\n" }),
+  },
+  {
+    id: "express-api",
+    name: "Express API",
+    description: "Node.js REST API with Express and a health check",
+    builtIn: true,
+    files: files({
+      "package.json": `{
+  "name": "express-api",
+  "version": "1.0.0",
+  "type": "module",
+  "scripts": {
+    "dev": "node --watch src/index.js",
+    "start": "node src/index.js"
+  },
+  "dependencies": {
+    "express": "^4.21.0"
+  }
+}
+`,
+      "src/index.js": `import express from "express";
+import { router } from "./routes.js";
+
+const app = express();
+app.use(express.json());
+app.use("/api", router);
+
+const port = Number(process.env.PORT) || 3000;
+app.listen(port, () => console.log(\`API listening on http://localhost:\${port}\`));
+`,
+      "src/routes.js": `import { Router } from "express";
+
+export const router = Router();
+
+router.get("/health", (_req, res) => {
+  res.json({ status: "ok" });
+});
+`,
+      ".gitignore": "node_modules/\n.env\n",
+      "README.md": "# Express API\n\n```bash\nnpm install\nnpm run dev\n```\n\nThen open http://localhost:3000/api/health\n",
+    }),
+  },
+  {
+    id: "react-vite",
+    name: "React + Vite",
+    description: "React 18 single-page app with Vite and TypeScript",
+    builtIn: true,
+    files: files({
+      "package.json": `{
+  "name": "react-vite-app",
+  "version": "1.0.0",
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "tsc && vite build",
+    "preview": "vite preview"
+  },
+  "dependencies": {
+    "react": "^18.3.1",
+    "react-dom": "^18.3.1"
+  },
+  "devDependencies": {
+    "@types/react": "^18.3.0",
+    "@types/react-dom": "^18.3.0",
+    "@vitejs/plugin-react": "^4.3.0",
+    "typescript": "^5.6.0",
+    "vite": "^5.4.0"
+  }
+}
+`,
+      "index.html": `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>React + Vite</title>
+  </head>
+  <body>
+    <div id="root"></div>
+    <script type="module" src="/src/main.tsx"></script>
+  </body>
+</html>
+`,
+      "vite.config.ts": `import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+
+export default defineConfig({
+  plugins: [react()],
+});
+`,
+      "tsconfig.json": `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "lib": ["ES2020", "DOM", "DOM.Iterable"],
+    "module": "ESNext",
+    "moduleResolution": "bundler",
+    "jsx": "react-jsx",
+    "strict": true,
+    "noEmit": true,
+    "skipLibCheck": true
+  },
+  "include": ["src"]
+}
+`,
+      "src/main.tsx": `import React from "react";
+import ReactDOM from "react-dom/client";
+import App from "./App";
+
+ReactDOM.createRoot(document.getElementById("root")!).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>,
+);
+`,
+      "src/App.tsx": `import { useState } from "react";
+
+export default function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <main style={{ fontFamily: "system-ui", padding: "2rem" }}>
+      <h1>React + Vite</h1>
+      <button onClick={() => setCount((c) => c + 1)}>Clicked {count} times</button>
+    </main>
+  );
+}
+`,
+      ".gitignore": "node_modules/\ndist/\n",
+      "README.md": "# React + Vite\n\n```bash\nnpm install\nnpm run dev\n```\n",
+    }),
+  },
+  {
+    id: "fastapi",
+    name: "FastAPI",
+    description: "Python REST API with FastAPI and Uvicorn",
+    builtIn: true,
+    files: files({
+      "requirements.txt": "fastapi>=0.115\nuvicorn[standard]>=0.30\n",
+      "app/__init__.py": "",
+      "app/main.py": `from fastapi import FastAPI
+
+app = FastAPI(title="FastAPI starter")
+
+
+@app.get("/health")
+def health() -> dict[str, str]:
+    return {"status": "ok"}
+
+
+@app.get("/items/{item_id}")
+def read_item(item_id: int, q: str | None = None) -> dict[str, object]:
+    return {"item_id": item_id, "q": q}
+`,
+      ".gitignore": "__pycache__/\n.venv/\n.env\n",
+      "README.md": "# FastAPI\n\n```bash\npip install -r requirements.txt\nuvicorn app.main:app --reload\n```\n\nAPI docs at http://localhost:8000/docs\n",
+    }),
+  },
+];
+
+function fromStored(template: StoredProjectTemplate): ProjectTemplate {
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    files: template.files,
+    builtIn: false,
+  };
+}
+
+export function isBuiltInTemplate(id: string): boolean {
+  return BUILT_IN_TEMPLATES.some((t) => t.id === id);
+}
+
+export async function listTemplates(): Promise<ProjectTemplateSummary[]> {
+  const stored = (await storage.getTemplates()).map(fromStored);
+  return [...BUILT_IN_TEMPLATES, ...stored].map(({ files, ...template }) => ({
+    ...template,
+    fileCount: files.length,
+  }));
+}
+
+export async function findTemplate(id: string): Promise<ProjectTemplate | undefined> {
+  const builtIn = BUILT_IN_TEMPLATES.find((t) => t.id === id);
+  if (builtIn) return builtIn;
+  const stored = await storage.getTemplate(id);
+  return stored && fromStored(stored);
+}
@@ -1,44 +1,534 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, timestamp, jsonb, unique, index, boolean, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
-});
+  // Null for accounts that only sign in through SSO
+  password: text("password"),
+  role: text("role").notNull().default("member"),
+  // OpenID Connect identity (issuer + subject) linked to this account
+  oidcIssuer: text("oidc_issuer"),
+  oidcSubject: text("oidc_subject"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("users_oidc_identity_unique").on(table.oidcIssuer, table.oidcSubject),
+]);
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
+  oidcIssuer: true,
+  oidcSubject: true,
+});
+
+export const USER_ROLES = ["admin", "member"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+// Credentials accepted by the signup route (password is hashed before storage)
+export const signupSchema = z.object({
+  username: z
+    .string()
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-zA-Z0-9_.-]+$/, "Username may only contain letters, numbers, '.', '_' and '-'"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(128),
 });
 
+export type SignupInput = z.infer<typeof signupSchema>;
+
+// Sessions table (bearer tokens are stored as SHA-256 hashes, never in plaintext)
+export const sessions = pgTable("sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  id: true,
+  createdAt: true,
+  lastSeenAt: true,
+});
+
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type Session = typeof sessions.$inferSelect;
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "password">;
+
+// API tokens table - personal access tokens for scripts and CI
+export const API_TOKEN_SCOPES = [
+  "projects:read",
+  "projects:write",
+  "run:execute",
+  "build:generate",
+  "assistant:chat",
+] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: text("scopes").array().notNull().default(sql`'{}'::text[]`),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(64),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Pick at least one scope"),
+});
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = typeof apiTokens.$inferInsert;
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
 
 // Projects table
+// userId (here and on the tables below) is nullable only so rows created before
+// accounts existed survive `db:push`; the first admin adopts them on bootstrap.
 export const projects = pgTable("projects", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   name: text("name").notNull(),
   description: text("description"),
-  files: jsonb("files").notNull().default([]),
+  // Pre-project_files storage: one untyped blob per project. Moved into
+  // project_files on startup and left empty; never read by the API.
+  legacyFiles: jsonb("files").$type<unknown[]>().notNull().default([]),
+  // How the App Builder generated this project, if it did
+  builderSource: jsonb("builder_source").$type<BuilderSource>(),
+  // Backed by a local git repository (see server/git.ts)
+  gitEnabled: boolean("git_enabled").notNull().default(false),
+  // Dashboard organisation; shared with everyone who can see the project
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+  // Pre-project_preferences star/archive flags, shared by every collaborator. Copied
+  // to the owner's preferences on startup and cleared; never read by the API.
+  legacyStarred: boolean("starred").notNull().default(false),
+  legacyArchived: boolean("archived").notNull().default(false),
+  // The project this one was duplicated from; cleared if that is deleted
+  forkedFrom: varchar("forked_from").references((): AnyPgColumn => projects.id, { onDelete: "set null" }),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const insertProjectSchema = createInsertSchema(projects).omit({
-  id: true,
-  createdAt: true,
-  updatedAt: true,
+// Project files - relative paths with forward slashes, no "." / ".." segments
+export const projectFilePathSchema = z
+  .string()
+  .trim()
+  .min(1, "File path is required")
+  .max(512)
+  .transform((path) => path.replace(/^\/+/, ""))
+  .refine(
+    (path) => !path.includes("\\") && path.split("/").every((seg) => seg && seg !== "." && seg !== ".."),
+    "Invalid file path",
+  );
+
+export const projectFileSchema = z.object({
+  path: projectFilePathSchema,
+  content: z.string(),
+  language: z.string().min(1).default("plaintext"),
+});
+
+export type ProjectFile = z.infer<typeof projectFileSchema>;
+
+// Optional note stored on the version snapshot a save creates
+const versionMessageSchema = z.string().trim().max(200).optional();
+
+export const writeProjectFileSchema = z.object({
+  content: z.string(),
+  language: z.string().min(1).optional(),
+  message: versionMessageSchema,
+});
+
+export const renameProjectFileSchema = z.object({
+  newPath: projectFilePathSchema,
+  message: versionMessageSchema,
+});
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  py: "python",
+  json: "json",
+  css: "css",
+  scss: "scss",
+  html: "html",
+  md: "markdown",
+  yml: "yaml",
+  yaml: "yaml",
+  sql: "sql",
+  sh: "shell",
+};
+
+// Monaco language id for a file path
+export function languageForPath(path: string): string {
+  const ext = path.split(".").pop()?.toLowerCase() ?? "";
+  return LANGUAGE_BY_EXTENSION[ext] ?? "plaintext";
+}
+
+// The Builder request and model output a project was generated from
+export const builderSourceSchema = z.object({
+  prompt: z.string(),
+  template: z.string().optional(),
+  techStack: z.string().optional(),
+  model: z.string(),
+  rawResponse: z.string(),
 });
 
+export type BuilderSource = z.infer<typeof builderSourceSchema>;
+
+// Lower-case labels like "client-work" or "python"
+export const projectTagSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, "Tag can't be empty")
+  .max(32)
+  .regex(/^[a-z0-9][a-z0-9 _.-]*$/, "Tags may only contain letters, numbers, spaces, '.', '_' and '-'");
+
+export const insertProjectSchema = createInsertSchema(projects)
+  .omit({
+    id: true,
+    userId: true,
+    legacyFiles: true,
+    legacyStarred: true,
+    legacyArchived: true,
+    gitEnabled: true,
+    forkedFrom: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    // Initial file set on create; replaces every file when sent on update
+    files: z.array(projectFileSchema).optional(),
+    builderSource: builderSourceSchema.nullable().optional(),
+    tags: z
+      .array(projectTagSchema)
+      .max(20, "A project can have at most 20 tags")
+      .transform((tags) => Array.from(new Set(tags)))
+      .optional(),
+  });
+
+// Re-tagging a project doesn't count as editing it
+export const PROJECT_META_FIELDS = ["tags"] as const;
+
+// Query string accepted by GET /api/projects. Filters apply to owned and
+// shared projects alike; limit/offset page each list separately and are
+// unbounded when omitted.
+export const projectListQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  tag: projectTagSchema.optional(),
+  archived: z.enum(["true", "false"]).default("false").transform((v) => v === "true"),
+  starred: z.enum(["true", "false"]).optional().transform((v) => (v === undefined ? undefined : v === "true")),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type ProjectListQuery = z.infer<typeof projectListQuerySchema>;
+
 export type InsertProject = z.infer<typeof insertProjectSchema>;
-export type Project = typeof projects.$inferSelect;
+
+// Creating a project may start from a template instead of explicit files
+export const createProjectSchema = insertProjectSchema.extend({
+  templateId: z.string().optional(),
+});
+export type Project = Omit<typeof projects.$inferSelect, "legacyFiles" | "legacyStarred" | "legacyArchived">;
+// List views carry a file count instead of file contents, plus the caller's own flags
+export type ProjectSummary = Project & ProjectPreferences & { fileCount: number; forkedFromName: string | null };
+
+// Body of POST /api/projects/:id/duplicate
+export const duplicateProjectSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  // Copy the caller's AI chat messages scoped to the source project
+  includeChat: z.boolean().default(false),
+});
+
+// Project members table - teammates a project is shared with
+export const PROJECT_ROLES = ["viewer", "editor", "admin"] as const;
+export type ProjectRole = (typeof PROJECT_ROLES)[number];
+// The owner is not a member row but ranks above every member role
+export type ProjectAccessRole = ProjectRole | "owner";
+
+const PROJECT_ROLE_RANK: Record<ProjectAccessRole, number> = {
+  viewer: 0,
+  editor: 1,
+  admin: 2,
+  owner: 3,
+};
+
+export function hasProjectRole(role: ProjectAccessRole, required: ProjectAccessRole): boolean {
+  return PROJECT_ROLE_RANK[role] >= PROJECT_ROLE_RANK[required];
+}
+
+export const projectMembers = pgTable("project_members", {
+  id: serial("id").primaryKey(),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role").notNull().default("viewer"),
+  invitedBy: varchar("invited_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("project_members_project_user_unique").on(table.projectId, table.userId),
+]);
+
+export const inviteProjectMemberSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  role: z.enum(PROJECT_ROLES).default("viewer"),
+});
+
+export const updateProjectMemberSchema = z.object({
+  role: z.enum(PROJECT_ROLES),
+});
+
+export type ProjectMember = typeof projectMembers.$inferSelect;
+
+export interface ProjectMemberInfo {
+  userId: string;
+  username: string;
+  role: ProjectAccessRole;
+  createdAt: Date;
+}
+
+// Star/archive flags - one row per user, so collaborators (viewers included)
+// organise their own Dashboards without affecting anyone else's
+export const projectPreferences = pgTable("project_preferences", {
+  id: serial("id").primaryKey(),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  starred: boolean("starred").notNull().default(false),
+  archived: boolean("archived").notNull().default(false),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("project_preferences_project_user_unique").on(table.projectId, table.userId),
+]);
+
+// Body of PATCH /api/projects/:id/preferences
+export const updateProjectPreferencesSchema = z
+  .object({
+    starred: z.boolean().optional(),
+    archived: z.boolean().optional(),
+  })
+  .refine((prefs) => prefs.starred !== undefined || prefs.archived !== undefined, "Nothing to update");
+
+export type ProjectPreferences = Pick<typeof projectPreferences.$inferSelect, "starred" | "archived">;
+
+// A project someone else owns, as seen by a collaborator
+export type SharedProject = ProjectSummary & {
+  role: ProjectRole;
+  ownerUsername: string;
+};
+
+export const projectFiles = pgTable("project_files", {
+  id: serial("id").primaryKey(),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  path: text("path").notNull(),
+  content: text("content").notNull().default(""),
+  language: text("language").notNull().default("plaintext"),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("project_files_project_path_unique").on(table.projectId, table.path),
+  // Serves the code search substring prefilter (pg_trgm is created by `npm run db:push`)
+  index("project_files_content_trgm_idx").using("gin", table.content.op("gin_trgm_ops")),
+]);
+
+export type ProjectFileRecord = typeof projectFiles.$inferSelect;
+
+// Batch save from the editor - one request, one version snapshot
+export const saveProjectFilesSchema = z.object({
+  files: z.array(projectFileSchema).default([]),
+  deleted: z.array(projectFilePathSchema).default([]),
+  message: versionMessageSchema,
+});
+
+// Git operations on git-enabled projects
+export const gitCommitSchema = z.object({
+  message: z.string().trim().min(1, "Commit message is required").max(2000),
+});
+
+export const gitBranchSchema = z.object({
+  name: z.string().trim().min(1, "Branch name is required"),
+  from: z.string().trim().min(1).optional(),
+});
+
+export const gitCheckoutSchema = z.object({
+  branch: z.string().trim().min(1, "Branch is required"),
+  // Discard uncommitted changes instead of refusing to switch
+  force: z.boolean().default(false),
+});
+
+export const gitLogQuerySchema = z.object({
+  ref: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const gitDiffQuerySchema = z.object({
+  from: z.string().trim().min(1).optional(),
+  to: z.string().trim().min(1).optional(),
+});
+
+export const projectExportQuerySchema = z.object({
+  format: z.enum(["zip", "tar.gz"]).default("zip"),
+  // Add a generated README.md when the project has none
+  readme: z.enum(["true", "false"]).default("false").transform((v) => v === "true"),
+});
+
+// Import limits, shared with the Dashboard so a picked folder is trimmed before upload
+export const IMPORT_MAX_FILE_BYTES = 1024 * 1024;
+export const IMPORT_MAX_FILES = 2000;
+export const IMPORT_EXCLUDED_DIRS: readonly string[] = ["node_modules", ".git", "__MACOSX"];
+// A folder is uploaded uncompressed, file by file, so it gets its own total cap
+export const FOLDER_IMPORT_MAX_BYTES = 20 * 1024 * 1024;
+
+// Files left out of a ZIP or folder import, reported back to the uploader
+export const IMPORT_SKIP_REASONS = ["excluded folder", "gitignored", "binary", "too large", "invalid path", "file limit"] as const;
+export type ImportSkipReason = (typeof IMPORT_SKIP_REASONS)[number];
+export type SkippedImportFile = { path: string; reason: ImportSkipReason };
+
+export const gitExportFormatSchema = z.enum(["bundle", "zip"]);
+
+// Query string accepted by GET /api/search/code
+export const codeSearchQuerySchema = z.object({
+  q: z.string().min(1, "Search text is required").max(200),
+  // Treat q as an RE2 regular expression, matched line by line
+  regex: z.enum(["true", "false"]).default("false").transform((v) => v === "true"),
+  caseSensitive: z.enum(["true", "false"]).default("false").transform((v) => v === "true"),
+  projectId: z.string().optional(),
+  // Lines shown before and after each hit
+  context: z.coerce.number().int().min(0).max(5).default(2),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type CodeSearchQuery = z.infer<typeof codeSearchQuerySchema>;
+
+export type CodeSearchMatch = {
+  line: number; // 1-based
+  column: number; // 1-based
+  length: number;
+  // The line, clipped around the hit when very long
+  text: string;
+  // Where the hit starts within `text`
+  textStart: number;
+  before: string[];
+  after: string[];
+};
+
+export type CodeSearchResult = {
+  projectId: string;
+  projectName: string;
+  path: string;
+  language: string;
+  matches: CodeSearchMatch[];
+};
+
+// Real-time editing (WebSocket at /api/collab/:projectId). Binary frames
+// carry the Yjs sync/awareness protocol; text frames carry these JSON messages.
+export const collabClientMessageSchema = z.discriminatedUnion("type", [
+  // Must be the first message; the token is the browser session token
+  z.object({ type: z.literal("auth"), token: z.string().min(1), clientId: z.number().int().nonnegative() }),
+  // Write pending edits now instead of waiting for the idle save
+  z.object({ type: z.literal("save"), message: versionMessageSchema }),
+]);
+export type CollabClientMessage = z.infer<typeof collabClientMessageSchema>;
+
+// Someone in the session; `clientId` is their Yjs client id, `color` an index into the cursor palette
+export type CollabPeer = { clientId: number; userId: string; username: string; color: number };
+
+export type CollabServerMessage =
+  // `saved` is the stored content of every file when joining
+  | { type: "ready"; roomId: string; role: ProjectAccessRole; saved: Record<string, string> }
+  | { type: "presence"; peers: CollabPeer[] }
+  // Content now stored for these paths; `by` is the client whose save request this answers
+  | { type: "saved"; files: Record<string, string>; deleted: string[]; by: number | null }
+  | { type: "error"; error: string };
+
+// Close codes after which the client should not reconnect
+export const COLLAB_CLOSE_UNAUTHORIZED = 4401;
+export const COLLAB_CLOSE_FORBIDDEN = 4403;
+export const COLLAB_CLOSE_NOT_FOUND = 4404;
+// The session's token was swapped for a new one - reconnect with that
+export const COLLAB_CLOSE_SESSION_ROTATED = 4001;
+
+// Project versions - an immutable snapshot of every file after each save
+export const projectVersions = pgTable("project_versions", {
+  id: serial("id").primaryKey(),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  files: jsonb("files").$type<ProjectFile[]>().notNull(),
+  message: text("message").notNull(),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }),
+  // Written by the collaboration autosave; later autosaves may be folded into it
+  autosave: boolean("autosave").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("project_versions_project_version_unique").on(table.projectId, table.version),
+]);
+
+export type ProjectVersion = typeof projectVersions.$inferSelect;
+// Version list entries omit the file contents
+export type ProjectVersionSummary = Omit<ProjectVersion, "files"> & {
+  authorUsername: string | null;
+  fileCount: number;
+};
+
+// Project templates - starter file sets offered when creating a project.
+// Built-in templates live in server/templates.ts; this table holds the
+// ones admins add (e.g. by saving a project as a template).
+export const projectTemplates = pgTable("project_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  files: jsonb("files").$type<ProjectFile[]>().notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type StoredProjectTemplate = typeof projectTemplates.$inferSelect;
+
+export type ProjectTemplate = {
+  id: string;
+  name: string;
+  description: string | null;
+  files: ProjectFile[];
+  builtIn: boolean;
+};
+export type ProjectTemplateSummary = Omit<ProjectTemplate, "files"> & { fileCount: number };
+
+const templateFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  files: z.array(projectFileSchema).min(1, "A template needs at least one file"),
+});
+
+// Either an explicit file set or an existing project to copy files from
+export const createTemplateSchema = templateFieldsSchema
+  .partial({ files: true })
+  .extend({ projectId: z.string().optional() })
+  .refine((data) => !!data.files !== !!data.projectId, "Send either files or projectId");
+
+export const updateTemplateSchema = templateFieldsSchema.partial();
 
 // Chat messages table
 export const chatMessages = pgTable("chat_messages", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   role: text("role").notNull(),
   content: text("content").notNull(),
   codeContext: text("code_context"),
@@ -48,15 +538,65 @@ export const chatMessages = pgTable("chat_messages", {
 
 export const insertChatMessageSchema = createInsertSchema(chatMessages).omit({
   id: true,
+  userId: true,
   createdAt: true,
 });
 
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 
+// Editor code actions (POST /api/assistant/code-action)
+export const CODE_ACTIONS = ["explain", "fix", "tests", "refactor", "jsdoc"] as const;
+export type CodeAction = (typeof CODE_ACTIONS)[number];
+// How much of the surrounding file and project layout is sent along for context
+export const CODE_ACTION_CONTEXT_CHARS = 12_000;
+export const CODE_ACTION_CONTEXT_PATHS = 200;
+
+export const codeActionRequestSchema = z.object({
+  action: z.enum(CODE_ACTIONS),
+  // The selection, or the whole file when nothing is selected
+  code: z.string().min(1, "Code is required").max(20_000, "Selection is too long - select less code"),
+  path: projectFilePathSchema,
+  language: z.string().max(50).optional(),
+  // The rest of the file and the project's paths, for context
+  fileContent: z.string().max(CODE_ACTION_CONTEXT_CHARS).optional(),
+  projectPaths: z.array(z.string()).max(CODE_ACTION_CONTEXT_PATHS).optional(),
+});
+export type CodeActionRequest = z.infer<typeof codeActionRequestSchema>;
+
+export type CodeActionResult = {
+  action: CodeAction;
+  explanation: string;
+  // Replacement for the selection; for "tests", the test file's content. Null for "explain"
+  code: string | null;
+  // Where "tests" should go; otherwise the file the selection came from
+  path: string;
+};
+
+// Editor inline completions (POST /api/assistant/complete)
+export const COMPLETION_PREFIX_CHARS = 4000;
+export const COMPLETION_SUFFIX_CHARS = 1500;
+export const COMPLETION_NEIGHBOR_FILES = 3;
+export const COMPLETION_NEIGHBOR_CHARS = 2000;
+
+export const completionRequestSchema = z.object({
+  path: projectFilePathSchema,
+  language: z.string().max(50).optional(),
+  // Text before and after the cursor
+  prefix: z.string().max(COMPLETION_PREFIX_CHARS),
+  suffix: z.string().max(COMPLETION_SUFFIX_CHARS).default(""),
+  // Other open files, for names and conventions used elsewhere in the project
+  neighbors: z
+    .array(z.object({ path: z.string(), content: z.string().max(COMPLETION_NEIGHBOR_CHARS) }))
+    .max(COMPLETION_NEIGHBOR_FILES)
+    .default([]),
+});
+export type CompletionRequest = z.infer<typeof completionRequestSchema>;
+
 // Code executions table
 export const codeExecutions = pgTable("code_executions", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
   code: text("code").notNull(),
   language: text("language").notNull(),
   output: text("output"),
@@ -67,6 +607,7 @@ export const codeExecutions = pgTable("code_executions", {
 
 export const insertCodeExecutionSchema = createInsertSchema(codeExecutions).omit({
   id: true,
+  userId: true,
   createdAt: true,
 });
 
@@ -76,16 +617,75 @@ export type CodeExecution = typeof codeExecutions.$inferSelect;
 // User config table
 export const userConfig = pgTable("user_config", {
   id: serial("id").primaryKey(),
+  userId: varchar("user_id").unique().references(() => users.id, { onDelete: "cascade" }),
   backendUrl: text("backend_url"),
   apiKey: text("api_key"),
   perplexityKey: text("perplexity_key"),
+  // When false, requests may not supply their own `apiKey` - the stored key is always used
+  allowClientKeys: boolean("allow_client_keys").notNull().default(true),
+  // AI suggestions while typing in the Editor; off by default since every pause is a model call
+  inlineCompletions: boolean("inline_completions").notNull().default(false),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const insertUserConfigSchema = createInsertSchema(userConfig).omit({
   id: true,
+  userId: true,
   updatedAt: true,
 });
 
 export type InsertUserConfig = z.infer<typeof insertUserConfigSchema>;
 export type UserConfig = typeof userConfig.$inferSelect;
+
+// What GET /api/config returns - provider keys are never echoed back
+export interface PublicUserConfig {
+  backendUrl: string | null;
+  apiKeySet: boolean;
+  apiKeyMasked: string | null;
+  perplexityKeySet: boolean;
+  perplexityKeyMasked: string | null;
+  allowClientKeys: boolean;
+  inlineCompletions: boolean;
+  // An OpenAI key is configured server-wide (env / Replit AI Integrations)
+  serverKeyAvailable: boolean;
+  updatedAt: Date | null;
+}
+
+// Audit log - security-relevant actions. userId is null for failed logins
+// against unknown usernames; username keeps the attempted/actor name.
+export const AUDIT_ACTIONS = [
+  "auth.login",
+  "auth.login_failed",
+  "user.create",
+  "project.delete",
+  "config.update",
+  "code.execute",
+] as const;
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  username: text("username"),
+  action: text("action").$type<AuditAction>().notNull(),
+  ip: text("ip"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+// Query string accepted by GET /api/audit
+export const auditQuerySchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  userId: z.string().optional(),
+  username: z.string().optional(),
+  ip: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;